@@ -1,41 +1,124 @@
 
-import React, { useState, useEffect } from 'react';
-import { Tab, Evaluation, Category } from './types';
-import { dataService } from './services/supabaseClient';
-import { LayoutGrid, FilePlus, BookOpen, Clock, Tags, FileText, GraduationCap, X, Trash2, AlertTriangle, ChevronRight, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Tab, Evaluation, Category, Competency, DocumentHeaderOverrides, BundleScope, EvaluationFilters } from './types';
+import { Session } from '@supabase/supabase-js';
+import { dataService, isSupabaseConfigured } from './services/supabaseClient';
+import { authService } from './services/authService';
+import { competencyService } from './services/competencies';
+import { headerService } from './services/documentHeader';
+import { downloadBundle } from './services/bundle';
+import { EvaluationTemplate, createFromTemplate, duplicateEvaluation } from './services/templates';
+import { DEFAULT_EVALUATION_FILTERS, UNCATEGORIZED, buildSearchIndex, filterEvaluations, getCategoryKey } from './services/evaluationFilters';
+import { LayoutGrid, FilePlus, BookOpen, Clock, Tags, FileText, GraduationCap, X, Trash2, AlertTriangle, ChevronRight, Sparkles, Download, Upload, LogOut, Database, Loader2, Copy, LayoutTemplate, Users, ClipboardCheck, Target } from 'lucide-react';
 
 import CategoryManager from './components/CategoryManager';
+import CompetencyManager from './components/CompetencyManager';
+import ClassManager from './components/ClassManager';
+import GradingScreen from './components/GradingScreen';
+import ResultsAnalytics from './components/ResultsAnalytics';
 import EvaluationEditor from './components/EvaluationEditor';
 import PdfPreview from './components/PdfPreview';
+import ImportBundleDialog from './components/ImportBundleDialog';
+import AuthScreen from './components/AuthScreen';
+import SettingsPage from './components/SettingsPage';
+import DuplicateEvaluationDialog from './components/DuplicateEvaluationDialog';
+import TemplateLibraryDialog from './components/TemplateLibraryDialog';
+import EvaluationFiltersBar from './components/EvaluationFiltersBar';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
   const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [headerDefaults, setHeaderDefaults] = useState<DocumentHeaderOverrides>({});
   
   const [selectedEvalId, setSelectedEvalId] = useState<string | null>(null);
   const [previewData, setPreviewData] = useState<{ eval: Evaluation, mode: 'student' | 'teacher' } | null>(null);
   const [previewModalOpen, setPreviewModalOpen] = useState<Evaluation | null>(null);
   const [deleteModalOpen, setDeleteModalOpen] = useState<Evaluation | null>(null);
+  const [importModalOpen, setImportModalOpen] = useState(false);
+  const [duplicateModalOpen, setDuplicateModalOpen] = useState<Evaluation | null>(null);
+  const [templateModalOpen, setTemplateModalOpen] = useState(false);
+  // Évaluation pré-remplie (modèle) ouverte dans l'éditeur sans être encore enregistrée
+  const [newEvaluationDraft, setNewEvaluationDraft] = useState<Evaluation | null>(null);
+  const [gradingEvaluation, setGradingEvaluation] = useState<Evaluation | null>(null);
+  const [showResults, setShowResults] = useState(false);
+  const [filters, setFilters] = useState<EvaluationFilters>(DEFAULT_EVALUATION_FILTERS);
+
+  const categoryIds = useMemo(() => new Set(categories.map(c => c.id)), [categories]);
+  const searchIndex = useMemo(() => buildSearchIndex(evaluations), [evaluations]);
+  const visibleEvaluations = useMemo(
+    () => filterEvaluations(evaluations, filters, searchIndex, categoryIds),
+    [evaluations, filters, searchIndex, categoryIds]
+  );
+  // Les évaluations dont la matière a été supprimée restent accessibles dans un groupe dédié
+  const dashboardGroups: Category[] = [...categories, { id: UNCATEGORIZED, name: 'Sans matière', color: '#94a3b8' }];
+
+  // Avec Supabase, l'application n'est accessible qu'après connexion
+  const [session, setSession] = useState<Session | null>(null);
+  const [authChecked, setAuthChecked] = useState(!isSupabaseConfigured);
+  const [showAuthSettings, setShowAuthSettings] = useState(false);
+
+  useEffect(() => {
+    if (!isSupabaseConfigured) return;
+    authService.getSession().then(current => {
+      setSession(current);
+      setAuthChecked(true);
+    });
+    return authService.onSessionChange(setSession);
+  }, []);
 
   useEffect(() => {
+    if (isSupabaseConfigured && !session) {
+      setEvaluations([]);
+      setCategories([]);
+      setCompetencies([]);
+      setHeaderDefaults({});
+      return;
+    }
     loadData();
-  }, [activeTab]);
+  }, [activeTab, session]);
 
   const loadData = async () => {
-    const [evals, cats] = await Promise.all([
+    const [evals, cats, comps, header] = await Promise.all([
       dataService.getEvaluations(),
-      dataService.getCategories()
+      dataService.getCategories(),
+      competencyService.getCompetencies(),
+      headerService.getDefaults()
     ]);
     setEvaluations(evals);
     setCategories(cats);
+    setCompetencies(comps);
+    setHeaderDefaults(header);
   };
 
   const handleEditEvaluation = (id: string | null) => {
     setSelectedEvalId(id);
+    setNewEvaluationDraft(null);
     setActiveTab('editor');
   };
 
+  const handleGradeEvaluation = (evaluation: Evaluation) => {
+    setGradingEvaluation(evaluation);
+    setActiveTab('grading');
+  };
+
+  const handleUseTemplate = (template: EvaluationTemplate, categoryId: string) => {
+    setTemplateModalOpen(false);
+    setSelectedEvalId(null);
+    setNewEvaluationDraft(createFromTemplate(template, categoryId));
+    setActiveTab('editor');
+  };
+
+  // La copie est enregistrée tout de suite puis ouverte dans l'éditeur
+  const handleDuplicateEvaluation = async (fields: Pick<Evaluation, 'title' | 'category_id'>) => {
+    if (!duplicateModalOpen) return;
+    // Une erreur est affichée par la boîte de dialogue, qui reste ouverte
+    const copy = await dataService.saveEvaluation(duplicateEvaluation(duplicateModalOpen, fields));
+    setDuplicateModalOpen(null);
+    handleEditEvaluation(copy.id);
+  };
+
   const requestPreview = (evaluation: Evaluation) => {
     setPreviewModalOpen(evaluation);
   };
@@ -58,6 +141,24 @@ function App() {
     }
   };
 
+  const handleExport = async (scope: BundleScope, evals: Evaluation[], name: string) => {
+    try {
+      await downloadBundle(scope, categories, evals, name);
+    } catch (error) {
+      console.error("Error exporting bundle:", error);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await authService.signOut();
+      setActiveTab('dashboard');
+      setPreviewData(null);
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+  };
+
   const renderDashboard = () => (
     <div className="max-w-[1600px] mx-auto p-6 md:p-8 animate-fade-in">
       <header className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
@@ -68,16 +169,47 @@ function App() {
           </div>
           <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight">Tableau de bord</h1>
         </div>
-        <button 
-          onClick={() => handleEditEvaluation(null)}
-          className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-xl font-bold shadow-lg shadow-indigo-200 transition-all hover:-translate-y-0.5 flex items-center gap-2 group text-sm"
-        >
-          <FilePlus size={18} className="group-hover:rotate-12 transition-transform" />
-          Nouveau questionnaire
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setImportModalOpen(true)}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all flex items-center gap-2 text-sm"
+          >
+            <Upload size={16} /> Importer
+          </button>
+          <button
+            onClick={() => handleExport('workspace', evaluations, `sauvegarde-${new Date().toISOString().slice(0, 10)}`)}
+            disabled={evaluations.length === 0 && categories.length === 0}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all flex items-center gap-2 text-sm disabled:opacity-50"
+          >
+            <Download size={16} /> Tout exporter
+          </button>
+          <button
+            onClick={() => setTemplateModalOpen(true)}
+            className="bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all flex items-center gap-2 text-sm"
+          >
+            <LayoutTemplate size={16} /> Modèles
+          </button>
+          <button 
+            onClick={() => handleEditEvaluation(null)}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-xl font-bold shadow-lg shadow-indigo-200 transition-all hover:-translate-y-0.5 flex items-center gap-2 group text-sm"
+          >
+            <FilePlus size={18} className="group-hover:rotate-12 transition-transform" />
+            Nouveau questionnaire
+          </button>
+        </div>
       </header>
 
-      {categories.length === 0 ? (
+      {(categories.length > 0 || evaluations.length > 0) && (
+        <EvaluationFiltersBar
+          filters={filters}
+          categories={categories}
+          resultCount={visibleEvaluations.length}
+          totalCount={evaluations.length}
+          onChange={setFilters}
+        />
+      )}
+
+      {categories.length === 0 && evaluations.length === 0 ? (
          <div className="text-center p-12 bg-white rounded-3xl border-2 border-dashed border-slate-200 mt-8">
             <div className="w-16 h-16 bg-indigo-50 rounded-full flex items-center justify-center mx-auto mb-4 text-indigo-500">
               <Tags size={32} />
@@ -93,8 +225,19 @@ function App() {
          </div>
       ) : (
         <div className="space-y-8">
-          {categories.map(cat => {
-            const catEvals = evaluations.filter(e => e.category_id === cat.id);
+          {visibleEvaluations.length === 0 && evaluations.length > 0 && (
+            <div className="text-center p-12 bg-white rounded-3xl border-2 border-dashed border-slate-200">
+              <p className="mb-4 text-slate-500 text-sm font-bold">Aucune évaluation ne correspond à la recherche.</p>
+              <button
+                onClick={() => setFilters({ ...DEFAULT_EVALUATION_FILTERS, sort: filters.sort })}
+                className="bg-slate-900 text-white px-6 py-2.5 rounded-xl font-bold hover:bg-slate-800 transition-all text-sm"
+              >
+                Effacer les filtres
+              </button>
+            </div>
+          )}
+          {dashboardGroups.map(cat => {
+            const catEvals = visibleEvaluations.filter(e => getCategoryKey(e, categoryIds) === cat.id);
             if (catEvals.length === 0) return null;
 
             return (
@@ -108,6 +251,13 @@ function App() {
                     </span>
                   </div>
                   <div className="h-px flex-grow mx-4 bg-slate-100"></div>
+                  <button
+                    onClick={() => handleExport('category', catEvals, cat.name)}
+                    className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                    title="Exporter la matière (JSON)"
+                  >
+                    <Download size={16} />
+                  </button>
                 </div>
                 
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-5 gap-4">
@@ -122,15 +272,47 @@ function App() {
                         <div className="p-1.5 bg-slate-50 rounded-lg text-slate-400 group-hover:text-indigo-500 transition-colors">
                           <FileText size={16} />
                         </div>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setDeleteModalOpen(ev);
-                          }}
-                          className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
-                        >
-                          <Trash2 size={16} />
-                        </button>
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-all">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleExport('evaluation', [ev], ev.title);
+                            }}
+                            className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                            title="Exporter (JSON)"
+                          >
+                            <Download size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleGradeEvaluation(ev);
+                            }}
+                            className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                            title="Saisir les notes"
+                          >
+                            <ClipboardCheck size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDuplicateModalOpen(ev);
+                            }}
+                            className="p-1.5 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                            title="Dupliquer"
+                          >
+                            <Copy size={16} />
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDeleteModalOpen(ev);
+                            }}
+                            className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
                       </div>
 
                       <h3 className="font-bold text-base text-slate-800 mb-2 group-hover:text-indigo-600 transition-colors leading-tight line-clamp-2">
@@ -158,6 +340,20 @@ function App() {
     </div>
   );
 
+  if (!authChecked) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-slate-400">
+        <Loader2 size={32} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (isSupabaseConfigured && !session) {
+    return showAuthSettings
+      ? <SettingsPage onBack={() => setShowAuthSettings(false)} />
+      : <AuthScreen onOpenSettings={() => setShowAuthSettings(true)} />;
+  }
+
   return (
     <div className="min-h-screen bg-[#fcfdff] text-slate-900 font-sans selection:bg-indigo-100 selection:text-indigo-700">
       {!previewData && (activeTab as string) !== 'editor' && (
@@ -191,9 +387,44 @@ function App() {
               <Tags size={20} className={`${activeTab === 'categories' ? 'scale-110' : 'group-hover:scale-110'} transition-transform`} />
               <span className="text-[9px] font-bold uppercase tracking-wider">Matières</span>
             </button>
+            <button
+              onClick={() => setActiveTab('competencies')}
+              className={`p-3 rounded-xl transition-all flex flex-col items-center gap-1 group ${activeTab === 'competencies' ? 'bg-indigo-50 text-indigo-600 shadow-sm' : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'}`}
+              title="Compétences"
+            >
+              <Target size={20} className={`${activeTab === 'competencies' ? 'scale-110' : 'group-hover:scale-110'} transition-transform`} />
+              <span className="text-[9px] font-bold uppercase tracking-wider">Compét.</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('classes')}
+              className={`p-3 rounded-xl transition-all flex flex-col items-center gap-1 group ${activeTab === 'classes' ? 'bg-indigo-50 text-indigo-600 shadow-sm' : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'}`}
+              title="Classes"
+            >
+              <Users size={20} className={`${activeTab === 'classes' ? 'scale-110' : 'group-hover:scale-110'} transition-transform`} />
+              <span className="text-[9px] font-bold uppercase tracking-wider">Classes</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('settings')}
+              className={`p-3 rounded-xl transition-all flex flex-col items-center gap-1 group ${activeTab === 'settings' ? 'bg-indigo-50 text-indigo-600 shadow-sm' : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'}`}
+              title="Réglages"
+            >
+              <Database size={20} className={`${activeTab === 'settings' ? 'scale-110' : 'group-hover:scale-110'} transition-transform`} />
+              <span className="text-[9px] font-bold uppercase tracking-wider">Réglages</span>
+            </button>
           </div>
           
-          <div className="mt-auto mb-4 text-slate-300 font-black text-[10px] vertical-text tracking-[0.2em] opacity-50">
+          {session && (
+            <button
+              onClick={handleSignOut}
+              className="mt-auto p-3 rounded-xl text-slate-400 hover:bg-rose-50 hover:text-rose-500 transition-all flex flex-col items-center gap-1"
+              title={`Déconnexion (${session.user.email})`}
+            >
+              <LogOut size={20} />
+              <span className="text-[9px] font-bold uppercase tracking-wider">Sortir</span>
+            </button>
+          )}
+
+          <div className={`${session ? 'mt-4' : 'mt-auto'} mb-4 text-slate-300 font-black text-[10px] vertical-text tracking-[0.2em] opacity-50`}>
             DCB
           </div>
         </nav>
@@ -210,9 +441,33 @@ function App() {
             </div>
           )}
           
+          {activeTab === 'competencies' && (
+            <div className="p-8">
+              <CompetencyManager onBack={() => setActiveTab('dashboard')} />
+            </div>
+          )}
+
+          {activeTab === 'classes' && (
+            <div className="p-8">
+              <ClassManager onBack={() => setActiveTab('dashboard')} />
+            </div>
+          )}
+
+          {activeTab === 'grading' && gradingEvaluation && (
+            <GradingScreen
+              evaluation={gradingEvaluation}
+              onBack={() => setActiveTab('dashboard')}
+              onManageClasses={() => setActiveTab('classes')}
+              onShowResults={() => setShowResults(true)}
+            />
+          )}
+
+          {activeTab === 'settings' && <SettingsPage />}
+
           {activeTab === 'editor' && (
             <EvaluationEditor 
               evaluationId={selectedEvalId} 
+              initialEvaluation={newEvaluationDraft}
               onClose={() => setActiveTab('dashboard')}
               onPreview={requestPreview}
             />
@@ -223,10 +478,21 @@ function App() {
           <PdfPreview 
             evaluation={previewData.eval}
             category={categories.find(c => c.id === previewData.eval.category_id)}
+            competencies={competencies}
+            headerDefaults={headerDefaults}
             mode={previewData.mode}
             onClose={() => setPreviewData(null)}
           />
         )}
+
+        {showResults && gradingEvaluation && (
+          <ResultsAnalytics
+            evaluation={gradingEvaluation}
+            category={categories.find(c => c.id === gradingEvaluation.category_id)}
+            competencies={competencies}
+            onClose={() => setShowResults(false)}
+          />
+        )}
       </main>
 
       {/* Modal Backdrop Styling - Hidden on print */}
@@ -270,6 +536,32 @@ function App() {
         </div>
       )}
 
+      {importModalOpen && (
+        <ImportBundleDialog
+          categories={categories}
+          evaluations={evaluations}
+          onImported={loadData}
+          onClose={() => setImportModalOpen(false)}
+        />
+      )}
+
+      {duplicateModalOpen && (
+        <DuplicateEvaluationDialog
+          evaluation={duplicateModalOpen}
+          categories={categories}
+          onConfirm={handleDuplicateEvaluation}
+          onCancel={() => setDuplicateModalOpen(null)}
+        />
+      )}
+
+      {templateModalOpen && (
+        <TemplateLibraryDialog
+          categories={categories}
+          onSelect={handleUseTemplate}
+          onCancel={() => setTemplateModalOpen(false)}
+        />
+      )}
+
       {deleteModalOpen && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 print:hidden">
           <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
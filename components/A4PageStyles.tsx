@@ -0,0 +1,63 @@
+import React from 'react';
+
+// Mise en page A4 partagée par les aperçus imprimables (sujet, statistiques) :
+// pages de 210 x 297 mm à l'écran, une page par feuille à l'impression.
+// Conteneurs attendus : .pdf-modal-root > .print-wrapper > .a4-page ; .no-print est masqué à l'impression.
+const A4PageStyles: React.FC = () => (
+  <style>{`
+    @media screen {
+      .a4-page {
+        width: 210mm;
+        height: 297mm;
+        min-height: 297mm;
+      }
+    }
+    
+    @media print {
+      @page { size: A4; margin: 0; }
+      body { 
+        background: white !important; 
+        margin: 0 !important; 
+        padding: 0 !important;
+        overflow: visible !important;
+      }
+      .no-print { display: none !important; }
+      .pdf-modal-root {
+         position: absolute !important; 
+         width: 100% !important;
+         height: auto !important;
+         overflow: visible !important;
+         z-index: 9999;
+         background: white !important;
+         top: 0 !important; left: 0 !important;
+      }
+      .print-wrapper { 
+        display: block !important; 
+        width: 100% !important; 
+        padding: 0 !important; 
+        margin: 0 !important; 
+      }
+      .a4-page {
+         margin: 0 !important; 
+         border: none !important; 
+         box-shadow: none !important;
+         width: 210mm !important; 
+         height: 297mm !important; 
+         min-height: 297mm !important;
+         max-height: 297mm !important;
+         overflow: hidden !important; 
+         break-after: page; 
+         page-break-after: always;
+         print-color-adjust: exact; 
+         -webkit-print-color-adjust: exact;
+         box-sizing: border-box !important;
+      }
+      .page-item-container {
+         page-break-inside: avoid;
+         break-inside: avoid;
+      }
+    }
+  `}</style>
+);
+
+export default A4PageStyles;
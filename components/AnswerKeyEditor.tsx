@@ -0,0 +1,200 @@
+import React from 'react';
+import { Question, QcmOption, TrueFalseStatement, MatchingPair } from '../types';
+import { parseCloze } from '../services/questionTypes';
+import RichTextEditor from './RichTextEditor';
+import { Plus, X, CheckSquare, Square } from 'lucide-react';
+
+interface AnswerKeyEditorProps {
+  question: Question;
+  onChange: (changes: Partial<Question>) => void;
+}
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const AddRowButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button
+    onClick={onClick}
+    className="w-full py-2 border border-dashed border-slate-200 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 hover:border-indigo-300 transition-colors flex items-center justify-center gap-1"
+  >
+    <Plus size={12} /> {label}
+  </button>
+);
+
+const RemoveRowButton: React.FC<{ title: string; onClick: () => void }> = ({ title, onClick }) => (
+  <button
+    onClick={onClick}
+    className="p-1 text-slate-300 hover:text-rose-500 rounded transition-colors flex-shrink-0"
+    title={title}
+  >
+    <X size={14} />
+  </button>
+);
+
+const QcmOptionsEditor: React.FC<AnswerKeyEditorProps> = ({ question, onChange }) => {
+  const update = (id: string, changes: Partial<QcmOption>) =>
+    onChange({ options: question.options.map(o => o.id === id ? { ...o, ...changes } : o) });
+
+  return (
+    <div className="space-y-2">
+      {question.options.map((opt, i) => (
+        <div key={opt.id} className={`flex items-center gap-2 p-2 rounded-xl border transition-all ${opt.is_correct ? 'bg-emerald-50 border-emerald-200' : 'bg-slate-50 border-slate-200'}`}>
+          <button
+            onClick={() => update(opt.id, { is_correct: !opt.is_correct })}
+            className={`flex-shrink-0 transition-colors ${opt.is_correct ? 'text-emerald-600' : 'text-slate-300 hover:text-emerald-500'}`}
+            title={opt.is_correct ? 'Bonne réponse' : 'Marquer comme bonne réponse'}
+          >
+            {opt.is_correct ? <CheckSquare size={18} /> : <Square size={18} />}
+          </button>
+          <span className="text-[10px] font-black text-slate-400 w-4">{letter(i)}</span>
+          <input
+            type="text"
+            value={opt.text}
+            onChange={(e) => update(opt.id, { text: e.target.value })}
+            className="flex-grow bg-transparent outline-none text-sm font-medium text-slate-700 placeholder:text-slate-300"
+            placeholder={`Proposition ${letter(i)}`}
+          />
+          <RemoveRowButton title="Supprimer la proposition" onClick={() => onChange({ options: question.options.filter(o => o.id !== opt.id) })} />
+        </div>
+      ))}
+      <AddRowButton
+        label="Ajouter une proposition"
+        onClick={() => onChange({ options: [...question.options, { id: crypto.randomUUID(), text: '', is_correct: false }] })}
+      />
+    </div>
+  );
+};
+
+const TrueFalseEditor: React.FC<AnswerKeyEditorProps> = ({ question, onChange }) => {
+  const update = (id: string, changes: Partial<TrueFalseStatement>) =>
+    onChange({ statements: question.statements.map(s => s.id === id ? { ...s, ...changes } : s) });
+
+  return (
+    <div className="space-y-2">
+      {question.statements.map((st, i) => (
+        <div key={st.id} className="flex items-center gap-2 p-2 rounded-xl border bg-slate-50 border-slate-200">
+          <span className="text-[10px] font-black text-slate-400 w-4">{i + 1}</span>
+          <input
+            type="text"
+            value={st.text}
+            onChange={(e) => update(st.id, { text: e.target.value })}
+            className="flex-grow bg-transparent outline-none text-sm font-medium text-slate-700 placeholder:text-slate-300"
+            placeholder="Affirmation..."
+          />
+          <div className="flex rounded-lg overflow-hidden border border-slate-200 flex-shrink-0">
+            <button
+              onClick={() => update(st.id, { is_true: true })}
+              className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest transition-colors ${st.is_true ? 'bg-emerald-500 text-white' : 'bg-white text-slate-400 hover:text-emerald-600'}`}
+            >
+              Vrai
+            </button>
+            <button
+              onClick={() => update(st.id, { is_true: false })}
+              className={`px-2 py-1 text-[9px] font-black uppercase tracking-widest transition-colors ${!st.is_true ? 'bg-rose-500 text-white' : 'bg-white text-slate-400 hover:text-rose-600'}`}
+            >
+              Faux
+            </button>
+          </div>
+          <RemoveRowButton title="Supprimer l'affirmation" onClick={() => onChange({ statements: question.statements.filter(s => s.id !== st.id) })} />
+        </div>
+      ))}
+      <AddRowButton
+        label="Ajouter une affirmation"
+        onClick={() => onChange({ statements: [...question.statements, { id: crypto.randomUUID(), text: '', is_true: true }] })}
+      />
+    </div>
+  );
+};
+
+const MatchingEditor: React.FC<AnswerKeyEditorProps> = ({ question, onChange }) => {
+  const update = (id: string, changes: Partial<MatchingPair>) =>
+    onChange({ pairs: question.pairs.map(p => p.id === id ? { ...p, ...changes } : p) });
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] text-slate-400 font-bold ml-1">Saisissez les bonnes associations : la colonne de droite sera mélangée à l'impression.</p>
+      {question.pairs.map((pair, i) => (
+        <div key={pair.id} className="flex items-center gap-2 p-2 rounded-xl border bg-slate-50 border-slate-200">
+          <span className="text-[10px] font-black text-slate-400 w-4">{i + 1}</span>
+          <input
+            type="text"
+            value={pair.left}
+            onChange={(e) => update(pair.id, { left: e.target.value })}
+            className="flex-1 min-w-0 bg-white px-2 py-1 rounded border border-slate-200 outline-none text-sm font-medium text-slate-700 placeholder:text-slate-300"
+            placeholder="Élément"
+          />
+          <span className="text-slate-300 font-black">•—•</span>
+          <input
+            type="text"
+            value={pair.right}
+            onChange={(e) => update(pair.id, { right: e.target.value })}
+            className="flex-1 min-w-0 bg-white px-2 py-1 rounded border border-slate-200 outline-none text-sm font-medium text-slate-700 placeholder:text-slate-300"
+            placeholder="Correspondance"
+          />
+          <RemoveRowButton title="Supprimer l'association" onClick={() => onChange({ pairs: question.pairs.filter(p => p.id !== pair.id) })} />
+        </div>
+      ))}
+      <AddRowButton
+        label="Ajouter une association"
+        onClick={() => onChange({ pairs: [...question.pairs, { id: crypto.randomUUID(), left: '', right: '' }] })}
+      />
+    </div>
+  );
+};
+
+const ClozeEditor: React.FC<AnswerKeyEditorProps> = ({ question, onChange }) => {
+  const blanks = parseCloze(question.cloze_text).filter(p => p.type === 'blank');
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:border-indigo-500/30 focus:bg-white outline-none min-h-[100px] font-medium text-slate-700 transition-all leading-relaxed text-sm"
+        placeholder="Le chat [mange] la souris. Les mots entre crochets deviennent des trous."
+        value={question.cloze_text}
+        onChange={(e) => onChange({ cloze_text: e.target.value })}
+      />
+      <div className="text-[10px] font-bold text-slate-400 ml-1">
+        {blanks.length} trou{blanks.length > 1 ? 's' : ''}
+        {blanks.length > 0 && ` : ${blanks.map(b => b.type === 'blank' ? b.answer : '').join(', ')}`}
+      </div>
+    </div>
+  );
+};
+
+const EDITOR_LABELS: Partial<Record<Question['question_type'], string>> = {
+  qcm: 'Propositions',
+  true_false: 'Affirmations',
+  matching: 'Associations',
+  cloze: 'Texte à trous'
+};
+
+// Éditeur du corrigé structuré des questions fermées (QCM, Vrai/Faux, Relier, Texte à trous)
+const AnswerKeyEditor: React.FC<AnswerKeyEditorProps> = ({ question, onChange }) => (
+  <div className="grid lg:grid-cols-2 gap-4">
+    <div>
+      <div className="flex items-center gap-2 mb-1 ml-1">
+        <span className="w-1.5 h-1.5 rounded-full bg-indigo-500"></span>
+        <label className="block text-[9px] font-black text-indigo-600 uppercase tracking-[0.2em]">{EDITOR_LABELS[question.question_type]}</label>
+      </div>
+      {question.question_type === 'qcm' && <QcmOptionsEditor question={question} onChange={onChange} />}
+      {question.question_type === 'true_false' && <TrueFalseEditor question={question} onChange={onChange} />}
+      {question.question_type === 'matching' && <MatchingEditor question={question} onChange={onChange} />}
+      {question.question_type === 'cloze' && <ClozeEditor question={question} onChange={onChange} />}
+    </div>
+
+    {/* Explication facultative du corrigé */}
+    <div>
+      <div className="flex items-center gap-2 mb-1 ml-1">
+        <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
+        <label className="block text-[9px] font-black text-emerald-600 uppercase tracking-[0.2em]">Explication Prof (facultatif)</label>
+      </div>
+      <RichTextEditor
+        value={question.teacher_answer}
+        onChange={(val) => onChange({ teacher_answer: val })}
+        className="rounded-xl border border-slate-200 hover:border-emerald-200 focus-within:border-emerald-300 transition-all shadow-sm"
+        placeholder="Justification affichée dans le corrigé..."
+      />
+    </div>
+  </div>
+);
+
+export default AnswerKeyEditor;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { authService } from '../services/authService';
+import { BookOpen, Mail, Lock, AlertTriangle, CheckCircle, Loader2, Database } from 'lucide-react';
+
+interface AuthScreenProps {
+  onOpenSettings: () => void;
+}
+
+type AuthMode = 'signin' | 'signup' | 'magic';
+
+const AuthScreen: React.FC<AuthScreenProps> = ({ onOpenSettings }) => {
+  const [mode, setMode] = useState<AuthMode>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [notification, setNotification] = useState<{type: 'error' | 'success', message: string} | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || (mode !== 'magic' && !password)) return;
+    setLoading(true);
+    setNotification(null);
+    try {
+      if (mode === 'signin') {
+        await authService.signIn(email.trim(), password);
+      } else if (mode === 'signup') {
+        const needsConfirmation = await authService.signUp(email.trim(), password);
+        if (needsConfirmation) {
+          setNotification({ type: 'success', message: "Compte créé : confirmez votre adresse avec le lien reçu par e-mail." });
+        }
+      } else {
+        await authService.sendMagicLink(email.trim());
+        setNotification({ type: 'success', message: "Lien de connexion envoyé : consultez votre boîte e-mail." });
+      }
+    } catch (error: any) {
+      setNotification({ type: 'error', message: error.message });
+    }
+    setLoading(false);
+  };
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setNotification(null);
+  };
+
+  const inputClass = "w-full bg-slate-50 border-2 border-slate-100 rounded-2xl py-3 pl-11 pr-4 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none focus:bg-white font-bold text-slate-800 transition-all";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-[#fcfdff]">
+      <div className="bg-white rounded-[32px] shadow-2xl shadow-slate-200/60 border border-slate-100 max-w-md w-full p-10 animate-fade-in">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="p-2.5 bg-gradient-to-br from-indigo-600 to-violet-600 rounded-2xl text-white shadow-lg shadow-indigo-200">
+            <BookOpen size={24} />
+          </div>
+          <div>
+            <h1 className="text-2xl font-black text-slate-900 leading-none">Espace enseignant</h1>
+            <p className="text-xs text-slate-400 font-bold mt-1">Connectez-vous pour retrouver vos évaluations</p>
+          </div>
+        </div>
+
+        <div className="flex p-1 bg-slate-100 rounded-xl mb-6">
+          {([['signin', 'Connexion'], ['signup', 'Créer un compte'], ['magic', 'Lien e-mail']] as [AuthMode, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => switchMode(id)}
+              className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${mode === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {notification && (
+          <div className={`mb-6 p-3 rounded-xl border flex items-center gap-3 text-sm font-semibold ${notification.type === 'error' ? 'bg-rose-50 border-rose-100 text-rose-700' : 'bg-emerald-50 border-emerald-100 text-emerald-700'}`}>
+            {notification.type === 'error' ? <AlertTriangle size={18} className="shrink-0" /> : <CheckCircle size={18} className="shrink-0" />}
+            <span>{notification.message}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="relative">
+            <Mail size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="prenom.nom@ecole.fr"
+              className={inputClass}
+            />
+          </div>
+          {mode !== 'magic' && (
+            <div className="relative">
+              <Lock size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                type="password"
+                autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Mot de passe"
+                className={inputClass}
+              />
+            </div>
+          )}
+          {mode === 'magic' && (
+            <p className="text-xs text-slate-500 font-medium ml-1">Recevez un lien de connexion sans mot de passe.</p>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl font-black text-white bg-indigo-600 hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all disabled:opacity-50"
+          >
+            {loading && <Loader2 size={18} className="animate-spin" />}
+            {mode === 'signin' ? 'Se connecter' : mode === 'signup' ? 'Créer mon compte' : 'Envoyer le lien'}
+          </button>
+        </form>
+
+        <button onClick={onOpenSettings} className="mt-8 mx-auto flex items-center gap-2 text-xs font-bold text-slate-400 hover:text-slate-600 transition-colors">
+          <Database size={14} /> Réglages de connexion
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AuthScreen;
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { Category } from '../types';
-import { Trash2, Plus, Save, Pencil, X, AlertTriangle, Palette } from 'lucide-react';
+import { Category, DocumentHeaderOverrides } from '../types';
+import { Trash2, Plus, Save, Pencil, X, AlertTriangle, Palette, FileText } from 'lucide-react';
 import { dataService } from '../services/supabaseClient';
+import { DEFAULT_DOCUMENT_HEADER, headerService, resolveDocumentHeader } from '../services/documentHeader';
+import HeaderDesignerDialog from './HeaderDesignerDialog';
 
 interface CategoryManagerProps {
   onBack: () => void;
@@ -20,8 +22,13 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
   const [deleteCandidateId, setDeleteCandidateId] = useState<string | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
+  // En-tête des copies en cours de modification : réglages par défaut ou d'une matière
+  const [headerDefaults, setHeaderDefaults] = useState<DocumentHeaderOverrides>({});
+  const [headerTarget, setHeaderTarget] = useState<Category | 'defaults' | null>(null);
+
   useEffect(() => {
     loadCategories();
+    headerService.getDefaults().then(setHeaderDefaults);
   }, []);
 
   const loadCategories = async () => {
@@ -69,6 +76,17 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
     setNewCatColor(COLORS[0]);
   };
 
+  const saveHeader = async (header: DocumentHeaderOverrides) => {
+    if (headerTarget === 'defaults') {
+      await headerService.saveDefaults(header);
+      setHeaderDefaults(header);
+    } else if (headerTarget) {
+      await dataService.updateCategoryHeader(headerTarget.id, header);
+      await loadCategories();
+    }
+    setHeaderTarget(null);
+  };
+
   const confirmDelete = async () => {
     if (!deleteCandidateId) return;
     try {
@@ -89,9 +107,14 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
           <h2 className="text-3xl font-black text-slate-900">Matières</h2>
           <p className="text-slate-500 font-medium">Configurez et personnalisez vos disciplines d'enseignement.</p>
         </div>
-        <button onClick={onBack} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-xl font-bold transition-colors">
-          Retour
-        </button>
+        <div className="flex gap-2">
+          <button onClick={() => setHeaderTarget('defaults')} className="flex items-center gap-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-xl font-bold transition-colors">
+            <FileText size={18} /> En-tête des copies
+          </button>
+          <button onClick={onBack} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-xl font-bold transition-colors">
+            Retour
+          </button>
+        </div>
       </div>
 
       {errorMsg && (
@@ -162,6 +185,9 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
               <span className="font-extrabold text-slate-800 text-lg">{cat.name}</span>
             </div>
             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => setHeaderTarget(cat)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all" title="En-tête des copies de la matière">
+                <FileText size={18} />
+              </button>
               <button onClick={() => startEdit(cat)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
                 <Pencil size={18} />
               </button>
@@ -176,6 +202,32 @@ const CategoryManager: React.FC<CategoryManagerProps> = ({ onBack }) => {
         )}
       </div>
 
+      {headerTarget === 'defaults' && (
+        <HeaderDesignerDialog
+          title="En-tête des copies"
+          description="Réglages par défaut de toutes vos évaluations. Chaque matière, puis chaque évaluation, peut en personnaliser les champs."
+          value={headerDefaults}
+          inherited={DEFAULT_DOCUMENT_HEADER}
+          inheritedFrom={null}
+          onSave={saveHeader}
+          onCancel={() => setHeaderTarget(null)}
+        />
+      )}
+
+      {headerTarget && headerTarget !== 'defaults' && (
+        <HeaderDesignerDialog
+          title={`En-tête — ${headerTarget.name}`}
+          description="Les champs non personnalisés reprennent l'en-tête par défaut. Chaque évaluation peut encore les modifier."
+          value={headerTarget.header || {}}
+          inherited={resolveDocumentHeader(headerDefaults)}
+          inheritedFrom="l'en-tête par défaut"
+          previewTitle={headerTarget.name}
+          previewColor={headerTarget.color}
+          onSave={saveHeader}
+          onCancel={() => setHeaderTarget(null)}
+        />
+      )}
+
       {deleteCandidateId && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
             <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
@@ -0,0 +1,360 @@
+import React, { useState, useEffect } from 'react';
+import { SchoolClass, Student } from '../types';
+import { Trash2, Plus, Save, Pencil, X, AlertTriangle, Users, UserPlus, FileSpreadsheet } from 'lucide-react';
+import { gradebookService, formatStudentName } from '../services/gradebook';
+import { NewStudent } from '../services/gradebookSpreadsheets';
+import RosterImportDialog from './RosterImportDialog';
+
+interface ClassManagerProps {
+  onBack: () => void;
+}
+
+// Nom et prénom validés à la sortie du champ, pour ne pas écrire à chaque frappe
+const StudentRow: React.FC<{ student: Student; index: number; onSave: (student: Student) => void; onDelete: () => void }> = ({ student, index, onSave, onDelete }) => {
+  const [draft, setDraft] = useState(student);
+  useEffect(() => setDraft(student), [student]);
+  const commit = () => {
+    if (draft.last_name !== student.last_name || draft.first_name !== student.first_name) onSave(draft);
+  };
+  const inputClass = "bg-transparent font-bold text-slate-700 outline-none focus:bg-white focus:ring-2 focus:ring-indigo-100 rounded-lg px-2 py-1 min-w-0";
+
+  return (
+    <div className="group flex items-center gap-2 px-3 py-1.5 rounded-xl hover:bg-slate-50 transition-colors">
+      <span className="w-6 text-right text-[10px] font-black text-slate-300">{index + 1}</span>
+      <input
+        value={draft.last_name}
+        onChange={(e) => setDraft({ ...draft, last_name: e.target.value })}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={`${inputClass} uppercase w-1/2`}
+        placeholder="Nom"
+      />
+      <input
+        value={draft.first_name}
+        onChange={(e) => setDraft({ ...draft, first_name: e.target.value })}
+        onBlur={commit}
+        onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+        className={`${inputClass} w-1/2`}
+        placeholder="Prénom"
+      />
+      <button
+        onClick={onDelete}
+        className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
+        title="Retirer l'élève"
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  );
+};
+
+const ClassManager: React.FC<ClassManagerProps> = ({ onBack }) => {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [className, setClassName] = useState('');
+  const [schoolYear, setSchoolYear] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [lastName, setLastName] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [showImport, setShowImport] = useState(false);
+
+  const [deleteCandidate, setDeleteCandidate] = useState<{ type: 'class'; item: SchoolClass } | { type: 'student'; item: Student } | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadClasses();
+  }, []);
+
+  const loadClasses = async () => {
+    const data = await gradebookService.getClasses();
+    setClasses([...data]);
+    setSelectedId(prev => data.some(c => c.id === prev) ? prev : data[0]?.id || null);
+    setLoading(false);
+  };
+
+  const selectedClass = classes.find(c => c.id === selectedId) || null;
+
+  const handleSaveClass = async () => {
+    if (!className.trim()) return;
+    setErrorMsg(null);
+    const fields = { name: className.trim(), school_year: schoolYear.trim() };
+    try {
+      if (editingId) {
+        await gradebookService.updateClass(editingId, fields);
+        setEditingId(null);
+      } else {
+        const created = await gradebookService.addClass(fields);
+        setSelectedId(created.id);
+      }
+      setClassName('');
+      setSchoolYear('');
+      await loadClasses();
+    } catch (error) {
+      console.error("Error saving class:", error);
+      setErrorMsg("Une erreur est survenue lors de la sauvegarde de la classe.");
+    }
+  };
+
+  const startEdit = (cls: SchoolClass) => {
+    setErrorMsg(null);
+    setEditingId(cls.id);
+    setClassName(cls.name);
+    setSchoolYear(cls.school_year);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setClassName('');
+    setSchoolYear('');
+  };
+
+  const handleAddStudent = async () => {
+    if (!selectedClass || (!lastName.trim() && !firstName.trim())) return;
+    setErrorMsg(null);
+    try {
+      await gradebookService.addStudents(selectedClass.id, [{ last_name: lastName.trim(), first_name: firstName.trim() }]);
+      setLastName('');
+      setFirstName('');
+      await loadClasses();
+    } catch (error) {
+      console.error("Error adding student:", error);
+      setErrorMsg("Impossible d'ajouter l'élève.");
+    }
+  };
+
+  const handleImportStudents = async (students: NewStudent[]) => {
+    if (!selectedClass) return;
+    setErrorMsg(null);
+    try {
+      await gradebookService.addStudents(selectedClass.id, students);
+      setShowImport(false);
+      await loadClasses();
+    } catch (error) {
+      console.error("Error importing students:", error);
+      setShowImport(false);
+      setErrorMsg("L'import de la liste d'élèves a échoué.");
+    }
+  };
+
+  const handleUpdateStudent = async (student: Student) => {
+    try {
+      await gradebookService.updateStudent(student);
+      await loadClasses();
+    } catch (error) {
+      console.error("Error updating student:", error);
+      setErrorMsg("Impossible de modifier l'élève.");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteCandidate) return;
+    try {
+      if (deleteCandidate.type === 'class') {
+        await gradebookService.deleteClass(deleteCandidate.item.id);
+        if (editingId === deleteCandidate.item.id) cancelEdit();
+      } else {
+        await gradebookService.deleteStudent(deleteCandidate.item);
+      }
+      await loadClasses();
+    } catch (error) {
+      console.error("Error deleting:", error);
+      setErrorMsg("La suppression a échoué.");
+    }
+    setDeleteCandidate(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-10 gap-4">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Classes</h2>
+          <p className="text-slate-500 font-medium">Listes d'élèves utilisées pour la saisie des notes.</p>
+        </div>
+        <button onClick={onBack} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-xl font-bold transition-colors">
+          Retour
+        </button>
+      </div>
+
+      {errorMsg && (
+        <div className="mb-8 p-5 bg-rose-50 border border-rose-100 rounded-2xl flex items-center gap-4 text-rose-700 animate-fade-in">
+            <AlertTriangle size={24} />
+            <p className="font-semibold">{errorMsg}</p>
+            <button onClick={() => setErrorMsg(null)} className="ml-auto p-1.5 hover:bg-rose-100 rounded-lg transition-colors"><X size={18} /></button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-8 items-start">
+        <div className="space-y-4">
+          <div className={`p-6 rounded-[32px] border-2 transition-all ${editingId ? 'bg-indigo-50/50 border-indigo-200' : 'bg-white border-slate-100 shadow-sm'}`}>
+            <label className="block text-xs font-bold text-slate-400 uppercase tracking-widest mb-2 ml-1">
+              {editingId ? 'Modifier la classe' : 'Nouvelle classe'}
+            </label>
+            <input
+              type="text"
+              value={className}
+              onChange={(e) => setClassName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveClass(); }}
+              className="w-full border-2 border-slate-100 rounded-2xl p-3 mb-3 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none bg-white font-bold text-slate-800 transition-all"
+              placeholder="Ex: 5e B"
+            />
+            <input
+              type="text"
+              value={schoolYear}
+              onChange={(e) => setSchoolYear(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSaveClass(); }}
+              className="w-full border-2 border-slate-100 rounded-2xl p-3 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none bg-white font-bold text-slate-800 transition-all"
+              placeholder="Année scolaire (facultatif)"
+            />
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={handleSaveClass}
+                disabled={!className.trim()}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl font-black text-white shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed ${editingId ? 'bg-emerald-500 hover:bg-emerald-600 shadow-emerald-200' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'}`}
+              >
+                {editingId ? <Save size={18} /> : <Plus size={18} />}
+                {editingId ? 'Mettre à jour' : 'Ajouter la classe'}
+              </button>
+              {editingId && (
+                <button onClick={cancelEdit} className="bg-slate-200 text-slate-700 px-4 py-3 rounded-2xl font-black hover:bg-slate-300 transition-colors">
+                  Annuler
+                </button>
+              )}
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="py-10 text-center text-slate-400 font-bold">Chargement de vos classes...</div>
+          ) : classes.map(cls => (
+            <div
+              key={cls.id}
+              onClick={() => setSelectedId(cls.id)}
+              className={`group flex justify-between items-center p-4 rounded-[24px] border cursor-pointer transition-all ${cls.id === selectedId ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-100 hover:shadow-lg hover:shadow-slate-200/50'}`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-2xl bg-indigo-100 text-indigo-600 flex items-center justify-center">
+                  <Users size={18} />
+                </div>
+                <div>
+                  <div className="font-extrabold text-slate-800">{cls.name}</div>
+                  <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {cls.students.length} élève{cls.students.length > 1 ? 's' : ''}{cls.school_year && ` • ${cls.school_year}`}
+                  </div>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button onClick={(e) => { e.stopPropagation(); startEdit(cls); }} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); setDeleteCandidate({ type: 'class', item: cls }); }} className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+          {!loading && classes.length === 0 && (
+            <div className="py-10 text-center text-slate-300 italic">Créez votre première classe ci-dessus.</div>
+          )}
+        </div>
+
+        <div className="bg-white border border-slate-100 rounded-[32px] shadow-sm p-6 min-h-[320px]">
+          {selectedClass ? (
+            <>
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <h3 className="text-xl font-black text-slate-900">{selectedClass.name}</h3>
+                  <span className="px-2 py-0.5 bg-slate-100 text-slate-500 rounded-md text-[10px] font-bold uppercase tracking-widest">
+                    {selectedClass.students.length} élève{selectedClass.students.length > 1 ? 's' : ''}
+                  </span>
+                </div>
+                <button
+                  onClick={() => setShowImport(true)}
+                  className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all uppercase tracking-wider"
+                >
+                  <FileSpreadsheet size={16} /> Importer un CSV
+                </button>
+              </div>
+
+              <div className="flex gap-2 mb-4 p-2 bg-slate-50 rounded-2xl">
+                <input
+                  type="text"
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddStudent(); }}
+                  className="flex-1 min-w-0 p-2 bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-300 font-bold text-slate-700 uppercase text-sm"
+                  placeholder="Nom"
+                />
+                <input
+                  type="text"
+                  value={firstName}
+                  onChange={(e) => setFirstName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAddStudent(); }}
+                  className="flex-1 min-w-0 p-2 bg-white border border-slate-200 rounded-xl outline-none focus:border-indigo-300 font-bold text-slate-700 text-sm"
+                  placeholder="Prénom"
+                />
+                <button
+                  onClick={handleAddStudent}
+                  disabled={!lastName.trim() && !firstName.trim()}
+                  className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-bold transition-all text-xs uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <UserPlus size={16} /> Ajouter
+                </button>
+              </div>
+
+              <div className="space-y-0.5">
+                {selectedClass.students.map((student, i) => (
+                  <StudentRow
+                    key={student.id}
+                    student={student}
+                    index={i}
+                    onSave={handleUpdateStudent}
+                    onDelete={() => setDeleteCandidate({ type: 'student', item: student })}
+                  />
+                ))}
+                {selectedClass.students.length === 0 && (
+                  <p className="py-10 text-center text-slate-300 italic">Aucun élève dans cette classe pour le moment.</p>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="py-20 text-center text-slate-300 italic">Sélectionnez ou créez une classe.</p>
+          )}
+        </div>
+      </div>
+
+      {showImport && selectedClass && (
+        <RosterImportDialog
+          schoolClass={selectedClass}
+          onConfirm={handleImportStudents}
+          onCancel={() => setShowImport(false)}
+        />
+      )}
+
+      {deleteCandidate && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
+                <div className="w-20 h-20 bg-rose-50 text-rose-500 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <AlertTriangle size={40} />
+                </div>
+                <h3 className="text-2xl font-black text-slate-900 mb-3">Confirmation</h3>
+                <p className="text-slate-500 mb-10 font-medium leading-relaxed">
+                    {deleteCandidate.type === 'class'
+                      ? `Supprimer la classe ${deleteCandidate.item.name} ? Ses élèves et toutes leurs notes seront supprimés.`
+                      : `Retirer ${formatStudentName(deleteCandidate.item)} de la classe ? Ses notes seront supprimées.`}
+                </p>
+                <div className="flex gap-4">
+                    <button onClick={() => setDeleteCandidate(null)} className="flex-1 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+                        Annuler
+                    </button>
+                    <button onClick={confirmDelete} className="flex-1 py-4 bg-rose-600 text-white rounded-2xl font-bold hover:bg-rose-700 transition-colors">
+                        Confirmer
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClassManager;
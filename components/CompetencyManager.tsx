@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Competency } from '../types';
+import { Trash2, Plus, Save, Pencil, X, AlertTriangle, Target } from 'lucide-react';
+import { competencyService } from '../services/competencies';
+
+interface CompetencyManagerProps {
+  onBack: () => void;
+}
+
+const EMPTY_FORM = { code: '', label: '', domain: '' };
+
+const CompetencyManager: React.FC<CompetencyManagerProps> = ({ onBack }) => {
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [deleteCandidate, setDeleteCandidate] = useState<Competency | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCompetencies();
+  }, []);
+
+  const loadCompetencies = async () => {
+    const data = await competencyService.getCompetencies();
+    setCompetencies([...data]);
+    setLoading(false);
+  };
+
+  // Regroupement par domaine, dans l'ordre du référentiel ; les compétences sans domaine à la fin
+  const domains = Array.from(new Set(competencies.map(c => c.domain)))
+    .sort((a, b) => (a ? 0 : 1) - (b ? 0 : 1));
+
+  const handleSave = async () => {
+    if (!form.label.trim()) return;
+    setErrorMsg(null);
+    const fields = { code: form.code.trim(), label: form.label.trim(), domain: form.domain.trim() };
+
+    try {
+      if (editingId) {
+        await competencyService.updateCompetency({ id: editingId, ...fields });
+        setEditingId(null);
+      } else {
+        await competencyService.addCompetency(fields);
+      }
+      // Le domaine reste prérempli pour saisir les compétences suivantes du même domaine
+      setForm({ ...EMPTY_FORM, domain: fields.domain });
+      await loadCompetencies();
+    } catch (error) {
+      console.error("Error saving competency:", error);
+      setErrorMsg("Une erreur est survenue lors de la sauvegarde.");
+    }
+  };
+
+  const startEdit = (competency: Competency) => {
+    setErrorMsg(null);
+    setEditingId(competency.id);
+    setForm({ code: competency.code, label: competency.label, domain: competency.domain });
+  };
+
+  const cancelEdit = () => {
+    setErrorMsg(null);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteCandidate) return;
+    try {
+      await competencyService.deleteCompetency(deleteCandidate.id);
+      if (editingId === deleteCandidate.id) cancelEdit();
+      await loadCompetencies();
+    } catch (error) {
+      console.error("Error deleting competency:", error);
+      setErrorMsg("Impossible de supprimer cette compétence.");
+    }
+    setDeleteCandidate(null);
+  };
+
+  const inputClass = "w-full border-2 border-slate-100 rounded-2xl p-4 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 focus:outline-none bg-white font-bold text-slate-800 transition-all";
+  const labelClass = "block text-sm font-bold text-slate-400 uppercase tracking-widest mb-3 ml-1";
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-10 gap-4">
+        <div>
+          <h2 className="text-3xl font-black text-slate-900">Compétences</h2>
+          <p className="text-slate-500 font-medium">Votre référentiel, à associer aux questions pour évaluer par compétences.</p>
+        </div>
+        <button onClick={onBack} className="bg-slate-100 hover:bg-slate-200 text-slate-700 px-6 py-2 rounded-xl font-bold transition-colors">
+          Retour
+        </button>
+      </div>
+
+      {errorMsg && (
+        <div className="mb-8 p-5 bg-rose-50 border border-rose-100 rounded-2xl flex items-center gap-4 text-rose-700 animate-fade-in">
+            <AlertTriangle size={24} />
+            <p className="font-semibold">{errorMsg}</p>
+            <button onClick={() => setErrorMsg(null)} className="ml-auto p-1.5 hover:bg-rose-100 rounded-lg transition-colors"><X size={18} /></button>
+        </div>
+      )}
+
+      <div className={`p-8 rounded-[32px] border-2 transition-all mb-12 ${editingId ? 'bg-indigo-50/50 border-indigo-200' : 'bg-white border-slate-100 shadow-sm'}`}>
+        <div className="grid grid-cols-1 md:grid-cols-[140px_1fr] gap-6">
+          <div>
+            <label className={labelClass}>Code</label>
+            <input
+              type="text"
+              value={form.code}
+              onChange={(e) => setForm({ ...form, code: e.target.value })}
+              className={inputClass}
+              placeholder="Ex: D1.3"
+            />
+          </div>
+          <div>
+            <label className={labelClass}>{editingId ? 'Nouvel intitulé' : 'Intitulé de la compétence'}</label>
+            <input
+              type="text"
+              value={form.label}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              className={inputClass}
+              placeholder="Ex: Utiliser les langages mathématiques"
+            />
+          </div>
+          <div className="md:col-span-2">
+            <label className={labelClass}>Domaine (facultatif)</label>
+            <input
+              type="text"
+              list="competency-domains"
+              value={form.domain}
+              onChange={(e) => setForm({ ...form, domain: e.target.value })}
+              className={inputClass}
+              placeholder="Ex: D1 — Les langages pour penser et communiquer"
+            />
+            <datalist id="competency-domains">
+              {domains.filter(Boolean).map(domain => <option key={domain} value={domain} />)}
+            </datalist>
+          </div>
+        </div>
+
+        <div className="flex gap-4 mt-8 pt-6 border-t border-slate-100">
+          <button
+            onClick={handleSave}
+            disabled={!form.label.trim()}
+            className={`flex-1 flex items-center justify-center gap-2 py-4 rounded-2xl font-black text-white shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed ${editingId ? 'bg-emerald-500 hover:bg-emerald-600 shadow-emerald-200' : 'bg-indigo-600 hover:bg-indigo-700 shadow-indigo-200'}`}
+          >
+            {editingId ? <Save size={20} /> : <Plus size={20} />}
+            {editingId ? 'Mettre à jour la compétence' : 'Ajouter la compétence'}
+          </button>
+          {editingId && (
+            <button onClick={cancelEdit} className="bg-slate-200 text-slate-700 px-8 py-4 rounded-2xl font-black hover:bg-slate-300 transition-colors">
+              Annuler
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-20 text-center text-slate-400 font-bold">Chargement de votre référentiel...</div>
+      ) : domains.map(domain => (
+        <div key={domain || 'none'} className="mb-8">
+          <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3 ml-1">{domain || 'Sans domaine'}</h3>
+          <div className="space-y-2">
+            {competencies.filter(c => c.domain === domain).map(competency => (
+              <div key={competency.id} className="group flex justify-between items-center gap-4 p-4 bg-white border border-slate-100 rounded-[24px] hover:shadow-lg hover:shadow-slate-200/50 transition-all">
+                <div className="flex items-center gap-4 min-w-0">
+                  <div className="w-12 h-12 rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center flex-shrink-0 text-xs font-black">
+                    {competency.code || <Target size={20} />}
+                  </div>
+                  <span className="font-extrabold text-slate-800">{competency.label}</span>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0">
+                  <button onClick={() => startEdit(competency)} className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-xl transition-all">
+                    <Pencil size={18} />
+                  </button>
+                  <button onClick={() => setDeleteCandidate(competency)} className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-xl transition-all">
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+      {!loading && competencies.length === 0 && (
+        <div className="py-20 text-center text-slate-300 italic">Ajoutez votre première compétence ci-dessus.</div>
+      )}
+
+      {deleteCandidate && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
+                <div className="w-20 h-20 bg-rose-50 text-rose-500 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <AlertTriangle size={40} />
+                </div>
+                <h3 className="text-2xl font-black text-slate-900 mb-3">Confirmation</h3>
+                <p className="text-slate-500 mb-10 font-medium leading-relaxed">
+                    Supprimer la compétence « {deleteCandidate.label} » ? Elle ne sera plus évaluée par les questions qui y sont rattachées.
+                </p>
+                <div className="flex gap-4">
+                    <button onClick={() => setDeleteCandidate(null)} className="flex-1 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+                        Annuler
+                    </button>
+                    <button onClick={confirmDelete} className="flex-1 py-4 bg-rose-600 text-white rounded-2xl font-bold hover:bg-rose-700 transition-colors">
+                        Confirmer
+                    </button>
+                </div>
+            </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompetencyManager;
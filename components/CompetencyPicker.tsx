@@ -0,0 +1,57 @@
+import React from 'react';
+import { Competency } from '../types';
+import { Target, X } from 'lucide-react';
+
+interface CompetencyPickerProps {
+  competencies: Competency[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+}
+
+// Étiquettes des compétences évaluées par une question, choisies dans le référentiel
+const CompetencyPicker: React.FC<CompetencyPickerProps> = ({ competencies, selectedIds, onChange }) => {
+  const selected = competencies.filter(c => selectedIds.includes(c.id));
+  const available = competencies.filter(c => !selectedIds.includes(c.id));
+  const domains = Array.from(new Set(available.map(c => c.domain)));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1 mr-1">
+        <Target size={12} /> Compétences
+      </label>
+      {selected.map(c => (
+        <span key={c.id} className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-indigo-50 text-indigo-700 rounded-md text-[11px] font-bold" title={c.label}>
+          {c.code || c.label}
+          <button
+            onClick={() => onChange(selectedIds.filter(id => id !== c.id))}
+            className="p-0.5 text-indigo-300 hover:text-rose-500 rounded transition-colors"
+            title="Retirer la compétence"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...selectedIds, e.target.value])}
+          className="p-1 bg-white border border-dashed border-slate-200 rounded-md outline-none font-bold text-slate-400 text-[11px] max-w-[14rem] hover:border-indigo-300 transition-colors"
+        >
+          <option value="">+ Ajouter</option>
+          {domains.map(domain => (
+            <optgroup key={domain || 'none'} label={domain || 'Sans domaine'}>
+              {available.filter(c => c.domain === domain).map(c => (
+                <option key={c.id} value={c.id}>{c.code ? `${c.code} — ${c.label}` : c.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+      {competencies.length === 0 && (
+        <span className="text-[11px] text-slate-300 italic">Aucune compétence dans le référentiel</span>
+      )}
+    </div>
+  );
+};
+
+export default CompetencyPicker;
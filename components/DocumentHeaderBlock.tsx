@@ -0,0 +1,78 @@
+import React from 'react';
+import { DocumentHeader } from '../types';
+import { headerInfoLine } from '../services/documentHeader';
+
+interface DocumentHeaderBlockProps {
+  header: DocumentHeader;
+  title: string;
+  subtitle?: string | null;
+  color: string;
+  textColor: string;
+  noteTotal: string; // "20"
+  noteDetail?: string; // Rappel du barème sur le corrigé
+}
+
+const fieldLabelClass = "text-[10px] text-gray-500 uppercase font-bold";
+
+// Ligne pointillée à compléter par l'élève
+const BlankLine: React.FC = () => <span className="flex-1 border-b border-dotted border-black ml-1 min-w-[2cm]"></span>;
+
+// En-tête de la première page : mesuré par l'aperçu pour paginer, réutilisé tel quel dans le concepteur d'en-tête
+const DocumentHeaderBlock: React.FC<DocumentHeaderBlockProps> = ({ header, title, subtitle, color, textColor, noteTotal, noteDetail }) => {
+  const infoLine = headerInfoLine(header);
+
+  return (
+    <div>
+      <div className="min-h-[2cm] flex border-2 border-black mb-[0.3cm] overflow-hidden">
+        {(header.logo_url || header.school_name) && (
+          <div className="w-[22%] border-r-2 border-black flex flex-col justify-center items-center gap-1 p-2 text-center flex-shrink-0">
+            {header.logo_url && <img src={header.logo_url} alt="" className="h-[1.2cm] w-auto max-w-full object-contain" />}
+            {header.school_name && <span className="text-[10px] font-bold uppercase leading-tight">{header.school_name}</span>}
+          </div>
+        )}
+        <div className="flex-1 flex items-center justify-center text-center px-4 font-bold text-xl uppercase tracking-wider"
+          style={{ backgroundColor: color, color: textColor, printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}>
+          <div>
+            {title}
+            {subtitle && <div className="text-xs font-black tracking-[0.3em] mt-1 opacity-80">{subtitle}</div>}
+          </div>
+        </div>
+        <div className="w-[20%] border-l-2 border-black flex flex-col justify-center items-center p-2 flex-shrink-0">
+          <span className={fieldLabelClass}>Date</span>
+          {header.date ? <div className="font-bold text-sm text-center">{header.date}</div> : <div className="text-gray-300">..../..../....</div>}
+        </div>
+      </div>
+
+      {(header.show_student_name || header.class_name) && (
+        <div className="flex items-end gap-6 mb-[0.3cm] text-sm">
+          {header.show_student_name && (
+            <>
+              <span className="flex-1 flex items-end font-bold">Nom :<BlankLine /></span>
+              <span className="flex-1 flex items-end font-bold">Prénom :<BlankLine /></span>
+            </>
+          )}
+          <span className={`flex items-end font-bold ${header.show_student_name ? 'w-[25%]' : ''}`}>
+            Classe :{header.class_name ? <span className="ml-1 font-normal">{header.class_name}</span> : <BlankLine />}
+          </span>
+        </div>
+      )}
+
+      {infoLine && <div className="mb-[0.3cm] text-xs font-bold text-slate-700">{infoLine}</div>}
+
+      {header.instructions && (
+        <p className="mb-[0.3cm] text-sm italic text-slate-700 whitespace-pre-line">{header.instructions}</p>
+      )}
+
+      <div className="h-[3cm] flex border-2 border-black">
+        <div className="w-[80%] border-r-2 border-black p-2 relative"><span className={`${fieldLabelClass} absolute top-1 left-2`}>Commentaires</span></div>
+        <div className="w-[20%] p-2 relative flex flex-col justify-end items-center">
+          <span className={`${fieldLabelClass} absolute top-1 left-2`}>Note</span>
+          <div className="text-3xl font-black text-slate-800">/ {noteTotal}</div>
+          {noteDetail && <div className="text-[9px] font-bold text-slate-500 text-center leading-tight mt-1">{noteDetail}</div>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentHeaderBlock;
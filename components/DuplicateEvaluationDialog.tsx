@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Category, Evaluation } from '../types';
+import { X, Copy, Loader2, AlertTriangle } from 'lucide-react';
+
+interface DuplicateEvaluationDialogProps {
+  evaluation: Evaluation;
+  categories: Category[];
+  onConfirm: (fields: Pick<Evaluation, 'title' | 'category_id'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const DuplicateEvaluationDialog: React.FC<DuplicateEvaluationDialogProps> = ({ evaluation, categories, onConfirm, onCancel }) => {
+  const [title, setTitle] = useState(`${evaluation.title} (copie)`);
+  const [categoryId, setCategoryId] = useState(
+    categories.some(c => c.id === evaluation.category_id) ? evaluation.category_id : categories[0]?.id || ''
+  );
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm";
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setErrorMsg(null);
+    try {
+      await onConfirm({ title: title.trim(), category_id: categoryId });
+    } catch (error) {
+      console.error("Error duplicating evaluation:", error);
+      setErrorMsg("La copie n'a pas pu être enregistrée. Réessayez.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-8 animate-fade-in relative">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Copy size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Dupliquer</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">
+          Les {evaluation.questions.length} question(s) sont copiées ; l'original n'est pas modifié.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Titre de la copie</label>
+            <input className={inputClass} value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+          </div>
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Matière</label>
+            <select className={inputClass} value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+        </div>
+
+        {errorMsg && (
+          <p className="mt-4 flex items-center gap-2 text-sm font-bold text-rose-600"><AlertTriangle size={16} /> {errorMsg}</p>
+        )}
+
+        <div className="flex gap-4 mt-8">
+          <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={saving || !title.trim() || !categoryId}
+            className="flex-1 flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            {saving && <Loader2 size={18} className="animate-spin" />} Dupliquer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateEvaluationDialog;
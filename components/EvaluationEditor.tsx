@@ -1,19 +1,52 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Category, Evaluation, Question } from '../types';
-import { dataService } from '../services/supabaseClient';
+import { BankItem, Category, Competency, DocumentHeaderOverrides, Evaluation, EvaluationVersion, GradingScale, NumberingSettings, NumberingStyle, Question, QuestionType, ScaleRounding, VariantSettings } from '../types';
+import { dataService, EvaluationConflictError } from '../services/supabaseClient';
+import { QUESTION_TYPE_LABELS, createQuestion, normalizeQuestion, validateAnswerKey } from '../services/questionTypes';
+import { bankService, instantiateBankItem } from '../services/questionBank';
+import { DEFAULT_VARIANT_SETTINGS, MAX_VARIANTS, randomSeed } from '../services/variants';
+import { EvaluationDraft, NEW_DRAFT_KEY, draftService, serializeEvaluation } from '../services/drafts';
+import { moveQuestion, moveSection, shiftQuestion, shiftSection } from '../services/questionOrder';
+import { competencyService, getEvaluationCompetencies } from '../services/competencies';
+import { headerService, resolveDocumentHeader } from '../services/documentHeader';
+import { SCALE_ROUNDING_LABELS, describeGradingScale, formatPoints, getGradingScale, getScaleTotal } from '../services/gradingScale';
+import { DEFAULT_NUMBERING, NUMBERING_STYLE_LABELS, appendQuestion, createSection, ensureSections, getBonusPoints, getQuestionNumbers, getSectionPoints, groupQuestionsBySection, removeSection, updateSection } from '../services/sections';
 import RichTextEditor from './RichTextEditor';
-import { Plus, Trash2, ArrowLeft, GripVertical, FileText, CheckCircle, AlertCircle, X, Sparkles, Layout, Layers, Calculator, Save, ChevronDown, ChevronRight, ChevronsDown, ChevronsUp } from 'lucide-react';
+import AnswerKeyEditor from './AnswerKeyEditor';
+import CompetencyPicker from './CompetencyPicker';
+import QuestionBankPanel from './QuestionBankPanel';
+import SaveToBankDialog from './SaveToBankDialog';
+import TextImportDialog from './TextImportDialog';
+import LmsExportDialog from './LmsExportDialog';
+import VersionHistoryPanel from './VersionHistoryPanel';
+import HeaderDesignerDialog from './HeaderDesignerDialog';
+import { Plus, Trash2, ArrowLeft, GripVertical, FileText, CheckCircle, AlertCircle, X, Sparkles, Layout, Layers, Calculator, Save, ChevronDown, ChevronRight, ChevronsDown, ChevronsUp, ListChecks, Library, BookmarkPlus, Shuffle, ClipboardPaste, Share2, AlertTriangle, RefreshCw, Loader2, History, ArrowUp, ArrowDown, Clock, ListOrdered, Target, Scale, PanelTop } from 'lucide-react';
 
 interface EvaluationEditorProps {
   evaluationId?: string | null;
+  initialEvaluation?: Evaluation | null; // Nouvelle évaluation pré-remplie (modèle)
   onClose: () => void;
   onPreview: (evaluation: Evaluation) => void;
 }
 
-const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClose, onPreview }) => {
+// Délai sans frappe avant l'enregistrement automatique
+const AUTOSAVE_DELAY = 2000;
+
+type DragItem = { kind: 'question' | 'section'; id: string };
+type DropTarget = { kind: 'question' | 'section'; id: string; position: 'before' | 'after' };
+
+// Évaluation chargée (base, brouillon, version) : questions complétées et sections garanties
+const normalizeEvaluation = (raw: Evaluation): Evaluation =>
+  ensureSections({ ...raw, questions: raw.questions.map(normalizeQuestion) });
+
+// Champ numérique facultatif : vide = pas de valeur
+const parseOptionalNumber = (value: string) => value === '' ? null : Math.max(0, parseFloat(value));
+
+const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, initialEvaluation, onClose, onPreview }) => {
   const [categories, setCategories] = useState<Category[]>([]);
-  const [evaluation, setEvaluation] = useState<Evaluation>({
+  const [competencies, setCompetencies] = useState<Competency[]>([]);
+  const [headerDefaults, setHeaderDefaults] = useState<DocumentHeaderOverrides>({});
+  const [evaluation, setEvaluation] = useState<Evaluation>(initialEvaluation || {
     id: evaluationId || crypto.randomUUID(),
     title: '',
     category_id: '',
@@ -22,38 +55,107 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
   const [loading, setLoading] = useState(true);
   const [notification, setNotification] = useState<{type: 'success'|'error', message: string} | null>(null);
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [showBank, setShowBank] = useState(false);
+  const [bankCandidateIndex, setBankCandidateIndex] = useState<number | null>(null);
+  const [showTextImport, setShowTextImport] = useState(false);
+  const [showLmsExport, setShowLmsExport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showHeaderDesigner, setShowHeaderDesigner] = useState(false);
+  const [saveConflict, setSaveConflict] = useState<EvaluationConflictError | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isNew, setIsNew] = useState(!evaluationId);
+  // Après un conflit, on attend une décision de l'enseignant avant de réessayer
+  const [autosavePaused, setAutosavePaused] = useState(false);
+  const [pendingDraft, setPendingDraft] = useState<EvaluationDraft | null>(null);
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  // Dernier contenu connu du serveur, pour savoir s'il reste des modifications à enregistrer
+  const lastSavedRef = useRef('');
+  const savingRef = useRef(false);
+  // Une évaluation créée depuis un modèle a son propre brouillon : celui d'une autre nouvelle évaluation
+  // ne lui est pas proposé et ne risque pas de remplacer le contenu du modèle
+  const draftKeyRef = useRef(evaluationId || initialEvaluation?.id || NEW_DRAFT_KEY);
+  // Contenu du modèle tel qu'ouvert : non enregistré, mais pas envoyé au serveur tant qu'il n'est pas modifié
+  const templateSeedRef = useRef<string | null>(null);
+  // Poignées de déplacement, pour garder le focus clavier sur l'élément déplacé
+  const handleRefs = useRef(new Map<string, HTMLElement>());
+  const pendingFocusRef = useRef<string | null>(null);
 
   // Refs pour les textareas auto-extensibles
   const textareaRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
 
   useEffect(() => {
     const init = async () => {
-      const cats = await dataService.getCategories();
+      const [cats, loadedCompetencies, loadedHeader] = await Promise.all([
+        dataService.getCategories(),
+        competencyService.getCompetencies(),
+        headerService.getDefaults()
+      ]);
       setCategories(cats);
+      setCompetencies(loadedCompetencies);
+      setHeaderDefaults(loadedHeader);
       
+      let loaded = evaluation;
       if (evaluationId) {
         const allEvals = await dataService.getEvaluations();
         const found = allEvals.find(e => e.id === evaluationId);
         if (found) {
-          // Assurer la rétrocompatibilité si 'points' n'existe pas
-          const safeEval = JSON.parse(JSON.stringify(found));
-          safeEval.questions = safeEval.questions.map((q: any) => ({
-             ...q,
-             points: q.points ?? 2
-          }));
-          setEvaluation(safeEval);
+          // Assurer la rétrocompatibilité si 'points' ou les champs de type n'existent pas
+          loaded = normalizeEvaluation(JSON.parse(JSON.stringify(found)));
           // Par défaut, on étend toutes les questions au chargement
-          setExpandedIds(new Set(safeEval.questions.map((q: any) => q.id)));
+          setExpandedIds(new Set(loaded.questions.map(q => q.id)));
         }
-      } else if (cats.length > 0) {
-        const newEval = { ...evaluation, category_id: cats[0].id };
-        setEvaluation(newEval);
+      } else if (cats.length > 0 && !cats.some(c => c.id === evaluation.category_id)) {
+        loaded = { ...evaluation, category_id: cats[0].id };
+      }
+      loaded = ensureSections(loaded);
+      if (!evaluationId) setExpandedIds(new Set(loaded.questions.map(q => q.id)));
+      setEvaluation(loaded);
+      if (initialEvaluation && !evaluationId) {
+        // Rien n'est encore enregistré : quitter demande confirmation
+        templateSeedRef.current = serializeEvaluation(loaded);
+        lastSavedRef.current = '';
+      } else {
+        lastSavedRef.current = serializeEvaluation(loaded);
+      }
+
+      // Brouillon laissé par une session interrompue (onglet fermé, serveur injoignable...)
+      const draft = draftService.get(draftKeyRef.current);
+      if (draft && serializeEvaluation(draft.evaluation) !== serializeEvaluation(loaded)) {
+        setPendingDraft(draft);
       }
       setLoading(false);
     };
     init();
   }, [evaluationId]);
 
+  const isDirty = !loading && serializeEvaluation(evaluation) !== lastSavedRef.current;
+
+  // Brouillon local à chaque modification, enregistrement serveur après une pause
+  useEffect(() => {
+    if (loading || pendingDraft) return;
+    if (!isDirty) {
+      draftService.remove(draftKeyRef.current);
+      return;
+    }
+    draftService.save(draftKeyRef.current, evaluation);
+    if (autosavePaused || validateEvaluation() || serializeEvaluation(evaluation) === templateSeedRef.current) return;
+    const timer = setTimeout(() => persistEvaluation({ silent: true }), AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [evaluation, loading, pendingDraft, autosavePaused]);
+
+  useEffect(() => {
+    if (!isDirty) return;
+    const warnBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [isDirty]);
+
   useEffect(() => {
     if (notification) {
       const timer = setTimeout(() => setNotification(null), 3000);
@@ -67,29 +169,60 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
     el.style.height = `${el.scrollHeight}px`;
   };
 
-  const addQuestion = () => {
-    // Récupérer la section de la dernière question pour l'héritage
-    const lastQuestion = evaluation.questions[evaluation.questions.length - 1];
-    const inheritedSection = lastQuestion ? lastQuestion.section_name : 'Exercice 1';
+  // Sans section précisée, la question rejoint la dernière section
+  const addQuestion = (sectionId?: string) => {
     const newId = crypto.randomUUID();
 
-    const newQ: Question = {
+    const newQ = createQuestion({
       id: newId,
-      section_name: inheritedSection,
-      question_text: '',
-      teacher_answer: '',
-      student_prompt: null,
       order_index: evaluation.questions.length,
       points: 2 // Défaut 2 points
-    };
-    setEvaluation(prev => ({ ...prev, questions: [...prev.questions, newQ] }));
+    });
+    setEvaluation(prev => appendQuestion(prev, newQ, sectionId));
     // Étendre automatiquement la nouvelle question
     setExpandedIds(prev => new Set(prev).add(newId));
     
     // Scroll fluide vers le bas après ajout (petit délai pour laisser le rendu se faire)
-    setTimeout(() => {
-       window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
-    }, 100);
+    if (!sectionId) {
+      setTimeout(() => {
+         window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' });
+      }, 100);
+    }
+  };
+
+  const addSection = () => {
+    const count = evaluation.sections?.length || 0;
+    const section = createSection({ title: `Exercice ${count + 1}`, order_index: count });
+    pendingFocusRef.current = `t:${section.id}`;
+    setEvaluation(prev => ensureSections({ ...prev, sections: [...(prev.sections || []), section] }));
+  };
+
+  const insertFromBank = (item: BankItem) => {
+    const newQ = instantiateBankItem(item, { order_index: evaluation.questions.length });
+    setEvaluation(prev => appendQuestion(prev, newQ));
+    setExpandedIds(prev => new Set(prev).add(newQ.id));
+    setNotification({ type: 'success', message: "Question insérée depuis la banque." });
+  };
+
+  const appendImportedQuestions = (imported: Question[]) => {
+    const newQuestions = imported.map((q, i) => ({ ...q, order_index: evaluation.questions.length + i }));
+    // Les questions importées rejoignent la section de même titre, ou en créent une
+    setEvaluation(prev => ensureSections({ ...prev, questions: [...prev.questions, ...newQuestions] }));
+    setExpandedIds(prev => new Set([...prev, ...newQuestions.map(q => q.id)]));
+    setShowTextImport(false);
+    setNotification({ type: 'success', message: `${newQuestions.length} question(s) importée(s).` });
+  };
+
+  const saveToBank = async (tags: Pick<BankItem, 'category_id' | 'level' | 'theme' | 'is_shared'>) => {
+    if (bankCandidateIndex === null) return;
+    try {
+      const item = await bankService.addItem(evaluation.questions[bankCandidateIndex], tags);
+      updateQuestion(bankCandidateIndex, 'bank_item_id', item.id);
+      setNotification({ type: 'success', message: "Question ajoutée à la banque." });
+    } catch (e) {
+      setNotification({ type: 'error', message: "Erreur lors de l'ajout à la banque." });
+    }
+    setBankCandidateIndex(null);
   };
 
   const updateQuestion = (index: number, field: keyof Question, value: any) => {
@@ -98,9 +231,144 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
     setEvaluation(prev => ({ ...prev, questions: updated }));
   };
 
+  const updateQuestionFields = (index: number, changes: Partial<Question>) => {
+    const updated = [...evaluation.questions];
+    updated[index] = { ...updated[index], ...changes };
+    setEvaluation(prev => ({ ...prev, questions: updated }));
+  };
+
+  const changeQuestionType = (index: number, type: QuestionType) => {
+    const q = evaluation.questions[index];
+    // Chaque type démarre avec des lignes vides prêtes à être remplies
+    const changes: Partial<Question> = { question_type: type };
+    if (type === 'qcm' && q.options.length === 0) {
+      changes.options = [1, 2].map(() => ({ id: crypto.randomUUID(), text: '', is_correct: false }));
+    }
+    if (type === 'true_false' && q.statements.length === 0) {
+      changes.statements = [{ id: crypto.randomUUID(), text: '', is_true: true }];
+    }
+    if (type === 'matching' && q.pairs.length === 0) {
+      changes.pairs = [1, 2].map(() => ({ id: crypto.randomUUID(), left: '', right: '' }));
+    }
+    updateQuestionFields(index, changes);
+  };
+
   const removeQuestion = (index: number) => {
     const updated = evaluation.questions.filter((_, i) => i !== index);
-    setEvaluation(prev => ({ ...prev, questions: updated }));
+    setEvaluation(prev => ensureSections({ ...prev, questions: updated }));
+  };
+
+  // --- Réorganisation (glisser-déposer et clavier) ---
+
+  const reorderEvaluation = (reorder: (evaluation: Evaluation) => Evaluation, focusKey?: string) => {
+    if (focusKey) pendingFocusRef.current = focusKey;
+    setEvaluation(prev => reorder(prev));
+  };
+
+  useEffect(() => {
+    if (!pendingFocusRef.current) return;
+    handleRefs.current.get(pendingFocusRef.current)?.focus();
+    pendingFocusRef.current = null;
+  });
+
+  const registerHandle = (key: string) => (el: HTMLElement | null) => {
+    if (el) handleRefs.current.set(key, el);
+    else handleRefs.current.delete(key);
+  };
+
+  const handleMoveKey = (e: React.KeyboardEvent, item: DragItem) => {
+    if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+    e.preventDefault();
+    const delta = e.key === 'ArrowUp' ? -1 : 1;
+    if (item.kind === 'question') {
+      reorderEvaluation(prev => shiftQuestion(prev, item.id, delta), `q:${item.id}`);
+    } else {
+      reorderEvaluation(prev => shiftSection(prev, item.id, delta), `s:${item.id}`);
+    }
+  };
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', item.id);
+    // Fantôme de glissement : la carte ou la section entière, pas seulement la poignée
+    const block = (e.currentTarget as HTMLElement).closest('[data-drag-block]');
+    if (block) e.dataTransfer.setDragImage(block, 24, 16);
+    setDragItem(item);
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const dropPosition = (e: React.DragEvent): 'before' | 'after' => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+  };
+
+  const dropTargetKey = (target: DropTarget | null) =>
+    target ? `${target.kind}:${target.id}:${target.position}` : '';
+
+  // dragover se déclenche en continu : on ne met à jour l'état que si la cible change
+  const updateDropTarget = (target: DropTarget) => {
+    setDropTarget(prev => dropTargetKey(prev) === dropTargetKey(target) ? prev : target);
+  };
+
+  const handleQuestionDragOver = (e: React.DragEvent, questionId: string) => {
+    if (dragItem?.kind !== 'question') return;
+    e.preventDefault();
+    e.stopPropagation();
+    updateDropTarget({ kind: 'question', id: questionId, position: dropPosition(e) });
+  };
+
+  const handleSectionDragOver = (e: React.DragEvent, sectionId: string) => {
+    if (!dragItem) return;
+    e.preventDefault();
+    // Une question déposée sur l'en-tête de section va en tête de cette section
+    updateDropTarget({ kind: 'section', id: sectionId, position: dragItem.kind === 'section' ? dropPosition(e) : 'before' });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const item = dragItem;
+    const target = dropTarget;
+    endDrag();
+    if (!item || !target) return;
+
+    if (item.kind === 'question' && target.kind === 'question') {
+      if (item.id === target.id) return;
+      reorderEvaluation(prev => {
+        const targetQuestion = prev.questions.find(q => q.id === target.id)!;
+        const rest = prev.questions.filter(q => q.section_id === targetQuestion.section_id && q.id !== item.id);
+        const index = rest.findIndex(q => q.id === target.id) + (target.position === 'after' ? 1 : 0);
+        return moveQuestion(prev, item.id, targetQuestion.section_id!, index);
+      });
+    } else if (item.kind === 'question' && target.kind === 'section') {
+      reorderEvaluation(prev => moveQuestion(prev, item.id, target.id, 0));
+    } else if (item.kind === 'section' && target.kind === 'section' && item.id !== target.id) {
+      reorderEvaluation(prev => {
+        const others = (prev.sections || []).filter(s => s.id !== item.id);
+        const index = others.findIndex(s => s.id === target.id) + (target.position === 'after' ? 1 : 0);
+        return moveSection(prev, item.id, index);
+      });
+    }
+  };
+
+  const updateNumbering = (changes: Partial<NumberingSettings>) => {
+    setEvaluation(prev => ({ ...prev, numbering: { ...DEFAULT_NUMBERING, ...prev.numbering, ...changes } }));
+  };
+
+  const updateGradingScale = (changes: Partial<GradingScale>) => {
+    setEvaluation(prev => ({ ...prev, grading_scale: { ...getGradingScale(prev), ...changes } }));
+  };
+
+  const updateVariantSettings = (changes: Partial<VariantSettings>) => {
+    setEvaluation(prev => ({
+      ...prev,
+      variant_settings: { ...DEFAULT_VARIANT_SETTINGS, seed: randomSeed(), ...prev.variant_settings, ...changes }
+    }));
   };
 
   const toggleExpand = (id: string) => {
@@ -120,22 +388,130 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
     }
   };
 
-  const handleSave = async () => {
+  // Retourne le message bloquant l'enregistrement, ou null si l'évaluation est enregistrable
+  const validateEvaluation = (): string | null => {
     if (!evaluation.title || !evaluation.category_id) {
-      setNotification({ type: 'error', message: "Veuillez remplir le titre et choisir une matière." });
+      return "Veuillez remplir le titre et choisir une matière.";
+    }
+    for (let i = 0; i < evaluation.questions.length; i++) {
+      const answerKeyError = validateAnswerKey(evaluation.questions[i]);
+      if (answerKeyError) return `Question ${i + 1} : ${answerKeyError}`;
+    }
+    return null;
+  };
+
+  const handleSave = async () => {
+    const validationError = validateEvaluation();
+    if (validationError) {
+      setNotification({ type: 'error', message: validationError });
       return;
     }
+    await persistEvaluation();
+  };
+
+  // L'autosauvegarde est silencieuse : en cas d'échec, le brouillon local prend le relais
+  const persistEvaluation = async ({ force = false, silent = false } = {}): Promise<boolean> => {
+    if (savingRef.current) return false;
+    savingRef.current = true;
+    setIsSaving(true);
+    const snapshot = evaluation;
     try {
-      await dataService.saveEvaluation(evaluation);
-      setNotification({ type: 'success', message: "Sauvegardé avec succès !" });
+      const saved = await dataService.saveEvaluation(snapshot, { force });
+      lastSavedRef.current = serializeEvaluation(snapshot);
+      templateSeedRef.current = null;
+      if (draftKeyRef.current === NEW_DRAFT_KEY) {
+        draftService.remove(NEW_DRAFT_KEY);
+        draftKeyRef.current = snapshot.id;
+      }
+      // Seule la version change : les modifications faites pendant l'enregistrement sont conservées
+      setEvaluation(prev => ({ ...prev, updated_at: saved.updated_at }));
+      setIsNew(false);
+      setSaveConflict(null);
+      setAutosavePaused(false);
+      if (!silent) setNotification({ type: 'success', message: "Sauvegardé avec succès !" });
+      return true;
     } catch (e) {
-      setNotification({ type: 'error', message: "Erreur lors de la sauvegarde." });
+      if (e instanceof EvaluationConflictError) {
+        setSaveConflict(e);
+        setAutosavePaused(true);
+      } else if (!silent) {
+        setNotification({ type: 'error', message: "Erreur lors de la sauvegarde." });
+      }
+      return false;
+    } finally {
+      savingRef.current = false;
+      setIsSaving(false);
+    }
+  };
+
+  // Abandonne les modifications locales au profit de la version enregistrée
+  const reloadSavedVersion = async () => {
+    const allEvals = await dataService.getEvaluations();
+    const found = allEvals.find(e => e.id === evaluation.id);
+    if (found) {
+      const safeEval = normalizeEvaluation(JSON.parse(JSON.stringify(found)));
+      lastSavedRef.current = serializeEvaluation(safeEval);
+      setEvaluation(safeEval);
+      setNotification({ type: 'success', message: "Version enregistrée rechargée." });
+    }
+    setSaveConflict(null);
+    setAutosavePaused(false);
+  };
+
+  const restoreDraft = () => {
+    if (!pendingDraft) return;
+    const restored = normalizeEvaluation(JSON.parse(JSON.stringify(pendingDraft.evaluation)));
+    setEvaluation(restored);
+    setExpandedIds(new Set(restored.questions.map(q => q.id)));
+    setPendingDraft(null);
+  };
+
+  // La version restaurée devient l'état courant : l'autosauvegarde l'enregistre comme nouvelle version
+  const restoreVersion = (version: EvaluationVersion) => {
+    const restored = normalizeEvaluation(JSON.parse(JSON.stringify(version.snapshot)));
+    setEvaluation(prev => ({ ...restored, id: prev.id, updated_at: prev.updated_at }));
+    setExpandedIds(new Set(restored.questions.map(q => q.id)));
+    setShowHistory(false);
+    setNotification({ type: 'success', message: `Version du ${new Date(version.created_at).toLocaleString('fr-FR')} restaurée.` });
+  };
+
+  const discardDraft = () => {
+    draftService.remove(draftKeyRef.current);
+    setPendingDraft(null);
+  };
+
+  const handleClose = () => {
+    if (isDirty) setConfirmClose(true);
+    else onClose();
+  };
+
+  const saveAndClose = async () => {
+    setConfirmClose(false);
+    const validationError = validateEvaluation();
+    if (validationError) {
+      setNotification({ type: 'error', message: validationError });
+      return;
     }
+    if (await persistEvaluation()) onClose();
+  };
+
+  const discardAndClose = () => {
+    draftService.remove(draftKeyRef.current);
+    onClose();
   };
 
   if (loading) return <div className="p-20 text-center font-bold text-slate-400">Ouverture de l'éditeur...</div>;
 
   const currentCategory = categories.find(c => c.id === evaluation.category_id);
+  const variantSettings = evaluation.variant_settings || DEFAULT_VARIANT_SETTINGS;
+  const numbering = evaluation.numbering || DEFAULT_NUMBERING;
+  const sectionGroups = groupQuestionsBySection(evaluation);
+  const gradingScale = getGradingScale(evaluation);
+  const maxTotal = sectionGroups.reduce((acc, group) => acc + getSectionPoints(group.section, group.questions), 0);
+  const totalBonus = getBonusPoints(evaluation.questions);
+  const questionNumbers = getQuestionNumbers(evaluation);
+  const evaluatedCompetencies = getEvaluationCompetencies(evaluation, competencies);
+  const customHeaderFields = Object.keys(evaluation.header || {}).length;
 
   return (
     <div className="max-w-6xl mx-auto p-4 md:p-6 pb-32 animate-fade-in">
@@ -148,20 +524,185 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
         </div>
       )}
 
+      {showBank && (
+        <QuestionBankPanel
+          categories={categories}
+          defaultCategoryId={evaluation.category_id}
+          onInsert={insertFromBank}
+          onClose={() => setShowBank(false)}
+        />
+      )}
+
+      {showTextImport && (
+        <TextImportDialog
+          defaultSection={sectionGroups[sectionGroups.length - 1]?.section.title || 'Exercice 1'}
+          onConfirm={appendImportedQuestions}
+          onCancel={() => setShowTextImport(false)}
+        />
+      )}
+
+      {showLmsExport && (
+        <LmsExportDialog evaluation={evaluation} onClose={() => setShowLmsExport(false)} />
+      )}
+
+      {showHeaderDesigner && (
+        <HeaderDesignerDialog
+          title="En-tête de l'évaluation"
+          description="Les champs non personnalisés reprennent l'en-tête de la matière, ou l'en-tête par défaut."
+          value={evaluation.header || {}}
+          inherited={resolveDocumentHeader(headerDefaults, currentCategory?.header)}
+          inheritedFrom={currentCategory ? 'la matière' : "l'en-tête par défaut"}
+          previewTitle={evaluation.title || undefined}
+          previewColor={currentCategory?.color}
+          onSave={async (header) => {
+            setEvaluation(prev => ({ ...prev, header: Object.keys(header).length ? header : null }));
+            setShowHeaderDesigner(false);
+          }}
+          onCancel={() => setShowHeaderDesigner(false)}
+        />
+      )}
+
+      {showHistory && (
+        <VersionHistoryPanel evaluation={evaluation} onRestore={restoreVersion} onClose={() => setShowHistory(false)} />
+      )}
+
+      {saveConflict && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
+            <div className="w-20 h-20 bg-amber-50 text-amber-500 rounded-full flex items-center justify-center mx-auto mb-6">
+              <AlertTriangle size={40} />
+            </div>
+            <h3 className="text-2xl font-black text-slate-900 mb-3">Conflit d'enregistrement</h3>
+            <p className="text-slate-500 mb-8 font-medium leading-relaxed">
+              {saveConflict.message}
+              {saveConflict.kind === 'modified' && " Rechargez la version enregistrée ou remplacez-la par la vôtre."}
+            </p>
+            <div className="flex flex-col gap-3">
+              {saveConflict.kind === 'modified' && (
+                <button onClick={reloadSavedVersion} className="flex items-center justify-center gap-2 py-3 bg-slate-100 text-slate-700 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+                  <RefreshCw size={18} /> Recharger la version enregistrée
+                </button>
+              )}
+              {(saveConflict.kind === 'modified' || saveConflict.kind === 'deleted') && (
+                <button onClick={() => persistEvaluation({ force: true })} className="py-3 bg-amber-500 text-white rounded-2xl font-bold hover:bg-amber-600 transition-colors">
+                  {saveConflict.kind === 'deleted' ? "Recréer l'évaluation" : 'Remplacer par ma version'}
+                </button>
+              )}
+              <button onClick={() => setSaveConflict(null)} className="py-3 text-slate-400 rounded-2xl font-bold hover:bg-slate-50 transition-colors">
+                Annuler
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingDraft && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
+            <div className="w-20 h-20 bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center mx-auto mb-6">
+              <History size={40} />
+            </div>
+            <h3 className="text-2xl font-black text-slate-900 mb-3">Brouillon retrouvé</h3>
+            <p className="text-slate-500 mb-8 font-medium leading-relaxed">
+              Des modifications non enregistrées du {new Date(pendingDraft.saved_at).toLocaleString('fr-FR')} ont été conservées sur cet appareil.
+            </p>
+            <div className="flex gap-4">
+              <button onClick={discardDraft} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+                Ignorer
+              </button>
+              <button onClick={restoreDraft} className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors">
+                Restaurer
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {confirmClose && (
+        <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+          <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-10 animate-fade-in text-center">
+            <div className="w-20 h-20 bg-amber-50 text-amber-500 rounded-full flex items-center justify-center mx-auto mb-6">
+              <AlertTriangle size={40} />
+            </div>
+            <h3 className="text-2xl font-black text-slate-900 mb-3">Modifications non enregistrées</h3>
+            <p className="text-slate-500 mb-8 font-medium leading-relaxed">
+              Quitter l'éditeur maintenant ferait perdre les dernières modifications.
+            </p>
+            <div className="flex flex-col gap-3">
+              <button onClick={saveAndClose} className="py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors">
+                Enregistrer et quitter
+              </button>
+              <button onClick={discardAndClose} className="py-3 bg-rose-50 text-rose-600 rounded-2xl font-bold hover:bg-rose-100 transition-colors">
+                Quitter sans enregistrer
+              </button>
+              <button onClick={() => setConfirmClose(false)} className="py-3 text-slate-400 rounded-2xl font-bold hover:bg-slate-50 transition-colors">
+                Rester dans l'éditeur
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {bankCandidateIndex !== null && (
+        <SaveToBankDialog
+          question={evaluation.questions[bankCandidateIndex]}
+          categories={categories}
+          defaultCategoryId={evaluation.category_id}
+          onConfirm={saveToBank}
+          onCancel={() => setBankCandidateIndex(null)}
+        />
+      )}
+
       {/* Interface Header */}
       <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6 sticky top-0 z-30 bg-[#fcfdff]/90 backdrop-blur-sm py-2">
         <div className="flex items-center gap-4">
-          <button onClick={onClose} className="p-2 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl shadow-sm transition-all text-slate-600">
+          <button onClick={handleClose} className="p-2 bg-white border border-slate-200 hover:bg-slate-50 rounded-xl shadow-sm transition-all text-slate-600">
             <ArrowLeft size={20} />
           </button>
           <div>
             <h2 className="text-xl font-black text-slate-900 leading-none">
               {evaluationId ? 'Modifier' : 'Nouveau'}
             </h2>
-            <p className="text-xs text-slate-400 font-bold mt-1">Éditeur d'évaluation</p>
+            <p className="text-xs text-slate-400 font-bold mt-1 flex items-center gap-2">
+              Éditeur d'évaluation
+              {isSaving ? (
+                <span className="flex items-center gap-1 text-indigo-500"><Loader2 size={12} className="animate-spin" /> Enregistrement…</span>
+              ) : isDirty ? (
+                <span className="flex items-center gap-1 text-amber-500" title="Conservé sur cet appareil en attendant l'enregistrement">
+                  <span className="w-1.5 h-1.5 rounded-full bg-amber-400"></span> Modifié
+                </span>
+              ) : !isNew && (
+                <span className="flex items-center gap-1 text-emerald-500"><CheckCircle size={12} /> Enregistré</span>
+              )}
+            </p>
           </div>
         </div>
         <div className="flex gap-2">
+          <button 
+            onClick={() => setShowBank(!showBank)}
+            className={`flex items-center justify-center gap-2 px-4 py-2 border rounded-lg font-bold transition-all shadow-sm text-xs uppercase tracking-wider ${showBank ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}`}
+          >
+            <Library size={16} className="text-indigo-500" /> Banque
+          </button>
+          <button 
+            onClick={() => setShowTextImport(true)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-white text-slate-700 border border-slate-200 rounded-lg hover:bg-slate-50 font-bold transition-all shadow-sm text-xs uppercase tracking-wider"
+          >
+            <ClipboardPaste size={16} className="text-indigo-500" /> Importer
+          </button>
+          <button 
+            onClick={() => setShowLmsExport(true)}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-white text-slate-700 border border-slate-200 rounded-lg hover:bg-slate-50 font-bold transition-all shadow-sm text-xs uppercase tracking-wider"
+          >
+            <Share2 size={16} className="text-indigo-500" /> Moodle / QTI
+          </button>
+          <button 
+            onClick={() => setShowHistory(true)}
+            disabled={isNew}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-white text-slate-700 border border-slate-200 rounded-lg hover:bg-slate-50 font-bold transition-all shadow-sm text-xs uppercase tracking-wider disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <History size={16} className="text-indigo-500" /> Historique
+          </button>
           <button 
             onClick={handleSave}
             className="flex items-center justify-center gap-2 px-4 py-2 bg-white text-slate-700 border border-slate-200 rounded-lg hover:bg-slate-50 font-bold transition-all shadow-sm text-xs uppercase tracking-wider"
@@ -213,6 +754,144 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
             </div>
           )}
         </div>
+
+        {/* Numérotation des questions */}
+        <div className="lg:col-span-3 flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100">
+          <div className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1">
+            <ListOrdered size={12} /> Numérotation
+          </div>
+          <select
+            className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-700 text-xs"
+            value={numbering.scope}
+            onChange={(e) => updateNumbering({ scope: e.target.value as NumberingSettings['scope'] })}
+          >
+            <option value="continuous">Continue sur toute l'évaluation</option>
+            <option value="per_section">Reprend à chaque section</option>
+          </select>
+          <select
+            className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-700 text-xs"
+            value={numbering.style}
+            onChange={(e) => updateNumbering({ style: e.target.value as NumberingStyle })}
+          >
+            {(Object.keys(NUMBERING_STYLE_LABELS) as NumberingStyle[]).map(style => (
+              <option key={style} value={style}>{NUMBERING_STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Barème : total visé, arrondi et bonus */}
+        <div className="lg:col-span-3 flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100">
+          <div className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1">
+            <Scale size={12} /> Barème
+          </div>
+          <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600">
+            Noter sur
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={gradingScale.target_total ?? ''}
+              onChange={(e) => updateGradingScale({ target_total: e.target.value === '' ? null : Math.max(1, parseFloat(e.target.value)) })}
+              className="p-1.5 w-16 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-700 text-xs text-center"
+              placeholder={String(maxTotal)}
+              title="Laisser vide pour noter sur la somme des points"
+            />
+          </label>
+          <select
+            className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-700 text-xs"
+            value={gradingScale.rounding}
+            onChange={(e) => updateGradingScale({ rounding: e.target.value as ScaleRounding })}
+          >
+            {(Object.keys(SCALE_ROUNDING_LABELS) as ScaleRounding[]).map(rounding => (
+              <option key={rounding} value={rounding}>Arrondi {SCALE_ROUNDING_LABELS[rounding].toLowerCase()}</option>
+            ))}
+          </select>
+          <span className="text-xs font-bold text-slate-500">{describeGradingScale(evaluation)}</span>
+        </div>
+
+        {/* En-tête de la copie, repris de la matière sauf champs personnalisés */}
+        <div className="lg:col-span-3 flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100">
+          <div className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1">
+            <PanelTop size={12} /> En-tête
+          </div>
+          <span className="text-xs font-bold text-slate-500">
+            {customHeaderFields === 0
+              ? `Repris ${currentCategory ? 'de la matière' : "de l'en-tête par défaut"}`
+              : `${customHeaderFields} champ${customHeaderFields > 1 ? 's' : ''} personnalisé${customHeaderFields > 1 ? 's' : ''} pour cette évaluation`}
+          </span>
+          <button
+            onClick={() => setShowHeaderDesigner(true)}
+            className="px-2 py-1 text-xs font-bold text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+          >
+            Personnaliser l'en-tête
+          </button>
+        </div>
+
+        {/* Évaluation par compétences */}
+        <div className="lg:col-span-3 flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100">
+          <div className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1">
+            <Target size={12} /> Compétences
+          </div>
+          <span className="text-xs font-bold text-slate-500">
+            {evaluatedCompetencies.length === 0
+              ? 'Aucune compétence associée aux questions'
+              : `${evaluatedCompetencies.length} compétence${evaluatedCompetencies.length > 1 ? 's' : ''} évaluée${evaluatedCompetencies.length > 1 ? 's' : ''}`}
+          </span>
+          <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!evaluation.competency_grid}
+              onChange={(e) => setEvaluation(prev => ({ ...prev, competency_grid: e.target.checked }))}
+              className="accent-indigo-600"
+            />
+            Imprimer la grille de positionnement sur la copie élève
+          </label>
+        </div>
+
+        {/* Sujets A / B */}
+        <div className="lg:col-span-3 flex flex-wrap items-center gap-3 pt-3 border-t border-slate-100">
+          <div className="flex items-center gap-1.5 text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] ml-1">
+            <Shuffle size={12} /> Sujets
+          </div>
+          <select
+            className="p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-700 text-xs"
+            value={variantSettings.count}
+            onChange={(e) => updateVariantSettings({ count: parseInt(e.target.value) })}
+          >
+            {Array.from({ length: MAX_VARIANTS }).map((_, i) => (
+              <option key={i} value={i + 1}>{i === 0 ? 'Sujet unique' : `${i + 1} sujets (A à ${String.fromCharCode(65 + i)})`}</option>
+            ))}
+          </select>
+          {variantSettings.count > 1 && (
+            <>
+              <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={variantSettings.shuffle_questions}
+                  onChange={(e) => updateVariantSettings({ shuffle_questions: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                Mélanger les questions
+              </label>
+              <label className="flex items-center gap-1.5 text-xs font-bold text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={variantSettings.shuffle_options}
+                  onChange={(e) => updateVariantSettings({ shuffle_options: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                Mélanger les propositions QCM
+              </label>
+              <button
+                onClick={() => updateVariantSettings({ seed: randomSeed() })}
+                className="ml-auto text-[10px] font-bold text-slate-400 hover:text-indigo-600 bg-white border border-slate-200 px-2 py-1 rounded flex items-center gap-1 transition-colors"
+                title="Les mêmes sujets sont régénérés tant que le tirage ne change pas"
+              >
+                <Shuffle size={12} /> Nouveau tirage (n° {variantSettings.seed})
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Questions Stack Toolbar */}
@@ -236,167 +915,366 @@ const EvaluationEditor: React.FC<EvaluationEditorProps> = ({ evaluationId, onClo
 
       {/* Questions Stack - Condensed */}
       <div className="space-y-3">
-        {evaluation.questions.map((q, idx) => {
-          const isExpanded = expandedIds.has(q.id);
+        {sectionGroups.map(({ section, questions }, groupIndex) => {
+          const rawPoints = questions.reduce((acc, q) => acc + (q.is_bonus ? 0 : q.points || 0), 0);
+          const sectionPoints = getSectionPoints(section, questions);
+          const bonusPoints = getBonusPoints(questions);
 
           return (
-            <div 
-              key={q.id} 
-              className={`bg-white rounded-2xl shadow-sm border transition-all animate-fade-in ${isExpanded ? 'border-indigo-100 ring-4 ring-indigo-50/50' : 'border-slate-200 hover:border-indigo-200 overflow-hidden'}`}
-              style={{ position: 'relative', zIndex: 100 - idx }}
+            <div
+              key={section.id}
+              data-drag-block
+              className={`relative space-y-3 rounded-2xl transition-opacity ${dragItem?.kind === 'section' && dragItem.id === section.id ? 'opacity-40' : ''}`}
+              onDragOver={(e) => handleSectionDragOver(e, section.id)}
+              onDrop={handleDrop}
             >
-              {/* Question Header - Compact */}
-              <div 
-                className={`px-4 py-2 flex justify-between items-center gap-2 cursor-pointer ${isExpanded ? 'bg-slate-50/80 border-b border-indigo-50' : 'bg-white hover:bg-slate-50'}`}
-                onClick={() => toggleExpand(q.id)}
-              >
-                <div className="flex items-center gap-3 flex-grow overflow-hidden">
-                  <div className="text-slate-300 hover:text-indigo-400 transition-colors p-1 cursor-grab" onClick={(e) => e.stopPropagation()}>
-                    <GripVertical size={16} />
-                  </div>
-                  
-                  <div className="flex items-center gap-2">
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); toggleExpand(q.id); }}
-                      className={`p-1 rounded-md text-slate-400 transition-all ${isExpanded ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-200'}`}
-                    >
-                       {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
-                    </button>
-                    <span className="w-6 h-6 rounded-md bg-white border border-slate-200 flex items-center justify-center text-[10px] font-black text-indigo-600 shadow-sm flex-shrink-0">
-                      {idx + 1}
-                    </span>
-                  </div>
-
-                  {/* Condensed Section/Points in Header */}
-                  <div className="flex items-center gap-2 flex-grow overflow-hidden" onClick={(e) => e.stopPropagation()}>
-                    <div className="flex items-center gap-1.5 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-indigo-300 transition-colors">
-                      <Layers size={12} className="text-slate-400" />
-                      <input
-                        type="text"
-                        value={q.section_name}
-                        onChange={(e) => updateQuestion(idx, 'section_name', e.target.value)}
-                        className="bg-transparent font-bold text-slate-600 outline-none text-xs w-32 placeholder:text-slate-300"
-                        placeholder="Section"
-                      />
-                    </div>
-
-                    <div className="flex items-center gap-1.5 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-amber-300 transition-colors">
-                      <Calculator size={12} className="text-slate-400" />
-                      <input
-                        type="number"
-                        min="0"
-                        step="0.5"
-                        value={q.points || 0}
-                        onChange={(e) => updateQuestion(idx, 'points', parseFloat(e.target.value))}
-                        className="bg-transparent font-bold text-slate-600 outline-none text-xs w-8 text-center"
-                      />
-                      <span className="text-[10px] text-slate-400 font-bold">pts</span>
-                    </div>
+              {dragItem?.kind === 'section' && dropTarget?.kind === 'section' && dropTarget.id === section.id && (
+                <div className={`absolute left-0 right-0 h-1 bg-indigo-500 rounded-full z-[150] ${dropTarget.position === 'before' ? '-top-2' : '-bottom-2'}`}></div>
+              )}
 
-                    {!isExpanded && (
-                        <div className="ml-2 text-xs text-slate-400 truncate max-w-[300px] border-l border-slate-100 pl-3 italic">
-                           {q.question_text || "Question vide..."}
-                        </div>
-                    )}
-                  </div>
+              {/* En-tête de section : glisser, flèches ou clavier pour déplacer tout le bloc */}
+              <div className="relative px-1 pt-3 space-y-1.5">
+                {dragItem?.kind === 'question' && dropTarget?.kind === 'section' && dropTarget.id === section.id && (
+                  <div className="absolute left-0 right-0 h-1 bg-indigo-500 rounded-full -bottom-2"></div>
+                )}
+                <div className="flex items-center gap-2">
+                  <button
+                    ref={registerHandle(`s:${section.id}`)}
+                    draggable
+                    onDragStart={(e) => startDrag(e, { kind: 'section', id: section.id })}
+                    onDragEnd={endDrag}
+                    onKeyDown={(e) => handleMoveKey(e, { kind: 'section', id: section.id })}
+                    className="text-slate-300 hover:text-indigo-400 focus:text-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200 rounded p-1 cursor-grab transition-colors"
+                    title="Glisser pour déplacer la section (ou flèches haut/bas)"
+                    aria-label={`Déplacer la section ${section.title}`}
+                  >
+                    <GripVertical size={16} />
+                  </button>
+                  <Layers size={14} className="text-indigo-400 flex-shrink-0" />
+                  <input
+                    ref={registerHandle(`t:${section.id}`)}
+                    type="text"
+                    value={section.title}
+                    onChange={(e) => setEvaluation(prev => updateSection(prev, section.id, { title: e.target.value }))}
+                    className="bg-transparent font-black text-slate-600 uppercase tracking-widest text-xs outline-none focus:bg-white focus:ring-2 focus:ring-indigo-100 rounded px-1 min-w-0 w-64"
+                    placeholder="Section sans titre"
+                  />
+                  <span className="text-[10px] font-bold text-slate-400 whitespace-nowrap" title={sectionPoints < rawPoints ? `${rawPoints} pts de questions, plafonnés` : undefined}>
+                    {questions.length} quest. • {sectionPoints}{sectionPoints < rawPoints ? ` / ${rawPoints}` : ''} pts{bonusPoints > 0 && ` + ${bonusPoints} bonus`}
+                  </span>
+                  <div className="h-px flex-grow bg-slate-100"></div>
+                  <label className="flex items-center gap-1 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-indigo-300 transition-colors" title="Temps conseillé (facultatif)">
+                    <Clock size={12} className="text-slate-400" />
+                    <input
+                      type="number"
+                      min="0"
+                      value={section.duration_minutes ?? ''}
+                      onChange={(e) => setEvaluation(prev => updateSection(prev, section.id, { duration_minutes: parseOptionalNumber(e.target.value) }))}
+                      className="bg-transparent font-bold text-slate-600 outline-none text-xs w-8 text-center placeholder:text-slate-300"
+                      placeholder="–"
+                    />
+                    <span className="text-[10px] text-slate-400 font-bold">min</span>
+                  </label>
+                  <label className="flex items-center gap-1 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-amber-300 transition-colors" title="Plafond de points de la section (facultatif)">
+                    <Calculator size={12} className="text-slate-400" />
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={section.points_cap ?? ''}
+                      onChange={(e) => setEvaluation(prev => updateSection(prev, section.id, { points_cap: parseOptionalNumber(e.target.value) }))}
+                      className="bg-transparent font-bold text-slate-600 outline-none text-xs w-8 text-center placeholder:text-slate-300"
+                      placeholder="–"
+                    />
+                    <span className="text-[10px] text-slate-400 font-bold">pts max</span>
+                  </label>
+                  <button
+                    onClick={() => addQuestion(section.id)}
+                    className="p-1 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-all"
+                    title="Ajouter une question à cette section"
+                  >
+                    <Plus size={14} />
+                  </button>
+                  <button
+                    onClick={() => reorderEvaluation(prev => shiftSection(prev, section.id, -1))}
+                    disabled={groupIndex === 0}
+                    className="p-1 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-all disabled:opacity-30 disabled:pointer-events-none"
+                    title="Monter la section"
+                  >
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    onClick={() => reorderEvaluation(prev => shiftSection(prev, section.id, 1))}
+                    disabled={groupIndex === sectionGroups.length - 1}
+                    className="p-1 text-slate-300 hover:text-indigo-600 hover:bg-indigo-50 rounded transition-all disabled:opacity-30 disabled:pointer-events-none"
+                    title="Descendre la section"
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => setEvaluation(prev => removeSection(prev, section.id))}
+                    disabled={questions.length > 0}
+                    className="p-1 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded transition-all disabled:opacity-30 disabled:pointer-events-none"
+                    title={questions.length > 0 ? "Déplacez ou supprimez ses questions pour retirer la section" : "Supprimer la section"}
+                  >
+                    <Trash2 size={14} />
+                  </button>
                 </div>
-
-                <button 
-                  onClick={(e) => { e.stopPropagation(); removeQuestion(idx); }} 
-                  className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all flex-shrink-0"
-                  title="Supprimer la question"
-                >
-                  <Trash2 size={16} />
-                </button>
+                <textarea
+                  value={section.instructions}
+                  rows={1}
+                  onInput={(e) => adjustTextareaHeight(e.target as HTMLTextAreaElement)}
+                  onChange={(e) => setEvaluation(prev => updateSection(prev, section.id, { instructions: e.target.value }))}
+                  className="w-full ml-8 max-w-[calc(100%-2rem)] px-2 py-1 bg-transparent border border-transparent hover:border-slate-200 focus:border-indigo-300 focus:bg-white rounded-lg outline-none text-xs italic text-slate-500 resize-none overflow-hidden transition-all placeholder:text-slate-300"
+                  placeholder="Consigne de la section (facultative)"
+                />
               </div>
-              
-              {/* Expandable Body */}
-              {isExpanded && (
-                <div className="p-4 space-y-4 bg-white">
-                  {/* Question Input */}
-                  <div>
-                    <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Énoncé</label>
-                    <textarea
-                      ref={(el) => { textareaRefs.current[idx] = el; }}
-                      className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/5 focus:border-indigo-500/30 focus:bg-white outline-none overflow-hidden min-h-[60px] font-medium text-slate-700 transition-all leading-relaxed resize-none text-sm"
-                      placeholder="Tapez ici l'énoncé complet..."
-                      value={q.question_text}
-                      rows={1}
-                      onInput={(e) => adjustTextareaHeight(e.target as HTMLTextAreaElement)}
-                      onChange={(e) => updateQuestion(idx, 'question_text', e.target.value)}
-                      style={{ height: 'auto' }} 
-                    />
-                  </div>
 
-                  <div className="grid lg:grid-cols-2 gap-4">
-                    {/* Corrigé */}
-                    <div>
-                      <div className="flex items-center gap-2 mb-1 ml-1">
-                        <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
-                        <label className="block text-[9px] font-black text-emerald-600 uppercase tracking-[0.2em]">Réponse Prof</label>
-                      </div>
-                      <RichTextEditor
-                        value={q.teacher_answer}
-                        onChange={(val) => updateQuestion(idx, 'teacher_answer', val)}
-                        className="rounded-xl border border-slate-200 hover:border-emerald-200 focus-within:border-emerald-300 transition-all shadow-sm"
-                        placeholder="Réponse type..."
-                      />
-                    </div>
+              {questions.length === 0 && (
+                <div className="ml-8 py-3 border-2 border-dashed border-slate-100 rounded-2xl text-center text-[10px] font-bold text-slate-300 uppercase tracking-widest">
+                  Section vide : glissez une question ici ou utilisez +
+                </div>
+              )}
 
-                    {/* Espace Élève */}
-                    <div>
-                      <div className="flex justify-between items-center mb-1 ml-1">
-                        <div className="flex items-center gap-2">
-                          <span className="w-1.5 h-1.5 rounded-full bg-indigo-500"></span>
-                          <label className="block text-[9px] font-black text-indigo-600 uppercase tracking-[0.2em]">Espace Élève</label>
-                        </div>
+              {questions.map(q => {
+                const idx = evaluation.questions.indexOf(q);
+                const isExpanded = expandedIds.has(q.id);
+
+                return (
+                  <div 
+                    key={q.id} 
+                    data-drag-block
+                    className={`bg-white rounded-2xl shadow-sm border transition-all animate-fade-in ${isExpanded ? 'border-indigo-100 ring-4 ring-indigo-50/50' : 'border-slate-200 hover:border-indigo-200 overflow-hidden'} ${dragItem?.kind === 'question' && dragItem.id === q.id ? 'opacity-40' : ''}`}
+                    style={{ position: 'relative', zIndex: 100 - idx }}
+                    onDragOver={(e) => handleQuestionDragOver(e, q.id)}
+                    onDrop={handleDrop}
+                  >
+                    {dropTarget?.kind === 'question' && dropTarget.id === q.id && (
+                      <div className={`absolute left-2 right-2 h-1 bg-indigo-500 rounded-full ${dropTarget.position === 'before' ? '-top-2' : '-bottom-2'}`}></div>
+                    )}
+                    {/* Question Header - Compact */}
+                    <div 
+                      className={`px-4 py-2 flex justify-between items-center gap-2 cursor-pointer ${isExpanded ? 'bg-slate-50/80 border-b border-indigo-50' : 'bg-white hover:bg-slate-50'}`}
+                      onClick={() => toggleExpand(q.id)}
+                    >
+                      <div className="flex items-center gap-3 flex-grow overflow-hidden">
                         <button
-                          onClick={() => updateQuestion(idx, 'student_prompt', q.student_prompt === null ? '' : null)}
-                          className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1"
+                          ref={registerHandle(`q:${q.id}`)}
+                          draggable
+                          onDragStart={(e) => startDrag(e, { kind: 'question', id: q.id })}
+                          onDragEnd={endDrag}
+                          onKeyDown={(e) => handleMoveKey(e, { kind: 'question', id: q.id })}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-slate-300 hover:text-indigo-400 focus:text-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-200 rounded transition-colors p-1 cursor-grab"
+                          title="Glisser pour déplacer (ou flèches haut/bas)"
+                          aria-label={`Déplacer la question ${questionNumbers.get(q.id)}`}
                         >
-                          {q.student_prompt === null ? <Plus size={12} /> : <X size={12} />}
-                          {q.student_prompt === null ? 'Zone Spéciale' : 'Lignes'}
+                          <GripVertical size={16} />
                         </button>
-                      </div>
-                      
-                      {q.student_prompt === null ? (
-                        <div className="h-[100px] w-full border border-dashed border-slate-200 rounded-xl bg-slate-50 flex items-center justify-center text-slate-300 text-[9px] font-black flex-col relative overflow-hidden group/zone">
-                          <div className="w-full h-full dotted-lines opacity-20 group-hover/zone:opacity-30 transition-opacity"></div>
-                          <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-                            <Sparkles size={16} className="mb-1 opacity-30" />
-                            <span className="uppercase tracking-widest">Lignes automatiques</span>
+                    
+                        <div className="flex items-center gap-2">
+                          <button 
+                            onClick={(e) => { e.stopPropagation(); toggleExpand(q.id); }}
+                            className={`p-1 rounded-md text-slate-400 transition-all ${isExpanded ? 'bg-indigo-100 text-indigo-600' : 'hover:bg-slate-200'}`}
+                          >
+                             {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                          </button>
+                          <span className="min-w-[1.5rem] h-6 px-1 rounded-md bg-white border border-slate-200 flex items-center justify-center text-[10px] font-black text-indigo-600 shadow-sm flex-shrink-0">
+                            {questionNumbers.get(q.id)}
+                          </span>
+                        </div>
+
+                        {/* Condensed Section/Points in Header */}
+                        <div className="flex items-center gap-2 flex-grow overflow-hidden" onClick={(e) => e.stopPropagation()}>
+                          <div className="flex items-center gap-1.5 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-indigo-300 transition-colors">
+                            <Layers size={12} className="text-slate-400" />
+                            <select
+                              value={q.section_id || ''}
+                              onChange={(e) => reorderEvaluation(prev => moveQuestion(prev, q.id, e.target.value, prev.questions.length), `q:${q.id}`)}
+                              className="bg-transparent font-bold text-slate-600 outline-none text-xs max-w-[8rem]"
+                              title="Déplacer vers une autre section"
+                            >
+                              {sectionGroups.map(group => (
+                                <option key={group.section.id} value={group.section.id}>{group.section.title || 'Section sans titre'}</option>
+                              ))}
+                            </select>
+                          </div>
+
+                          <div className="flex items-center gap-1.5 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-amber-300 transition-colors">
+                            <Calculator size={12} className="text-slate-400" />
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.5"
+                              value={q.points || 0}
+                              onChange={(e) => updateQuestion(idx, 'points', parseFloat(e.target.value))}
+                              className="bg-transparent font-bold text-slate-600 outline-none text-xs w-8 text-center"
+                            />
+                            <span className="text-[10px] text-slate-400 font-bold">pts</span>
+                            <label className="flex items-center gap-1 pl-1.5 ml-0.5 border-l border-slate-200 text-[10px] font-bold text-slate-400 cursor-pointer" title="Points en plus, hors du total de base">
+                              <input
+                                type="checkbox"
+                                checked={!!q.is_bonus}
+                                onChange={(e) => updateQuestion(idx, 'is_bonus', e.target.checked)}
+                                className="accent-amber-500"
+                              />
+                              Bonus
+                            </label>
+                          </div>
+
+                          <div className="flex items-center gap-1.5 bg-white px-2 py-0.5 rounded border border-slate-200 focus-within:border-indigo-300 transition-colors">
+                            <ListChecks size={12} className="text-slate-400" />
+                            <select
+                              value={q.question_type}
+                              onChange={(e) => changeQuestionType(idx, e.target.value as QuestionType)}
+                              className="bg-transparent font-bold text-slate-600 outline-none text-xs"
+                            >
+                              {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                                <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                              ))}
+                            </select>
                           </div>
+
+                          {!isExpanded && (
+                              <div className="ml-2 text-xs text-slate-400 truncate max-w-[300px] border-l border-slate-100 pl-3 italic">
+                                 {q.question_text || "Question vide..."}
+                              </div>
+                          )}
                         </div>
-                      ) : (
-                        <RichTextEditor
-                          value={q.student_prompt || ''}
-                          onChange={(val) => updateQuestion(idx, 'student_prompt', val)}
-                          className="rounded-xl border border-slate-200 hover:border-indigo-200 focus-within:border-indigo-300 transition-all shadow-sm"
-                          placeholder="Contenu pré-rempli..."
-                        />
+                      </div>
+
+                      {q.bank_item_id && (
+                        <span className="text-indigo-300 flex-shrink-0" title="Copie d'une question de la banque">
+                          <Library size={14} />
+                        </span>
                       )}
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); setBankCandidateIndex(idx); }} 
+                        className="p-1.5 text-slate-300 hover:text-indigo-500 hover:bg-indigo-50 rounded-lg transition-all flex-shrink-0"
+                        title="Ajouter à la banque de questions"
+                      >
+                        <BookmarkPlus size={16} />
+                      </button>
+                      <button 
+                        onClick={(e) => { e.stopPropagation(); removeQuestion(idx); }} 
+                        className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all flex-shrink-0"
+                        title="Supprimer la question"
+                      >
+                        <Trash2 size={16} />
+                      </button>
                     </div>
+                
+                    {/* Expandable Body */}
+                    {isExpanded && (
+                      <div className="p-4 space-y-4 bg-white">
+                        {/* Question Input */}
+                        <div>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Énoncé</label>
+                          <textarea
+                            ref={(el) => { textareaRefs.current[idx] = el; }}
+                            className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/5 focus:border-indigo-500/30 focus:bg-white outline-none overflow-hidden min-h-[60px] font-medium text-slate-700 transition-all leading-relaxed resize-none text-sm"
+                            placeholder="Tapez ici l'énoncé complet..."
+                            value={q.question_text}
+                            rows={1}
+                            onInput={(e) => adjustTextareaHeight(e.target as HTMLTextAreaElement)}
+                            onChange={(e) => updateQuestion(idx, 'question_text', e.target.value)}
+                            style={{ height: 'auto' }} 
+                          />
+                        </div>
+
+                        <CompetencyPicker
+                          competencies={competencies}
+                          selectedIds={q.competency_ids || []}
+                          onChange={(ids) => updateQuestion(idx, 'competency_ids', ids)}
+                        />
+
+                        {q.question_type !== 'open' ? (
+                          <AnswerKeyEditor question={q} onChange={(changes) => updateQuestionFields(idx, changes)} />
+                        ) : (
+                          <div className="grid lg:grid-cols-2 gap-4">
+                            {/* Corrigé */}
+                            <div>
+                              <div className="flex items-center gap-2 mb-1 ml-1">
+                                <span className="w-1.5 h-1.5 rounded-full bg-emerald-500"></span>
+                                <label className="block text-[9px] font-black text-emerald-600 uppercase tracking-[0.2em]">Réponse Prof</label>
+                              </div>
+                              <RichTextEditor
+                                value={q.teacher_answer}
+                                onChange={(val) => updateQuestion(idx, 'teacher_answer', val)}
+                                className="rounded-xl border border-slate-200 hover:border-emerald-200 focus-within:border-emerald-300 transition-all shadow-sm"
+                                placeholder="Réponse type..."
+                              />
+                            </div>
+
+                            {/* Espace Élève */}
+                            <div>
+                              <div className="flex justify-between items-center mb-1 ml-1">
+                                <div className="flex items-center gap-2">
+                                  <span className="w-1.5 h-1.5 rounded-full bg-indigo-500"></span>
+                                  <label className="block text-[9px] font-black text-indigo-600 uppercase tracking-[0.2em]">Espace Élève</label>
+                                </div>
+                                <button
+                                  onClick={() => updateQuestion(idx, 'student_prompt', q.student_prompt === null ? '' : null)}
+                                  className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-600 transition-colors flex items-center gap-1"
+                                >
+                                  {q.student_prompt === null ? <Plus size={12} /> : <X size={12} />}
+                                  {q.student_prompt === null ? 'Zone Spéciale' : 'Lignes'}
+                                </button>
+                              </div>
+                        
+                              {q.student_prompt === null ? (
+                                <div className="h-[100px] w-full border border-dashed border-slate-200 rounded-xl bg-slate-50 flex items-center justify-center text-slate-300 text-[9px] font-black flex-col relative overflow-hidden group/zone">
+                                  <div className="w-full h-full dotted-lines opacity-20 group-hover/zone:opacity-30 transition-opacity"></div>
+                                  <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                                    <Sparkles size={16} className="mb-1 opacity-30" />
+                                    <span className="uppercase tracking-widest">Lignes automatiques</span>
+                                  </div>
+                                </div>
+                              ) : (
+                                <RichTextEditor
+                                  value={q.student_prompt || ''}
+                                  onChange={(val) => updateQuestion(idx, 'student_prompt', val)}
+                                  className="rounded-xl border border-slate-200 hover:border-indigo-200 focus-within:border-indigo-300 transition-all shadow-sm"
+                                  placeholder="Contenu pré-rempli..."
+                                />
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
-                </div>
-              )}
+                );
+              })}
             </div>
           );
         })}
 
-        <button
-          onClick={addQuestion}
-          className="w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 hover:border-indigo-300 hover:text-indigo-500 hover:bg-indigo-50/30 transition-all flex items-center justify-center gap-2 group mt-4"
-        >
-          <div className="p-1.5 bg-slate-100 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600 rounded-lg transition-all">
-            <Plus size={20} />
-          </div>
-          <span className="text-xs font-black uppercase tracking-[0.2em]">Ajouter une question</span>
-        </button>
+        <div className="grid grid-cols-3 gap-3 mt-4">
+          <button
+            onClick={() => addQuestion()}
+            className="col-span-2 py-4 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 hover:border-indigo-300 hover:text-indigo-500 hover:bg-indigo-50/30 transition-all flex items-center justify-center gap-2 group"
+          >
+            <div className="p-1.5 bg-slate-100 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600 rounded-lg transition-all">
+              <Plus size={20} />
+            </div>
+            <span className="text-xs font-black uppercase tracking-[0.2em]">Ajouter une question</span>
+          </button>
+          <button
+            onClick={addSection}
+            className="py-4 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 hover:border-indigo-300 hover:text-indigo-500 hover:bg-indigo-50/30 transition-all flex items-center justify-center gap-2 group"
+          >
+            <div className="p-1.5 bg-slate-100 text-slate-400 group-hover:bg-indigo-100 group-hover:text-indigo-600 rounded-lg transition-all">
+              <Layers size={20} />
+            </div>
+            <span className="text-xs font-black uppercase tracking-[0.2em]">Ajouter une section</span>
+          </button>
+        </div>
 
         {/* Bottom Save Bar */}
         <div className="sticky bottom-4 bg-white/95 backdrop-blur-md p-3 rounded-xl border border-slate-200 shadow-xl flex justify-between items-center animate-fade-in z-40 mt-6">
            <div className="text-[10px] font-bold text-slate-400 pl-2">
-             {evaluation.questions.length} question{evaluation.questions.length > 1 ? 's' : ''} • {evaluation.questions.reduce((acc, q) => acc + (q.points || 0), 0)} points total
+             {evaluation.questions.length} question{evaluation.questions.length > 1 ? 's' : ''} • {maxTotal} points total{totalBonus > 0 && ` + ${totalBonus} bonus`} • noté sur {formatPoints(getScaleTotal(evaluation))}
            </div>
            <div className="flex gap-2">
               <button 
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Category, EvaluationFilters, EvaluationSort } from '../types';
+import { DEFAULT_EVALUATION_FILTERS, EVALUATION_SORT_LABELS, UNCATEGORIZED, isFiltered } from '../services/evaluationFilters';
+import { Search, X, ArrowUpDown, Calendar, Hash } from 'lucide-react';
+
+interface EvaluationFiltersBarProps {
+  filters: EvaluationFilters;
+  categories: Category[];
+  resultCount: number;
+  totalCount: number;
+  onChange: (filters: EvaluationFilters) => void;
+}
+
+const EvaluationFiltersBar: React.FC<EvaluationFiltersBarProps> = ({ filters, categories, resultCount, totalCount, onChange }) => {
+  const update = (changes: Partial<EvaluationFilters>) => onChange({ ...filters, ...changes });
+  const parseCount = (value: string) => value === '' ? null : Math.max(0, parseInt(value) || 0);
+
+  const fieldClass = "p-2 bg-white border border-slate-200 rounded-lg focus:border-indigo-500/30 outline-none font-bold text-slate-700 transition-all text-xs";
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="relative">
+        <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400" />
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Rechercher dans les titres, énoncés et corrigés..."
+          className="w-full bg-white border border-slate-200 rounded-2xl py-3 pl-11 pr-4 focus:ring-4 focus:ring-indigo-500/10 focus:border-indigo-500 outline-none font-bold text-slate-800 transition-all text-sm shadow-sm"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select className={fieldClass} value={filters.category_id} onChange={(e) => update({ category_id: e.target.value })}>
+          <option value="">Toutes les matières</option>
+          {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          <option value={UNCATEGORIZED}>Sans matière</option>
+        </select>
+
+        <div className="flex items-center gap-1.5 text-xs font-bold text-slate-400">
+          <Calendar size={14} />
+          <input type="date" className={fieldClass} value={filters.date_from} onChange={(e) => update({ date_from: e.target.value })} title="Créées à partir du" />
+          <span>→</span>
+          <input type="date" className={fieldClass} value={filters.date_to} onChange={(e) => update({ date_to: e.target.value })} title="Créées jusqu'au" />
+        </div>
+
+        <div className="flex items-center gap-1.5 text-xs font-bold text-slate-400">
+          <Hash size={14} />
+          <input
+            type="number"
+            min="0"
+            className={`${fieldClass} w-16`}
+            value={filters.min_questions ?? ''}
+            onChange={(e) => update({ min_questions: parseCount(e.target.value) })}
+            placeholder="min"
+          />
+          <span>à</span>
+          <input
+            type="number"
+            min="0"
+            className={`${fieldClass} w-16`}
+            value={filters.max_questions ?? ''}
+            onChange={(e) => update({ max_questions: parseCount(e.target.value) })}
+            placeholder="max"
+          />
+          <span>questions</span>
+        </div>
+
+        <div className="flex items-center gap-1.5 text-xs font-bold text-slate-400 ml-auto">
+          <ArrowUpDown size={14} />
+          <select className={fieldClass} value={filters.sort} onChange={(e) => update({ sort: e.target.value as EvaluationSort })}>
+            {(Object.keys(EVALUATION_SORT_LABELS) as EvaluationSort[]).map(sort => (
+              <option key={sort} value={sort}>{EVALUATION_SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isFiltered(filters) && (
+        <div className="flex items-center gap-3 text-xs font-bold text-slate-500">
+          <span>{resultCount} évaluation(s) sur {totalCount}</span>
+          <button
+            onClick={() => onChange({ ...DEFAULT_EVALUATION_FILTERS, sort: filters.sort })}
+            className="flex items-center gap-1 text-slate-400 hover:text-indigo-600 transition-colors"
+          >
+            <X size={12} /> Effacer les filtres
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationFiltersBar;
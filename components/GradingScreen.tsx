@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Evaluation, GradeStatus, SchoolClass, StudentGrade } from '../types';
+import { GRADE_STATUS_LABELS, clampScore, formatStudentName, getGradeTotal, getMaxTotal, gradebookService } from '../services/gradebook';
+import { getQuestionNumbers, groupQuestionsBySection } from '../services/sections';
+import { GradeExportFormat, exportGrades } from '../services/gradebookSpreadsheets';
+import { formatPoints, getScaleTotal, scaleGrade } from '../services/gradingScale';
+import { ArrowLeft, Users, Loader2, CheckCircle, AlertCircle, ClipboardCheck, BarChart3, Download, X } from 'lucide-react';
+
+interface GradingScreenProps {
+  evaluation: Evaluation;
+  onBack: () => void;
+  onManageClasses: () => void;
+  onShowResults: () => void;
+}
+
+// Délai sans saisie avant l'enregistrement des notes modifiées
+const GRADES_AUTOSAVE_DELAY = 1000;
+
+const STATUS_SHORT_LABELS: Record<GradeStatus, string> = { present: '', absent: 'ABS', exempt: 'DISP' };
+
+const GradingScreen: React.FC<GradingScreenProps> = ({ evaluation, onBack, onManageClasses, onShowResults }) => {
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [classId, setClassId] = useState<string>('');
+  const [grades, setGrades] = useState<Map<string, StudentGrade>>(new Map());
+  const [dirtyIds, setDirtyIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<GradeExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  // Navigation demandée pendant un enregistrement : reprise quand celui-ci se termine
+  const [pendingLeave, setPendingLeave] = useState<(() => void) | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const savingRef = useRef(false);
+  // Dernière saisie connue, pour ne pas marquer propre une ligne modifiée pendant l'envoi
+  const gradesRef = useRef(grades);
+  gradesRef.current = grades;
+  const dirtyIdsRef = useRef(dirtyIds);
+  dirtyIdsRef.current = dirtyIds;
+
+  const sectionGroups = useMemo(() => groupQuestionsBySection(evaluation), [evaluation]);
+  const questions = sectionGroups.flatMap(g => g.questions);
+  const questionNumbers = useMemo(() => getQuestionNumbers(evaluation), [evaluation]);
+  const maxTotal = getMaxTotal(evaluation);
+  const scaleTotal = getScaleTotal(evaluation);
+
+  useEffect(() => {
+    const init = async () => {
+      const [loadedClasses, loadedGrades] = await Promise.all([
+        gradebookService.getClasses(),
+        gradebookService.getGrades(evaluation.id)
+      ]);
+      setClasses(loadedClasses);
+      setGrades(new Map(loadedGrades.map(g => [g.student_id, g])));
+      // Classe déjà notée pour cette évaluation, sinon la première
+      const graded = new Set(loadedGrades.map(g => g.student_id));
+      const best = [...loadedClasses].sort((a, b) =>
+        b.students.filter(s => graded.has(s.id)).length - a.students.filter(s => graded.has(s.id)).length)[0];
+      setClassId(best?.id || '');
+      setLoading(false);
+    };
+    init();
+  }, [evaluation.id]);
+
+  const persistGrades = async (): Promise<boolean> => {
+    if (dirtyIds.size === 0) return true;
+    if (savingRef.current) return false;
+    const pending = Array.from(dirtyIds).map(id => grades.get(id)!).filter(Boolean);
+    savingRef.current = true;
+    setIsSaving(true);
+    try {
+      await gradebookService.saveGrades(pending);
+      // Seules les lignes enregistrées sont marquées propres : une saisie pendant l'envoi reste à enregistrer
+      const saved = new Set(pending.filter(g => gradesRef.current.get(g.student_id) === g).map(g => g.student_id));
+      // Référence mise à jour sans attendre le rendu : l'écran peut être quitté juste après
+      dirtyIdsRef.current = new Set(Array.from(dirtyIdsRef.current).filter(id => !saved.has(id)));
+      setDirtyIds(prev => new Set(Array.from(prev).filter(id => !saved.has(id))));
+      setSaveError(false);
+      return true;
+    } catch (error) {
+      console.error("Error saving grades:", error);
+      setSaveError(true);
+      return false;
+    } finally {
+      savingRef.current = false;
+      setIsSaving(false);
+    }
+  };
+
+  // Après un échec, nouvel essai à la saisie suivante ou au retour
+  useEffect(() => {
+    if (dirtyIds.size === 0) return;
+    const timer = setTimeout(persistGrades, GRADES_AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [grades, dirtyIds]);
+
+  // Quitter par la barre latérale démonte l'écran sans passer par leave() : les notes en attente
+  // ou en échec sont envoyées une dernière fois
+  useEffect(() => () => {
+    const pending = Array.from(dirtyIdsRef.current).map(id => gradesRef.current.get(id)!).filter(Boolean);
+    if (pending.length > 0) {
+      gradebookService.saveGrades(pending).catch(error => console.error("Error saving grades:", error));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (dirtyIds.size === 0) return;
+    const warnBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [dirtyIds]);
+
+  // Enregistre les notes modifiées avant de changer d'écran ; reste sur place en cas d'échec
+  const leave = async (navigate: () => void) => {
+    if (savingRef.current) {
+      setPendingLeave(() => navigate);
+      return;
+    }
+    setPendingLeave(null);
+    if (await persistGrades()) navigate();
+  };
+
+  useEffect(() => {
+    if (pendingLeave && !isSaving) leave(pendingLeave);
+  }, [pendingLeave, isSaving]);
+
+  useEffect(() => {
+    if (exportError) {
+      const timer = setTimeout(() => setExportError(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [exportError]);
+
+  // Export de la classe affichée ; l'écran des résultats exporte toute l'évaluation
+  const handleExport = async (format: GradeExportFormat) => {
+    const currentClass = classes.find(c => c.id === classId);
+    if (!currentClass) return;
+    setExportingFormat(format);
+    try {
+      await exportGrades(evaluation, [currentClass], Array.from(grades.values()), format);
+    } catch (error) {
+      console.error("Error exporting grades:", error);
+      setExportError("L'export des notes a échoué.");
+    }
+    setExportingFormat(null);
+  };
+
+  const updateGrade = (studentId: string, changes: (grade: StudentGrade) => StudentGrade) => {
+    setGrades(prev => {
+      const current = prev.get(studentId) || {
+        id: crypto.randomUUID(),
+        evaluation_id: evaluation.id,
+        student_id: studentId,
+        status: 'present' as GradeStatus,
+        scores: {}
+      };
+      return new Map(prev).set(studentId, changes(current));
+    });
+    setDirtyIds(prev => new Set(prev).add(studentId));
+  };
+
+  const setScore = (studentId: string, questionId: string, max: number, value: string) => {
+    updateGrade(studentId, grade => {
+      const scores = { ...grade.scores };
+      if (value === '') delete scores[questionId];
+      else scores[questionId] = clampScore(parseFloat(value) || 0, max);
+      return { ...grade, scores };
+    });
+  };
+
+  // Entrée : même question, élève suivant (correction copie par copie ou question par question)
+  const handleCellKey = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const next = tableRef.current?.querySelector<HTMLInputElement>(`[data-cell="${row + (e.shiftKey ? -1 : 1)}-${col}"]`);
+    next?.focus();
+    next?.select();
+  };
+
+  if (loading) return <div className="p-20 text-center font-bold text-slate-400">Chargement des notes...</div>;
+
+  const currentClass = classes.find(c => c.id === classId);
+
+  return (
+    <div className="max-w-[1600px] mx-auto p-4 md:p-8 animate-fade-in">
+      {exportError && (
+        <div className="fixed top-8 left-1/2 -translate-x-1/2 z-[100] px-8 py-4 rounded-3xl shadow-2xl flex items-center gap-4 text-white font-bold transition-all animate-fade-in bg-rose-600">
+          <AlertCircle size={22} />
+          <span>{exportError}</span>
+          <button onClick={() => setExportError(null)} className="ml-2 hover:opacity-80"><X size={18}/></button>
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+        <div className="flex items-center gap-4">
+          <button onClick={() => leave(onBack)} disabled={pendingLeave !== null} className="p-2 text-slate-400 hover:text-slate-800 hover:bg-slate-100 rounded-xl transition-colors" title="Retour">
+            {pendingLeave ? <Loader2 size={22} className="animate-spin" /> : <ArrowLeft size={22} />}
+          </button>
+          <div>
+            <div className="flex items-center gap-2 text-[10px] font-black text-indigo-500 uppercase tracking-[0.2em]">
+              <ClipboardCheck size={12} /> Saisie des notes
+            </div>
+            <h2 className="text-2xl font-black text-slate-900 leading-tight">{evaluation.title}</h2>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-xs font-bold text-slate-400 flex items-center gap-1.5">
+            {isSaving || pendingLeave ? <><Loader2 size={14} className="animate-spin" /> Enregistrement…</>
+              : saveError ? <><AlertCircle size={14} className="text-rose-500" /> <span className="text-rose-600">Échec de l'enregistrement</span></>
+              : dirtyIds.size > 0 ? 'Modifié'
+              : <><CheckCircle size={14} className="text-emerald-500" /> Enregistré</>}
+          </span>
+          <select
+            value={classId}
+            onChange={(e) => setClassId(e.target.value)}
+            className="p-2 bg-white border border-slate-200 rounded-xl outline-none font-bold text-slate-700 text-sm"
+          >
+            {classes.length === 0 && <option value="">Aucune classe</option>}
+            {classes.map(c => (
+              <option key={c.id} value={c.id}>{c.name} ({c.students.length})</option>
+            ))}
+          </select>
+          {(['csv', 'ods'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={!currentClass || currentClass.students.length === 0 || exportingFormat !== null}
+              className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all uppercase tracking-wider disabled:opacity-50 disabled:cursor-not-allowed"
+              title={format === 'csv' ? 'Exporter les notes de la classe (CSV)' : 'Exporter les notes de la classe (LibreOffice)'}
+            >
+              {exportingFormat === format ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />} {format}
+            </button>
+          ))}
+          <button
+            onClick={() => leave(onShowResults)}
+            disabled={pendingLeave !== null}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 font-bold shadow-lg shadow-indigo-200 transition-all text-xs uppercase tracking-wider"
+          >
+            <BarChart3 size={16} /> Résultats
+          </button>
+        </div>
+      </div>
+
+      {!currentClass || currentClass.students.length === 0 ? (
+        <div className="bg-white border border-slate-100 rounded-[32px] p-16 text-center">
+          <div className="w-16 h-16 bg-indigo-50 text-indigo-500 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Users size={28} />
+          </div>
+          <p className="text-slate-500 font-medium mb-6">
+            {currentClass ? "Cette classe n'a pas encore d'élèves." : "Créez une classe et sa liste d'élèves pour saisir les notes."}
+          </p>
+          <button onClick={() => leave(onManageClasses)} disabled={pendingLeave !== null} className="px-6 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200 transition-all">
+            Gérer les classes
+          </button>
+        </div>
+      ) : questions.length === 0 ? (
+        <div className="bg-white border border-slate-100 rounded-[32px] p-16 text-center text-slate-400 font-bold">
+          Cette évaluation ne contient aucune question.
+        </div>
+      ) : (
+        <div className="bg-white border border-slate-200 rounded-2xl shadow-sm overflow-auto max-h-[calc(100vh-180px)]">
+          <table ref={tableRef} className="border-collapse text-sm w-full">
+            <thead className="sticky top-0 z-10 bg-slate-50">
+              <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                <th className="sticky left-0 bg-slate-50 z-20" colSpan={2}></th>
+                {sectionGroups.filter(g => g.questions.length > 0).map(({ section, questions: sectionQuestions }) => (
+                  <th key={section.id} colSpan={sectionQuestions.length} className="px-2 pt-2 text-left border-l border-slate-200 truncate max-w-0" title={section.title}>
+                    {section.title}{section.points_cap != null && ` (max ${section.points_cap})`}
+                  </th>
+                ))}
+                <th colSpan={2}></th>
+              </tr>
+              <tr className="border-b border-slate-200">
+                <th className="sticky left-0 bg-slate-50 z-20 text-left px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 min-w-[200px]">Élève</th>
+                <th className="px-2 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500">Statut</th>
+                {questions.map(q => (
+                  <th key={q.id} className="px-1 py-2 text-center border-l border-slate-100 min-w-[56px]" title={q.question_text}>
+                    <div className="text-xs font-black text-indigo-600">{questionNumbers.get(q.id)}</div>
+                    <div className="text-[9px] font-bold text-slate-400">{q.is_bonus ? 'bonus ' : ''}/ {q.points || 0}</div>
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 border-l border-slate-200 whitespace-nowrap">Total / {maxTotal}</th>
+                <th className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 border-l border-slate-200 whitespace-nowrap">Note / {formatPoints(scaleTotal)}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {currentClass.students.map((student, row) => {
+                const grade = grades.get(student.id);
+                const status = grade?.status || 'present';
+                const total = getGradeTotal(evaluation, grade);
+                const hasScores = !!grade && Object.keys(grade.scores).length > 0;
+                return (
+                  <tr key={student.id} className={`border-b border-slate-100 hover:bg-indigo-50/30 ${status !== 'present' ? 'bg-slate-50/80' : ''}`}>
+                    <td className="sticky left-0 bg-white px-4 py-1.5 font-bold text-slate-700 whitespace-nowrap">{formatStudentName(student)}</td>
+                    <td className="px-2 py-1.5">
+                      <select
+                        value={status}
+                        onChange={(e) => updateGrade(student.id, g => ({ ...g, status: e.target.value as GradeStatus }))}
+                        className={`p-1 rounded-lg border outline-none text-xs font-bold ${status === 'present' ? 'bg-white border-slate-200 text-slate-600' : 'bg-amber-50 border-amber-200 text-amber-700'}`}
+                      >
+                        {(Object.keys(GRADE_STATUS_LABELS) as GradeStatus[]).map(s => (
+                          <option key={s} value={s}>{GRADE_STATUS_LABELS[s]}</option>
+                        ))}
+                      </select>
+                    </td>
+                    {questions.map((q, col) => (
+                      <td key={q.id} className="px-1 py-1 border-l border-slate-100 text-center">
+                        <input
+                          type="number"
+                          min="0"
+                          max={q.points || 0}
+                          step="0.25"
+                          data-cell={`${row}-${col}`}
+                          disabled={status !== 'present'}
+                          value={grade?.scores[q.id] ?? ''}
+                          onChange={(e) => setScore(student.id, q.id, q.points || 0, e.target.value)}
+                          onKeyDown={(e) => handleCellKey(e, row, col)}
+                          onFocus={(e) => e.target.select()}
+                          className="w-14 p-1 text-center font-bold text-slate-700 bg-slate-50 border border-transparent rounded-lg outline-none focus:bg-white focus:border-indigo-300 focus:ring-2 focus:ring-indigo-100 disabled:opacity-30 transition-all"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-4 py-1.5 border-l border-slate-200 text-right font-black whitespace-nowrap">
+                      {status !== 'present'
+                        ? <span className="text-amber-600 text-xs">{STATUS_SHORT_LABELS[status]}</span>
+                        : hasScores
+                          ? <span className="text-slate-900">{total}</span>
+                          : <span className="text-slate-300">–</span>}
+                    </td>
+                    <td className="px-4 py-1.5 border-l border-slate-200 text-right font-black whitespace-nowrap">
+                      {status === 'present' && hasScores && total !== null
+                        ? <span className="text-indigo-700">{formatPoints(scaleGrade(evaluation, total) ?? 0)}</span>
+                        : <span className="text-slate-300">–</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GradingScreen;
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { DocumentHeader, DocumentHeaderOverrides } from '../types';
+import { ALLOWED_MATERIALS_SUGGESTIONS, HEADER_FIELD_LABELS, resolveDocumentHeader } from '../services/documentHeader';
+import { uploadImage } from '../services/imageService';
+import DocumentHeaderBlock from './DocumentHeaderBlock';
+import { X, FileText, ImagePlus, Loader2, Save, AlertTriangle } from 'lucide-react';
+
+interface HeaderDesignerDialogProps {
+  title: string;
+  description: string;
+  value: DocumentHeaderOverrides;
+  inherited: DocumentHeader; // Valeurs du niveau précédent, appliquées aux champs non personnalisés
+  inheritedFrom: string | null; // "la matière"... ; null pour les réglages de l'enseignant, où tout est modifiable
+  previewTitle?: string;
+  previewColor?: string;
+  onSave: (header: DocumentHeaderOverrides) => Promise<void>;
+  onCancel: () => void;
+}
+
+type TextField = Exclude<keyof DocumentHeader, 'logo_url' | 'show_student_name'>;
+
+const TEXT_FIELD_PLACEHOLDERS: Record<TextField, string> = {
+  school_name: 'Ex: Collège Jean Moulin',
+  class_name: "Vide : à compléter par l'élève",
+  date: "Vide : à compléter par l'élève",
+  duration: 'Ex: 1 h',
+  allowed_materials: 'Ex: Calculatrice autorisée',
+  instructions: 'Ex: Le soin et la rédaction sont pris en compte.'
+};
+
+const HeaderDesignerDialog: React.FC<HeaderDesignerDialogProps> = ({
+  title, description, value, inherited, inheritedFrom, previewTitle = "Titre de l'évaluation", previewColor = '#3b82f6', onSave, onCancel
+}) => {
+  const [draft, setDraft] = useState<DocumentHeaderOverrides>(value);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const header = resolveDocumentHeader(inherited, draft);
+  const isCustom = (key: keyof DocumentHeader) => inheritedFrom === null || draft[key] !== undefined;
+
+  const setField = <K extends keyof DocumentHeader>(key: K, fieldValue: DocumentHeader[K]) =>
+    setDraft(prev => ({ ...prev, [key]: fieldValue }));
+
+  const inheritField = (key: keyof DocumentHeader) =>
+    setDraft(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setUploading(true);
+    try {
+      setField('logo_url', await uploadImage(file));
+    } catch (error) {
+      console.error("Error uploading logo:", error);
+      setErrorMsg("Impossible d'importer cette image.");
+    }
+    setUploading(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrorMsg(null);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error("Error saving header:", error);
+      setErrorMsg("Une erreur est survenue lors de la sauvegarde.");
+      setSaving(false);
+    }
+  };
+
+  // Libellé du champ et bascule entre la valeur reprise et une valeur propre à ce niveau
+  const renderLabel = (key: keyof DocumentHeader) => (
+    <div className="flex items-center justify-between mb-1 ml-1">
+      <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{HEADER_FIELD_LABELS[key]}</label>
+      {inheritedFrom !== null && (
+        isCustom(key) ? (
+          <button onClick={() => inheritField(key)} className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 transition-colors">
+            Reprendre {inheritedFrom}
+          </button>
+        ) : (
+          <button onClick={() => setField(key, inherited[key])} className="text-[10px] font-bold text-indigo-500 hover:text-indigo-700 transition-colors">
+            Personnaliser
+          </button>
+        )
+      )}
+    </div>
+  );
+
+  const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm disabled:text-slate-400 disabled:bg-slate-100";
+
+  const renderTextField = (key: TextField) => (
+    <div key={key} className={key === 'instructions' ? 'md:col-span-2' : ''}>
+      {renderLabel(key)}
+      {key === 'instructions' ? (
+        <textarea
+          rows={2}
+          value={header[key]}
+          disabled={!isCustom(key)}
+          onChange={(e) => setField(key, e.target.value)}
+          className={`${inputClass} resize-none`}
+          placeholder={TEXT_FIELD_PLACEHOLDERS[key]}
+        />
+      ) : (
+        <input
+          type="text"
+          list={key === 'allowed_materials' ? 'header-materials' : undefined}
+          value={header[key]}
+          disabled={!isCustom(key)}
+          onChange={(e) => setField(key, e.target.value)}
+          className={inputClass}
+          placeholder={TEXT_FIELD_PLACEHOLDERS[key]}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-4xl w-full max-h-[90vh] p-8 animate-fade-in relative flex flex-col">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><FileText size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">{title}</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">{description}</p>
+
+        <div className="flex-1 overflow-y-auto pr-1">
+          <div className="mb-6 p-4 bg-slate-100 rounded-2xl overflow-x-auto">
+            <div className="bg-white mx-auto p-3 shadow-sm" style={{ width: '190mm', fontFamily: 'Arial, sans-serif' }}>
+              <DocumentHeaderBlock header={header} title={previewTitle} color={previewColor} textColor="white" noteTotal="20" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderTextField('school_name')}
+            <div>
+              {renderLabel('logo_url')}
+              <div className="flex items-center gap-2">
+                <div className="w-16 h-10 flex items-center justify-center bg-slate-50 border border-slate-200 rounded-lg overflow-hidden flex-shrink-0">
+                  {header.logo_url ? <img src={header.logo_url} alt="" className="max-h-full max-w-full object-contain" /> : <span className="text-[10px] text-slate-300 font-bold">Aucun</span>}
+                </div>
+                <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoChange} />
+                <button
+                  onClick={() => logoInputRef.current?.click()}
+                  disabled={!isCustom('logo_url') || uploading}
+                  className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all disabled:opacity-50"
+                >
+                  {uploading ? <Loader2 size={14} className="animate-spin" /> : <ImagePlus size={14} />} Choisir une image
+                </button>
+                {header.logo_url && isCustom('logo_url') && (
+                  <button onClick={() => setField('logo_url', '')} className="px-3 py-2 text-xs font-bold text-slate-400 hover:text-rose-500 transition-colors">
+                    Retirer
+                  </button>
+                )}
+              </div>
+            </div>
+            {renderTextField('class_name')}
+            {renderTextField('date')}
+            {renderTextField('duration')}
+            {renderTextField('allowed_materials')}
+            {renderTextField('instructions')}
+            <div className="md:col-span-2">
+              {renderLabel('show_student_name')}
+              <label className={`flex items-center gap-2 text-sm font-bold ${isCustom('show_student_name') ? 'text-slate-600 cursor-pointer' : 'text-slate-400'}`}>
+                <input
+                  type="checkbox"
+                  checked={header.show_student_name}
+                  disabled={!isCustom('show_student_name')}
+                  onChange={(e) => setField('show_student_name', e.target.checked)}
+                  className="w-4 h-4 accent-indigo-600"
+                />
+                Afficher les lignes Nom et Prénom à compléter par l'élève
+              </label>
+            </div>
+          </div>
+          <datalist id="header-materials">
+            {ALLOWED_MATERIALS_SUGGESTIONS.map(suggestion => <option key={suggestion} value={suggestion} />)}
+          </datalist>
+        </div>
+
+        {errorMsg && (
+          <p className="mt-4 flex items-center gap-2 text-sm font-bold text-rose-600"><AlertTriangle size={16} /> {errorMsg}</p>
+        )}
+
+        <div className="flex gap-4 mt-6">
+          <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || uploading}
+            className="flex-1 flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <Loader2 size={18} className="animate-spin" /> : <Save size={18} />} Enregistrer l'en-tête
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HeaderDesignerDialog;
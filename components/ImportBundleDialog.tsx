@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { Category, Evaluation, EvaluationBundle } from '../types';
+import { BundleImportOptions, BundleImportReport, detectConflicts, importBundle, parseBundle } from '../services/bundle';
+import { X, Upload, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+
+interface ImportBundleDialogProps {
+  categories: Category[];
+  evaluations: Evaluation[];
+  onImported: () => void;
+  onClose: () => void;
+}
+
+const ImportBundleDialog: React.FC<ImportBundleDialogProps> = ({ categories, evaluations, onImported, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bundle, setBundle] = useState<EvaluationBundle | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [options, setOptions] = useState<BundleImportOptions>({ categoryConflict: 'merge', evaluationConflict: 'copy' });
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<BundleImportReport | null>(null);
+
+  const conflicts = bundle ? detectConflicts(bundle, categories, evaluations) : null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setErrorMsg(null);
+    setReport(null);
+    setFileName(file.name);
+    try {
+      setBundle(parseBundle(await file.text()));
+    } catch (error: any) {
+      setBundle(null);
+      setErrorMsg(error.message);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!bundle) return;
+    setImporting(true);
+    setErrorMsg(null);
+    try {
+      setReport(await importBundle(bundle, options));
+      onImported();
+    } catch (error) {
+      console.error("Error importing bundle:", error);
+      setErrorMsg("L'import a échoué. Les éléments déjà importés ont été conservés.");
+    }
+    setImporting(false);
+  };
+
+  const radioClass = (active: boolean) => `flex-1 px-3 py-2 rounded-xl text-xs font-bold border-2 transition-all ${active ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-500 hover:border-slate-200'}`;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-lg w-full p-8 animate-fade-in relative">
+        <button onClick={onClose} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Upload size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Importer une sauvegarde</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">Fichier JSON exporté depuis l'application (évaluation, matière ou espace complet).</p>
+
+        <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full p-4 border-2 border-dashed border-slate-200 rounded-2xl text-sm font-bold text-slate-500 hover:border-indigo-300 hover:text-indigo-600 transition-all"
+        >
+          {fileName || 'Choisir un fichier...'}
+        </button>
+
+        {errorMsg && (
+          <div className="mt-4 p-3 bg-rose-50 border border-rose-100 rounded-xl flex items-center gap-3 text-rose-700 text-sm font-semibold">
+            <AlertTriangle size={18} className="shrink-0" /> {errorMsg}
+          </div>
+        )}
+
+        {bundle && conflicts && !report && (
+          <div className="mt-6 space-y-4">
+            <div className="p-4 bg-slate-50 rounded-2xl text-sm text-slate-600">
+              <strong>{bundle.evaluations.length}</strong> évaluation(s) et <strong>{bundle.categories.length}</strong> matière(s),
+              exportées le {new Date(bundle.exported_at).toLocaleDateString('fr-FR')}.
+            </div>
+
+            {conflicts.categoryNames.length > 0 && (
+              <div>
+                <p className="text-xs font-bold text-amber-700 mb-2">
+                  Matière(s) déjà existante(s) : {conflicts.categoryNames.join(', ')}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => setOptions({ ...options, categoryConflict: 'merge' })} className={radioClass(options.categoryConflict === 'merge')}>
+                    Regrouper avec l'existante
+                  </button>
+                  <button onClick={() => setOptions({ ...options, categoryConflict: 'create' })} className={radioClass(options.categoryConflict === 'create')}>
+                    Créer une nouvelle matière
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {conflicts.evaluationTitles.length > 0 && (
+              <div>
+                <p className="text-xs font-bold text-amber-700 mb-2">
+                  Évaluation(s) déjà présente(s) : {conflicts.evaluationTitles.join(', ')}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => setOptions({ ...options, evaluationConflict: 'copy' })} className={radioClass(options.evaluationConflict === 'copy')}>
+                    Importer une copie
+                  </button>
+                  <button onClick={() => setOptions({ ...options, evaluationConflict: 'replace' })} className={radioClass(options.evaluationConflict === 'replace')}>
+                    Remplacer
+                  </button>
+                  <button onClick={() => setOptions({ ...options, evaluationConflict: 'skip' })} className={radioClass(options.evaluationConflict === 'skip')}>
+                    Ignorer
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {report && (
+          <div className="mt-6 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm text-emerald-800 space-y-1">
+            <div className="flex items-center gap-2 font-black mb-2"><CheckCircle2 size={18} /> Import terminé</div>
+            <div>{report.evaluationsCreated} évaluation(s) ajoutée(s), {report.evaluationsReplaced} remplacée(s), {report.evaluationsSkipped} ignorée(s)</div>
+            <div>{report.categoriesCreated} matière(s) créée(s), {report.categoriesMerged} regroupée(s)</div>
+          </div>
+        )}
+
+        {report && report.failures.length > 0 && (
+          <div className="mt-4 p-4 bg-rose-50 border border-rose-100 rounded-2xl text-sm text-rose-700 space-y-1">
+            <div className="flex items-center gap-2 font-black mb-2"><AlertTriangle size={18} /> {report.failures.length} évaluation(s) non importée(s)</div>
+            <ul className="max-h-32 overflow-y-auto space-y-1">
+              {report.failures.map((failure, idx) => (
+                <li key={idx}><strong>{failure.title}</strong> : {failure.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex gap-4 mt-8">
+          <button onClick={onClose} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            {report ? 'Fermer' : 'Annuler'}
+          </button>
+          {!report && (
+            <button
+              onClick={handleImport}
+              disabled={!bundle || importing}
+              className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {importing && <Loader2 size={18} className="animate-spin" />} Importer
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportBundleDialog;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Evaluation } from '../types';
+import { LmsExportReportEntry, buildMoodleXml, buildQtiPackage } from '../services/lmsExport';
+import { slugify } from '../services/pdfExport';
+import { downloadBlob } from '../services/download';
+import { X, Share2, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+
+interface LmsExportDialogProps {
+  evaluation: Evaluation;
+  onClose: () => void;
+}
+
+type LmsFormat = 'moodle' | 'qti';
+
+const FORMATS: { id: LmsFormat; label: string; description: string }[] = [
+  { id: 'moodle', label: 'Moodle XML', description: "Import dans la banque de questions Moodle (.xml)" },
+  { id: 'qti', label: 'IMS QTI 2.1', description: "Paquet standard pour les autres plateformes (.zip)" }
+];
+
+const LmsExportDialog: React.FC<LmsExportDialogProps> = ({ evaluation, onClose }) => {
+  const [exporting, setExporting] = useState<LmsFormat | null>(null);
+  const [report, setReport] = useState<LmsExportReportEntry[] | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const handleExport = async (format: LmsFormat) => {
+    setExporting(format);
+    setErrorMsg(null);
+    setReport(null);
+    try {
+      const result = format === 'moodle' ? await buildMoodleXml(evaluation) : await buildQtiPackage(evaluation);
+      downloadBlob(result.blob, `${slugify(evaluation.title)}-${format}.${format === 'moodle' ? 'xml' : 'zip'}`);
+      setReport(result.report);
+    } catch (error) {
+      console.error("Error exporting to LMS:", error);
+      setErrorMsg("L'export a échoué.");
+    }
+    setExporting(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-8 animate-fade-in relative">
+        <button onClick={onClose} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Share2 size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Export plateforme</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">
+          Les sections deviennent des catégories, les points la note par défaut et le corrigé le feedback.
+        </p>
+
+        <div className="space-y-3">
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format.id)}
+              disabled={!!exporting}
+              className="w-full flex items-center justify-between gap-4 p-4 border-2 border-slate-100 rounded-2xl hover:border-indigo-500 hover:bg-indigo-50 transition-all text-left disabled:opacity-50"
+            >
+              <div>
+                <div className="font-bold text-slate-900">{format.label}</div>
+                <div className="text-xs text-slate-500">{format.description}</div>
+              </div>
+              {exporting === format.id && <Loader2 size={18} className="animate-spin text-indigo-600" />}
+            </button>
+          ))}
+        </div>
+
+        {errorMsg && (
+          <div className="mt-4 p-3 bg-rose-50 border border-rose-100 rounded-xl flex items-center gap-3 text-rose-700 text-sm font-semibold">
+            <AlertTriangle size={18} className="shrink-0" /> {errorMsg}
+          </div>
+        )}
+
+        {report && (report.length === 0 ? (
+          <div className="mt-6 p-4 bg-emerald-50 border border-emerald-100 rounded-2xl text-sm text-emerald-800 flex items-center gap-2 font-bold">
+            <CheckCircle2 size={18} /> Export complet, aucune perte.
+          </div>
+        ) : (
+          <div className="mt-6 p-4 bg-amber-50 border border-amber-100 rounded-2xl text-xs text-amber-800 space-y-1">
+            <div className="flex items-center gap-2 font-black mb-2 text-sm"><AlertTriangle size={16} /> Rapport d'export</div>
+            {report.map((entry, i) => (
+              <div key={i}>
+                {entry.question !== null && <span className="font-bold">Question {entry.question} : </span>}
+                {entry.message}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LmsExportDialog;
@@ -1,16 +1,31 @@
 
-import React, { useState, useEffect, useRef, useLayoutEffect } from 'react';
-import { Evaluation, Category, Question } from '../types';
-import { ArrowLeft, Printer } from 'lucide-react';
+import React, { useState, useEffect, useRef, useLayoutEffect, useMemo } from 'react';
+import { Evaluation, Category, Competency, DocumentHeaderOverrides, Question, Section } from '../types';
+import { parseCloze, getMatchingRightColumn } from '../services/questionTypes';
+import { buildVariant, getVariantCount, getVariantLabel } from '../services/variants';
+import { getBonusPoints, getQuestionNumbers, getSectionPoints, groupQuestionsBySection, sectionMetaLabel } from '../services/sections';
+import { describeGradingScale, formatPoints, getScaleTotal, questionPointsLabel } from '../services/gradingScale';
+import { exportPagesToPdf, buildExportFileName } from '../services/pdfExport';
+import { buildDocumentModel } from '../services/documentModel';
+import { buildDocx } from '../services/docxExport';
+import { buildOdt } from '../services/odtExport';
+import { downloadBlob } from '../services/download';
+import { COMPETENCY_LEVELS, COMPETENCY_LEVEL_LABELS, getEvaluationCompetencies } from '../services/competencies';
+import { getEvaluationHeader } from '../services/documentHeader';
+import A4PageStyles from './A4PageStyles';
+import DocumentHeaderBlock from './DocumentHeaderBlock';
+import { ArrowLeft, Printer, Download, Loader2, FileText, AlertCircle, X } from 'lucide-react';
 
 interface PdfPreviewProps {
   evaluation: Evaluation;
   category?: Category;
+  competencies?: Competency[];
+  headerDefaults?: DocumentHeaderOverrides; // En-tête par défaut de l'enseignant
   mode: 'student' | 'teacher';
   onClose: () => void;
 }
 
-type PageItemType = 'section' | 'question';
+type PageItemType = 'header' | 'section' | 'question' | 'competencies';
 
 interface PageItem {
   type: PageItemType;
@@ -25,22 +40,32 @@ interface Page {
   items: PageItem[];
 }
 
-const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onClose }) => {
+// Valeur par défaut stable : un nouveau tableau à chaque rendu relancerait la pagination
+const NO_COMPETENCIES: Competency[] = [];
+
+const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation: sourceEvaluation, category, competencies = NO_COMPETENCIES, headerDefaults, mode, onClose }) => {
   const categoryColor = category?.color || '#3b82f6';
+  const variantCount = getVariantCount(sourceEvaluation);
+  const [variantIndex, setVariantIndex] = useState(0);
+  // Sujet affiché : l'évaluation elle-même, ou la variante mélangée (A, B...) avec son propre corrigé
+  const evaluation = useMemo(() => buildVariant(sourceEvaluation, variantIndex), [sourceEvaluation, variantIndex]);
+  const variantLabel = variantCount > 1 ? getVariantLabel(variantIndex) : null;
   const [pages, setPages] = useState<Page[]>([]);
   const [isMeasuring, setIsMeasuring] = useState(true);
   const measureContainerRef = useRef<HTMLDivElement>(null);
+  const pagesContainerRef = useRef<HTMLDivElement>(null);
+  const [exportingFormat, setExportingFormat] = useState<'pdf' | 'docx' | 'odt' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   // --- CONSTANTES DE DIMENSIONS ---
   const PAGE_HEIGHT = 1123; // A4 à 96 DPI
   const PAGE_PADDING_PX = 38; // 10mm
   const FOOTER_HEIGHT = 28; // ~7.5mm compact footer
-  const HEADER_HEIGHT_P1 = 205; // En-tête page 1 compacté
+  const HEADER_MARGIN = 16; // mb-4 sous l'en-tête de la page 1
   
   // Buffer de sécurité minimal
   const SAFETY_BUFFER = 5; 
 
-  const CONTENT_HEIGHT_P1 = PAGE_HEIGHT - (PAGE_PADDING_PX * 2) - HEADER_HEIGHT_P1 - FOOTER_HEIGHT - SAFETY_BUFFER;
   const CONTENT_HEIGHT_PN = PAGE_HEIGHT - (PAGE_PADDING_PX * 2) - FOOTER_HEIGHT - SAFETY_BUFFER;
 
   const contentStyle = {
@@ -63,16 +88,58 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
     }
   };
 
-  const sections: string[] = Array.from(new Set(evaluation.questions.map(q => q.section_name || 'Autre')));
+  // Export direct en PDF vectoriel, indépendant des réglages d'impression du navigateur
+  const handleDownloadPdf = async () => {
+    if (!pagesContainerRef.current) return;
+    setExportingFormat('pdf');
+    try {
+      const pageElements = Array.from<HTMLElement>(pagesContainerRef.current.querySelectorAll('.a4-page'));
+      const skippedImages = await exportPagesToPdf(pageElements, buildExportFileName(evaluation.title, mode, 'pdf', variantLabel));
+      if (skippedImages > 0) {
+        setExportError(skippedImages === 1
+          ? "Le PDF a été créé, mais une image n'a pas pu être intégrée."
+          : `Le PDF a été créé, mais ${skippedImages} images n'ont pas pu être intégrées.`);
+      }
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      setExportError("L'export PDF a échoué.");
+    }
+    setExportingFormat(null);
+  };
 
-  const getSectionPoints = (sectionName: string) => {
-    return evaluation.questions
-      .filter(q => (q.section_name || 'Autre') === sectionName)
-      .reduce((acc, curr) => acc + (curr.points || 0), 0);
+  // Export éditable (Word / LibreOffice) construit à partir des questions, pas de la mise en page
+  const handleDownloadDocument = async (format: 'docx' | 'odt') => {
+    setExportingFormat(format);
+    try {
+      const model = buildDocumentModel(evaluation, category, mode, header, variantLabel);
+      const blob = format === 'docx' ? await buildDocx(model) : await buildOdt(model);
+      downloadBlob(blob, buildExportFileName(evaluation.title, mode, format, variantLabel));
+    } catch (error) {
+      console.error("Error exporting document:", error);
+      setExportError("L'export du document a échoué.");
+    }
+    setExportingFormat(null);
   };
 
+  const sectionGroups = useMemo(() => groupQuestionsBySection(evaluation), [evaluation]);
+  const header = useMemo(
+    () => getEvaluationHeader(headerDefaults, category, sourceEvaluation),
+    [headerDefaults, category, sourceEvaluation]
+  );
+  const sectionBonus = useMemo(
+    () => new Map(sectionGroups.map(({ section, questions }) => [section.id, getBonusPoints(questions)])),
+    [sectionGroups]
+  );
+  const questionNumbers = useMemo(() => getQuestionNumbers(evaluation), [evaluation]);
+  // Grille de positionnement en fin de copie élève, si l'évaluation la demande
+  const gridCompetencies = useMemo(
+    () => mode === 'student' && evaluation.competency_grid ? getEvaluationCompetencies(evaluation, competencies) : [],
+    [evaluation, competencies, mode]
+  );
+
   useLayoutEffect(() => {
     if (!measureContainerRef.current) return;
+    setIsMeasuring(true);
 
     const timer = setTimeout(() => {
       const computedPages: Page[] = [];
@@ -80,12 +147,15 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
       let currentHeight = 0;
       let pageIndex = 1;
       
-      let maxPageHeight = CONTENT_HEIGHT_P1;
+      // La hauteur réelle de l'en-tête (logo, consignes...) détermine la place restante sur la page 1
+      const headerEl = measureContainerRef.current!.querySelector<HTMLElement>('[data-type="header"]');
+      let maxPageHeight = PAGE_HEIGHT - (PAGE_PADDING_PX * 2) - (headerEl?.offsetHeight || 0) - HEADER_MARGIN - FOOTER_HEIGHT - SAFETY_BUFFER;
       const elements = Array.from(measureContainerRef.current!.children) as HTMLElement[];
       
       for (let i = 0; i < elements.length; i++) {
         const el = elements[i];
         const type = el.dataset.type as PageItemType;
+        if (type === 'header') continue;
         
         let itemHeight = 0;
         let dottedH = 0;
@@ -93,9 +163,11 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
         let itemPoints = 0;
 
         if (type === 'section') {
-          itemData = el.dataset.title;
+          itemData = sectionGroups.find(g => g.section.id === el.dataset.id)?.section;
           itemPoints = parseFloat(el.dataset.points || '0');
           itemHeight = el.offsetHeight + 12; // mb-3
+        } else if (type === 'competencies') {
+          itemHeight = el.offsetHeight + 12; // mb-3
         } else {
           const qId = el.dataset.id;
           itemData = evaluation.questions.find(q => q.id === qId);
@@ -135,22 +207,185 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
     }, 500);
 
     return () => clearTimeout(timer);
-  }, [evaluation, mode]);
+  }, [evaluation, mode, gridCompetencies, header]);
 
-  const renderRealQuestion = (q: Question, dottedHeight?: number, points?: number) => {
+  useEffect(() => {
+    if (exportError) {
+      const timer = setTimeout(() => setExportError(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [exportError]);
+
+  const letter = (index: number) => String.fromCharCode(65 + index);
+
+  // En-tête de la page 1, identique dans le conteneur de mesure et sur la page
+  const renderHeader = () => (
+    <DocumentHeaderBlock
+      header={header}
+      title={evaluation.title}
+      subtitle={variantLabel && (mode === 'teacher' ? `Corrigé — ${variantLabel}` : variantLabel)}
+      color={categoryColor}
+      textColor={getContrastColor(categoryColor)}
+      noteTotal={formatPoints(getScaleTotal(evaluation))}
+      noteDetail={mode === 'teacher' ? describeGradingScale(evaluation) : undefined}
+    />
+  );
+
+  // En-tête de section, identique dans le conteneur de mesure et sur les pages
+  const renderSectionHeader = (section: Section, points: number) => (
+    <>
+      <div className="pb-1 border-b-2 flex justify-between items-end" style={{ borderColor: '#dc2626' }}>
+        <h3 className="font-bold text-lg uppercase tracking-wider" style={{ color: '#dc2626' }}>{section.title}</h3>
+        <span className="font-bold text-sm mb-1 whitespace-nowrap" style={{ color: '#dc2626' }}>{sectionMetaLabel(section, points, sectionBonus.get(section.id))}</span>
+      </div>
+      {section.instructions && (
+        <p className="mt-2 italic text-slate-700 whitespace-pre-line" style={contentStyle}>{section.instructions}</p>
+      )}
+    </>
+  );
+
+  const renderCompetencyGrid = () => (
+    <table className="w-full border-collapse border-2 border-black text-sm" style={{ fontFamily: contentStyle.fontFamily }}>
+      <thead>
+        <tr>
+          <th className="border border-black px-2 py-1.5 text-left text-xs uppercase tracking-wider">Compétences évaluées</th>
+          {COMPETENCY_LEVELS.map(level => (
+            <th key={level} className="border border-black px-1 py-1.5 w-20 text-center text-[10px] uppercase">{COMPETENCY_LEVEL_LABELS[level]}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {gridCompetencies.map(c => (
+          <tr key={c.id}>
+            <td className="border border-black px-2 py-1.5">{c.code && <span className="font-bold mr-1">{c.code}</span>}{c.label}</td>
+            {COMPETENCY_LEVELS.map(level => <td key={level} className="border border-black"></td>)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  const renderQuestionText = (q: Question) => (
+    <>
+      <span className="mr-1">{questionNumbers.get(q.id)}.</span>{q.question_text}
+    </>
+  );
+
+  const renderCheckbox = (checked: boolean) => (
+    <span
+      className={`inline-flex w-4 h-4 border-2 flex-shrink-0 items-center justify-center text-[10px] leading-none ${checked ? 'border-green-600 bg-green-600 text-white' : 'border-black'}`}
+    >
+      {checked ? '✓' : ''}
+    </span>
+  );
+
+  // QCM : cases vides pour l'élève, bonnes réponses surlignées pour le professeur
+  const renderQcmOptions = (q: Question) => (
+    <div className="flex flex-col gap-1" style={contentStyle}>
+      {q.options.map((opt, i) => {
+        const highlighted = mode === 'teacher' && opt.is_correct;
+        return (
+          <div key={opt.id} className={`flex items-start gap-3 px-2 py-0.5 rounded ${highlighted ? 'bg-green-100 text-green-900 font-bold' : ''}`}>
+            <span className="mt-1 flex">{renderCheckbox(highlighted)}</span>
+            <span>{letter(i)}. {opt.text}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderTrueFalse = (q: Question) => (
+    <table className="w-full border-collapse" style={contentStyle}>
+      <thead>
+        <tr className="text-sm">
+          <th></th>
+          <th className="w-16 text-center font-bold">Vrai</th>
+          <th className="w-16 text-center font-bold">Faux</th>
+        </tr>
+      </thead>
+      <tbody>
+        {q.statements.map((st, i) => (
+          <tr key={st.id} className="border-b border-slate-300">
+            <td className="py-1 pr-2">{i + 1}. {st.text}</td>
+            <td className="text-center align-middle">{renderCheckbox(mode === 'teacher' && st.is_true)}</td>
+            <td className="text-center align-middle">{renderCheckbox(mode === 'teacher' && !st.is_true)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  // Relier : deux colonnes avec des points à joindre, la colonne de droite est mélangée
+  const renderMatching = (q: Question) => {
+    const rightColumn = getMatchingRightColumn(q.pairs);
+    return (
+      <div className="flex flex-col gap-2" style={contentStyle}>
+        {q.pairs.map((pair, i) => (
+          <div key={pair.id} className="flex items-center">
+            <div className="flex-1 flex items-center justify-end gap-2 text-right">
+              <span>{i + 1}. {pair.left}</span>
+              <span className="w-2.5 h-2.5 rounded-full bg-black flex-shrink-0"></span>
+            </div>
+            <div className="w-24 flex-shrink-0 text-center">
+              {mode === 'teacher' && (
+                <span className="px-2 py-0.5 rounded bg-green-100 text-green-900 font-bold text-sm">
+                  {i + 1} → {letter(rightColumn.findIndex(r => r.id === pair.id))}
+                </span>
+              )}
+            </div>
+            <div className="flex-1 flex items-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full bg-black flex-shrink-0"></span>
+              <span>{letter(i)}. {rightColumn[i].right}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // Texte à trous : lignes pour l'élève, mots attendus dans le corrigé
+  const renderCloze = (q: Question) => (
+    <div className="whitespace-pre-wrap" style={contentStyle}>
+      {parseCloze(q.cloze_text).map((part, i) => part.type === 'text' ? (
+        <React.Fragment key={i}>{part.value}</React.Fragment>
+      ) : mode === 'teacher' ? (
+        <span key={i} className="px-1 border-b-2 border-green-600 bg-green-50 text-green-800 font-bold">{part.answer}</span>
+      ) : (
+        <span key={i} className="inline-block border-b border-black" style={{ width: `${Math.max(8, part.answer.length + 2)}ch` }}>&nbsp;</span>
+      ))}
+    </div>
+  );
+
+  const renderStructuredAnswer = (q: Question) => (
+    <>
+      {q.question_type === 'qcm' && renderQcmOptions(q)}
+      {q.question_type === 'true_false' && renderTrueFalse(q)}
+      {q.question_type === 'matching' && renderMatching(q)}
+      {q.question_type === 'cloze' && renderCloze(q)}
+      {mode === 'teacher' && q.teacher_answer && (
+        <div className="mt-2 p-3 bg-green-50 border-l-4 border-green-500 text-green-900 editor-content rounded-r-lg"
+             style={contentStyle} dangerouslySetInnerHTML={{ __html: q.teacher_answer }} />
+      )}
+    </>
+  );
+
+  const renderRealQuestion = (q: Question, dottedHeight?: number) => {
     const numberOfLines = dottedHeight ? Math.floor(dottedHeight / 30) : 1;
+    const pointsLabel = questionPointsLabel(evaluation, q, mode === 'teacher');
     return (
     <div className="mb-3 pl-2 page-item-container">
       <div className="mb-2 text-blue-900 flex justify-between items-start gap-4">
         <div className="measure-question-text flex-grow font-bold" style={contentStyle}>
-          {q.question_text}
+          {renderQuestionText(q)}
         </div>
-        {points !== undefined && points > 0 && (
-           <div className="font-bold text-slate-400 text-sm whitespace-nowrap pt-1">/ {points}</div>
+        {pointsLabel && (
+           <div className="font-bold text-slate-400 text-sm whitespace-nowrap pt-1">{pointsLabel}</div>
         )}
       </div>
       <div className="pl-2">
-        {mode === 'teacher' ? (
+        {q.question_type !== 'open' ? (
+          renderStructuredAnswer(q)
+        ) : mode === 'teacher' ? (
           <div className="p-3 bg-green-50 border-l-4 border-green-500 text-green-900 editor-content rounded-r-lg"
                style={contentStyle} dangerouslySetInnerHTML={{ __html: q.teacher_answer }} />
         ) : (
@@ -180,17 +415,15 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
         className="absolute top-0 left-0 -z-50 opacity-0 pointer-events-none bg-white no-print"
         style={{ width: '210mm', padding: '10mm' }}
       >
-        {sections.map(section => {
-          const sectionPoints = getSectionPoints(section);
+        <div data-type="header">{renderHeader()}</div>
+        {sectionGroups.map(({ section, questions }) => {
+          const sectionPoints = getSectionPoints(section, questions);
           return (
-          <React.Fragment key={section}>
-            <div className="mb-3" data-type="section" data-title={section} data-points={sectionPoints}>
-               <div className="pb-1 border-b-2 flex justify-between items-end" style={{ borderColor: '#dc2626' }}>
-                  <h3 className="font-bold text-lg uppercase tracking-wider" style={{ color: '#dc2626' }}>{section}</h3>
-                  <span className="font-bold text-sm mb-1" style={{ color: '#dc2626' }}>({sectionPoints} pts)</span>
-                </div>
+          <React.Fragment key={section.id}>
+            <div className="mb-3" data-type="section" data-id={section.id} data-points={sectionPoints}>
+              {renderSectionHeader(section, sectionPoints)}
             </div>
-            {evaluation.questions.filter(q => (q.section_name || 'Autre') === section).map(q => {
+            {questions.map(q => {
                // Calcul du nombre de lignes pour le mode élève sans prompt
                const tempDiv = document.createElement('div');
                tempDiv.style.width = '190mm'; // Largeur estimée contenu
@@ -204,13 +437,22 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
                // On ajoute la ligne supplémentaire (+ 1) comme demandé pour le confort d'écriture
                const lines = Math.max(1, Math.ceil(h / 30) + 1);
                const dottedH = lines * 30;
+               // Même libellé que le rendu final : il réduit la largeur de l'énoncé
+               const pointsLabel = questionPointsLabel(evaluation, q, mode === 'teacher');
 
                return (
                 <div key={q.id} data-type="question" data-id={q.id} data-points={q.points}>
                   <div className="mb-3 pl-2">
-                    <div className="mb-2 text-blue-900 font-bold measure-question-text" style={contentStyle}>{q.question_text}</div>
+                    <div className="mb-2 text-blue-900 flex justify-between items-start gap-4">
+                      <div className="measure-question-text flex-grow font-bold" style={contentStyle}>{renderQuestionText(q)}</div>
+                      {pointsLabel && (
+                        <div className="font-bold text-slate-400 text-sm whitespace-nowrap pt-1">{pointsLabel}</div>
+                      )}
+                    </div>
                     <div className="pl-2">
-                      {mode === 'teacher' ? (
+                      {q.question_type !== 'open' ? (
+                        renderStructuredAnswer(q)
+                      ) : mode === 'teacher' ? (
                         <div className="p-3 bg-green-50 border-l-4 border-green-500 text-green-900 editor-content rounded-r-lg"
                              style={contentStyle} dangerouslySetInnerHTML={{ __html: q.teacher_answer }} />
                       ) : (
@@ -231,8 +473,21 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
             })}
           </React.Fragment>
         )})}
+        {gridCompetencies.length > 0 && (
+          <div className="mb-3" data-type="competencies">
+            {renderCompetencyGrid()}
+          </div>
+        )}
       </div>
 
+      {exportError && (
+        <div className="fixed top-8 left-1/2 -translate-x-1/2 z-[100] px-8 py-4 rounded-3xl shadow-2xl flex items-center gap-4 text-white font-bold transition-all animate-fade-in bg-rose-600 no-print">
+          <AlertCircle size={22} />
+          <span>{exportError}</span>
+          <button onClick={() => setExportError(null)} className="ml-2 hover:opacity-80"><X size={18}/></button>
+        </div>
+      )}
+
       {/* Toolbar */}
       <div className="w-full bg-white p-4 shadow-md sticky top-0 z-[60] flex justify-between items-center no-print">
         <div className="flex items-center gap-4">
@@ -242,39 +497,59 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
           <h2 className="font-black text-lg text-slate-800">
             {isMeasuring ? 'Mise en page...' : mode === 'teacher' ? 'Version Professeur' : 'Version Élève'}
           </h2>
+          {variantCount > 1 && (
+            <div className="flex bg-slate-100 rounded-xl p-1 gap-1">
+              {Array.from({ length: variantCount }).map((_, i) => (
+                <button
+                  key={i}
+                  onClick={() => setVariantIndex(i)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${variantIndex === i ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+                >
+                  {getVariantLabel(i)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {(['docx', 'odt'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownloadDocument(format)}
+              disabled={!!exportingFormat}
+              title={format === 'docx' ? 'Télécharger au format Word' : 'Télécharger au format LibreOffice'}
+              className={`bg-white border border-slate-200 hover:bg-slate-50 active:scale-95 text-slate-700 px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-sm transition-all ${exportingFormat ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+              {exportingFormat === format ? <Loader2 size={18} className="animate-spin" /> : <FileText size={18} />} {format === 'docx' ? 'Word' : 'ODT'}
+            </button>
+          ))}
+          <button
+            onClick={handleDownloadPdf}
+            disabled={isMeasuring || !!exportingFormat}
+            className={`bg-white border border-slate-200 hover:bg-slate-50 active:scale-95 text-slate-700 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-sm transition-all ${isMeasuring || exportingFormat ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            {exportingFormat === 'pdf' ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />} Télécharger le PDF
+          </button>
+          <button
+            onClick={handlePrint}
+            disabled={isMeasuring}
+            className={`bg-indigo-600 hover:bg-indigo-700 active:scale-95 text-white px-8 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-all ${isMeasuring ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            <Printer size={18} /> Imprimer
+          </button>
         </div>
-        <button
-          onClick={handlePrint}
-          disabled={isMeasuring}
-          className={`bg-indigo-600 hover:bg-indigo-700 active:scale-95 text-white px-8 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-all ${isMeasuring ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
-        >
-          <Printer size={18} /> Imprimer
-        </button>
       </div>
 
       {/* Pages Render */}
-      <div className="py-8 w-full flex flex-col items-center gap-8 print-wrapper">
+      <div ref={pagesContainerRef} className="py-8 w-full flex flex-col items-center gap-8 print-wrapper">
         {!isMeasuring && pages.map((page) => (
           <div key={page.pageNumber} className="a4-page bg-white shadow-2xl relative flex flex-col overflow-hidden box-border">
             <div className="flex flex-col h-full box-border relative" style={{ padding: '10mm' }} >
               
               {/* Header P1 */}
               {page.pageNumber === 1 && (
-                <div className="mb-4" style={{ height: `${HEADER_HEIGHT_P1}px`, flexShrink: 0 }}>
-                  <div className="h-[2cm] flex border-2 border-black mb-[0.5cm] overflow-hidden">
-                    <div className="w-[20%] border-r-2 border-black flex flex-col justify-center items-center p-2">
-                      <span className="text-[10px] text-gray-500 uppercase font-bold">Date</span>
-                      <div className="text-gray-300">..../..../....</div>
-                    </div>
-                    <div className="w-[80%] flex items-center justify-center text-center px-4 font-bold text-xl uppercase tracking-wider"
-                      style={{ backgroundColor: categoryColor, color: getContrastColor(categoryColor), printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}>
-                      {evaluation.title}
-                    </div>
-                  </div>
-                  <div className="h-[3cm] flex border-2 border-black">
-                    <div className="w-[80%] border-r-2 border-black p-2 relative"><span className="text-[10px] text-gray-500 uppercase absolute top-1 left-2 font-bold">Commentaires</span></div>
-                    <div className="w-[20%] p-2 relative flex flex-col justify-end items-center"><span className="text-[10px] text-gray-500 uppercase absolute top-1 left-2 font-bold">Note</span><div className="text-3xl font-black text-slate-800">/ 20</div></div>
-                  </div>
+                <div className="mb-4" style={{ flexShrink: 0 }}>
+                  {renderHeader()}
                 </div>
               )}
 
@@ -284,13 +559,14 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
                   <div key={idx}>
                     {item.type === 'section' ? (
                       <div className="mb-3">
-                        <div className="pb-1 border-b-2 flex justify-between items-end" style={{ borderColor: '#dc2626' }}>
-                          <h3 className="font-bold text-lg uppercase tracking-wider" style={{ color: '#dc2626' }}>{item.data}</h3>
-                          <span className="font-bold text-sm mb-1" style={{ color: '#dc2626' }}>({item.points} pts)</span>
-                        </div>
+                        {renderSectionHeader(item.data, item.points || 0)}
+                      </div>
+                    ) : item.type === 'competencies' ? (
+                      <div className="mb-3 page-item-container">
+                        {renderCompetencyGrid()}
                       </div>
                     ) : (
-                      renderRealQuestion(item.data, item.dottedLinesHeight, item.points)
+                      renderRealQuestion(item.data, item.dottedLinesHeight)
                     )}
                   </div>
                 ))}
@@ -298,7 +574,9 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
 
               {/* Pied de page compact */}
               <div className="mt-auto border-t border-slate-100 flex justify-between items-center text-[9px] text-slate-400 font-medium" style={{ height: `${FOOTER_HEIGHT}px`, flexShrink: 0 }}>
-                <span className="uppercase tracking-widest truncate max-w-[75%] font-bold">{evaluation.title}</span>
+                <span className="uppercase tracking-widest truncate max-w-[75%] font-bold">
+                  {evaluation.title}{variantLabel && ` — ${variantLabel}`}
+                </span>
                 <span className="font-bold whitespace-nowrap">Page {page.pageNumber} / {pages.length}</span>
               </div>
             </div>
@@ -306,60 +584,7 @@ const PdfPreview: React.FC<PdfPreviewProps> = ({ evaluation, category, mode, onC
         ))}
       </div>
 
-      <style>{`
-        @media screen {
-          .a4-page {
-            width: 210mm;
-            height: 297mm;
-            min-height: 297mm;
-          }
-        }
-        
-        @media print {
-          @page { size: A4; margin: 0; }
-          body { 
-            background: white !important; 
-            margin: 0 !important; 
-            padding: 0 !important;
-            overflow: visible !important;
-          }
-          .no-print { display: none !important; }
-          .pdf-modal-root {
-             position: absolute !important; 
-             width: 100% !important;
-             height: auto !important;
-             overflow: visible !important;
-             z-index: 9999;
-             background: white !important;
-             top: 0 !important; left: 0 !important;
-          }
-          .print-wrapper { 
-            display: block !important; 
-            width: 100% !important; 
-            padding: 0 !important; 
-            margin: 0 !important; 
-          }
-          .a4-page {
-             margin: 0 !important; 
-             border: none !important; 
-             box-shadow: none !important;
-             width: 210mm !important; 
-             height: 297mm !important; 
-             min-height: 297mm !important;
-             max-height: 297mm !important;
-             overflow: hidden !important; 
-             break-after: page; 
-             page-break-after: always;
-             print-color-adjust: exact; 
-             -webkit-print-color-adjust: exact;
-             box-sizing: border-box !important;
-          }
-          .page-item-container {
-             page-break-inside: avoid;
-             break-inside: avoid;
-          }
-        }
-      `}</style>
+      <A4PageStyles />
     </div>
   );
 };
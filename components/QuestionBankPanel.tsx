@@ -0,0 +1,161 @@
+import React, { useState, useEffect } from 'react';
+import { BankItem, BankFilters, Category } from '../types';
+import { bankService } from '../services/questionBank';
+import { QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import { Search, X, Plus, Trash2, Library, Tag, Users } from 'lucide-react';
+
+interface QuestionBankPanelProps {
+  categories: Category[];
+  defaultCategoryId?: string;
+  onInsert: (item: BankItem) => void;
+  onClose: () => void;
+}
+
+const QuestionBankPanel: React.FC<QuestionBankPanelProps> = ({ categories, defaultCategoryId, onInsert, onClose }) => {
+  const [filters, setFilters] = useState<BankFilters>({ category_id: defaultCategoryId || '', scope: 'mine' });
+  const shared = filters.scope === 'shared';
+  const [items, setItems] = useState<BankItem[]>([]);
+  const [allItems, setAllItems] = useState<BankItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Liste complète pour proposer les niveaux et thèmes existants dans les filtres
+    bankService.searchItems({ scope: filters.scope }).then(setAllItems);
+  }, [filters.scope]);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const data = await bankService.searchItems(filters);
+      setItems(data);
+      setLoading(false);
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const levels = Array.from(new Set(allItems.map(i => i.level).filter(Boolean))).sort();
+  const themes = Array.from(new Set(allItems.map(i => i.theme).filter(Boolean))).sort();
+
+  const handleDelete = async (id: string) => {
+    try {
+      await bankService.deleteItem(id);
+      setItems(prev => prev.filter(i => i.id !== id));
+      setAllItems(prev => prev.filter(i => i.id !== id));
+    } catch (error) {
+      console.error("Error deleting bank item:", error);
+    }
+  };
+
+  const selectClass = "w-full p-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none font-bold text-slate-600 text-xs";
+
+  return (
+    <div className="fixed right-0 top-0 h-full w-full sm:w-[400px] bg-white border-l border-slate-200 shadow-2xl z-[60] flex flex-col animate-fade-in">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <div className="p-1.5 bg-indigo-50 text-indigo-600 rounded-lg"><Library size={16} /></div>
+          <h3 className="font-black text-slate-900">Banque de questions</h3>
+        </div>
+        <button onClick={onClose} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-slate-100">
+        <div className="flex p-1 bg-slate-100 rounded-lg">
+          {([['mine', 'Mes questions'], ['shared', 'Partagées par les collègues']] as ['mine' | 'shared', string][]).map(([scope, label]) => (
+            <button
+              key={scope}
+              onClick={() => setFilters({ ...filters, scope, level: '', theme: '' })}
+              className={`flex-1 py-1.5 rounded-md text-[10px] font-bold transition-all ${filters.scope === scope ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-800'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-2 focus-within:border-indigo-300 transition-colors">
+          <Search size={14} className="text-slate-400" />
+          <input
+            type="text"
+            value={filters.search || ''}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            placeholder="Rechercher un énoncé, une réponse..."
+            className="flex-grow bg-transparent py-2 outline-none text-sm font-medium text-slate-700"
+          />
+        </div>
+        <div className={`grid gap-2 ${shared ? 'grid-cols-2' : 'grid-cols-3'}`}>
+          {/* Les matières des collègues ne sont pas visibles : pas de filtre par matière sur les questions partagées */}
+          {!shared && (
+            <select className={selectClass} value={filters.category_id || ''} onChange={(e) => setFilters({ ...filters, category_id: e.target.value })}>
+              <option value="">Matières</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+          <select className={selectClass} value={filters.level || ''} onChange={(e) => setFilters({ ...filters, level: e.target.value })}>
+            <option value="">Niveaux</option>
+            {levels.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <select className={selectClass} value={filters.theme || ''} onChange={(e) => setFilters({ ...filters, theme: e.target.value })}>
+            <option value="">Thèmes</option>
+            {themes.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-2">
+        {loading ? (
+          <div className="py-12 text-center text-slate-400 font-bold text-sm">Recherche...</div>
+        ) : items.length === 0 ? (
+          <div className="py-12 text-center text-slate-300 italic text-sm">Aucune question ne correspond.</div>
+        ) : items.map(item => {
+          const category = categories.find(c => c.id === item.category_id);
+          return (
+            <div key={item.id} className="group p-3 bg-white border border-slate-200 rounded-xl hover:border-indigo-200 transition-all">
+              <div className="flex items-center gap-1.5 flex-wrap mb-1.5">
+                <span className="px-1.5 py-0.5 bg-indigo-50 text-indigo-600 rounded text-[9px] font-black uppercase tracking-widest">
+                  {QUESTION_TYPE_LABELS[item.question.question_type]}
+                </span>
+                {category && (
+                  <span className="flex items-center gap-1 text-[9px] font-bold text-slate-400">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: category.color }}></span>
+                    {category.name}
+                  </span>
+                )}
+                {[item.level, item.theme].filter(Boolean).map(tag => (
+                  <span key={tag} className="flex items-center gap-0.5 px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded text-[9px] font-bold">
+                    <Tag size={9} /> {tag}
+                  </span>
+                ))}
+                {item.is_shared && !shared && (
+                  <span className="flex items-center gap-0.5 px-1.5 py-0.5 bg-emerald-50 text-emerald-600 rounded text-[9px] font-bold" title="Visible par les collègues">
+                    <Users size={9} /> Partagée
+                  </span>
+                )}
+                <span className="ml-auto text-[10px] font-bold text-slate-400">{item.question.points} pts</span>
+              </div>
+              <p className="text-sm font-medium text-slate-700 line-clamp-3">{item.question.question_text || <span className="italic text-slate-300">Énoncé vide</span>}</p>
+              <div className="flex justify-end gap-1 mt-2">
+                {!shared && (
+                  <button
+                    onClick={() => handleDelete(item.id)}
+                    className="p-1.5 text-slate-300 hover:text-rose-500 hover:bg-rose-50 rounded-lg transition-all opacity-0 group-hover:opacity-100"
+                    title="Retirer de la banque"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onInsert(item)}
+                  className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-bold text-[10px] uppercase tracking-wider transition-all"
+                >
+                  <Plus size={12} /> Insérer
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBankPanel;
@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Category, Competency, CompetencyLevel, Evaluation, SchoolClass, StudentGrade } from '../types';
+import { formatStudentName, gradebookService } from '../services/gradebook';
+import { CompetencyResult, EvaluationResults, LOW_SUCCESS_RATE, analyzeCompetencies, analyzeEvaluation } from '../services/gradeAnalytics';
+import { COMPETENCY_LEVELS, COMPETENCY_LEVEL_COLORS, COMPETENCY_LEVEL_LABELS } from '../services/competencies';
+import { exportPagesToPdf, slugify } from '../services/pdfExport';
+import { GradeExportFormat, exportGrades } from '../services/gradebookSpreadsheets';
+import A4PageStyles from './A4PageStyles';
+import { ArrowLeft, Printer, Download, Loader2, FileSpreadsheet, AlertCircle, X } from 'lucide-react';
+
+interface ResultsAnalyticsProps {
+  evaluation: Evaluation;
+  category?: Category;
+  competencies?: Competency[];
+  onClose: () => void;
+}
+
+// Questions par page A4 après la page de synthèse
+const QUESTIONS_PER_PAGE = 24;
+const COMPETENCIES_PER_PAGE = 12; // Libellés sur deux lignes compris
+const STUDENTS_PER_PAGE = 30;
+
+const LEVEL_SHORT_LABELS: Record<CompetencyLevel, string> = { not_acquired: 'NA', in_progress: 'EC', acquired: 'A', exceeded: 'D' };
+
+const formatNumber = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+const formatRate = (rate: number) => `${Math.round(rate * 100)} %`;
+
+// Vert au-delà de 70 %, orange au-delà du seuil d'alerte, rouge en dessous
+const rateColor = (rate: number) => rate >= 0.7 ? '#16a34a' : rate >= LOW_SUCCESS_RATE ? '#f59e0b' : '#dc2626';
+
+const RateBar: React.FC<{ rate: number }> = ({ rate }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-grow h-2.5 bg-slate-100 rounded-full overflow-hidden">
+      <div className="h-full rounded-full" style={{ width: `${Math.round(rate * 100)}%`, backgroundColor: rateColor(rate), printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}></div>
+    </div>
+    <span className="w-10 text-right text-xs font-bold text-slate-600">{formatRate(rate)}</span>
+  </div>
+);
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="border border-slate-200 rounded-xl p-3">
+    <div className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</div>
+    <div className="text-2xl font-black text-slate-900 leading-tight">{value}</div>
+    {detail && <div className="text-[10px] font-bold text-slate-400">{detail}</div>}
+  </div>
+);
+
+const Histogram: React.FC<{ results: EvaluationResults; color: string }> = ({ results, color }) => {
+  const highest = Math.max(1, ...results.histogram.map(bin => bin.count));
+  return (
+    <div>
+      <div className="flex items-end gap-1.5 h-40 border-b-2 border-slate-300">
+        {results.histogram.map((bin, i) => (
+          <div key={i} className="flex-1 flex flex-col items-center justify-end h-full">
+            {bin.count > 0 && <span className="text-[10px] font-bold text-slate-600 mb-0.5">{bin.count}</span>}
+            <div className="w-full rounded-t" style={{ height: `${(bin.count / highest) * 85}%`, backgroundColor: color, printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}></div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1.5 mt-1">
+        {results.histogram.map((bin, i) => (
+          <div key={i} className="flex-1 text-center text-[9px] font-bold text-slate-400">
+            {formatNumber(bin.from)}–{formatNumber(bin.to)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const LevelBadge: React.FC<{ level: CompetencyLevel }> = ({ level }) => (
+  <span
+    className="inline-block min-w-[2rem] px-1.5 py-0.5 rounded text-[10px] font-black text-white text-center"
+    style={{ backgroundColor: COMPETENCY_LEVEL_COLORS[level], printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+    title={COMPETENCY_LEVEL_LABELS[level]}
+  >
+    {LEVEL_SHORT_LABELS[level]}
+  </span>
+);
+
+// Valeur par défaut stable : un nouveau tableau à chaque rendu recalculerait les résultats par compétence
+const NO_COMPETENCIES: Competency[] = [];
+
+const ResultsAnalytics: React.FC<ResultsAnalyticsProps> = ({ evaluation, category, competencies = NO_COMPETENCIES, onClose }) => {
+  const categoryColor = category?.color || '#3b82f6';
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [grades, setGrades] = useState<StudentGrade[]>([]);
+  const [classId, setClassId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<GradeExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const pagesContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    Promise.all([gradebookService.getClasses(), gradebookService.getGrades(evaluation.id)]).then(([loadedClasses, loadedGrades]) => {
+      const graded = new Set(loadedGrades.map(g => g.student_id));
+      // Seules les classes ayant des notes pour cette évaluation sont proposées
+      setClasses(loadedClasses.filter(c => c.students.some(s => graded.has(s.id))));
+      setGrades(loadedGrades);
+      setLoading(false);
+    });
+  }, [evaluation.id]);
+
+  useEffect(() => {
+    if (exportError) {
+      const timer = setTimeout(() => setExportError(null), 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [exportError]);
+
+  const selectedClass = classes.find(c => c.id === classId);
+  const visibleGrades = useMemo(() => {
+    const studentIds = selectedClass ? new Set(selectedClass.students.map(s => s.id)) : null;
+    return studentIds ? grades.filter(g => studentIds.has(g.student_id)) : grades;
+  }, [grades, selectedClass]);
+  const results = useMemo(() => analyzeEvaluation(evaluation, visibleGrades), [evaluation, visibleGrades]);
+  const competencyResults = useMemo(
+    () => analyzeCompetencies(evaluation, competencies, visibleGrades),
+    [evaluation, competencies, visibleGrades]
+  );
+  // Élèves positionnés sur au moins une compétence, dans l'ordre des listes de classe
+  const studentPages = useMemo(() => {
+    const positioned = (selectedClass ? [selectedClass] : classes)
+      .flatMap(c => c.students)
+      .filter(s => competencyResults.some(r => r.levels.has(s.id)));
+    const chunks: typeof positioned[] = [];
+    for (let i = 0; i < positioned.length; i += STUDENTS_PER_PAGE) {
+      chunks.push(positioned.slice(i, i + STUDENTS_PER_PAGE));
+    }
+    return chunks;
+  }, [classes, selectedClass, competencyResults]);
+
+  const questionPages = useMemo(() => {
+    const chunks: EvaluationResults['questions'][] = [];
+    for (let i = 0; i < results.questions.length; i += QUESTIONS_PER_PAGE) {
+      chunks.push(results.questions.slice(i, i + QUESTIONS_PER_PAGE));
+    }
+    return chunks;
+  }, [results]);
+  const competencyPages = useMemo(() => {
+    const chunks: CompetencyResult[][] = [];
+    for (let i = 0; i < competencyResults.length; i += COMPETENCIES_PER_PAGE) {
+      chunks.push(competencyResults.slice(i, i + COMPETENCIES_PER_PAGE));
+    }
+    return chunks;
+  }, [competencyResults]);
+  const hasCompetencyPages = competencyResults.length > 0 && results.graded > 0;
+  const pageCount = 1 + questionPages.length + (hasCompetencyPages ? competencyPages.length + studentPages.length : 0);
+  const competencyHeader = (index: number) => competencyResults[index].competency.code || `C${index + 1}`;
+  const sectionTitle = (title: string) => (
+    <h3 className="font-bold text-sm uppercase tracking-wider mb-3 pb-1 border-b-2" style={{ color: '#dc2626', borderColor: '#dc2626' }}>{title}</h3>
+  );
+  const flaggedCount = results.questions.filter(q => q.flagged).length;
+
+  const handleDownloadPdf = async () => {
+    if (!pagesContainerRef.current) return;
+    setIsExporting(true);
+    try {
+      const pageElements = Array.from<HTMLElement>(pagesContainerRef.current.querySelectorAll('.a4-page'));
+      const suffix = selectedClass ? `-${slugify(selectedClass.name)}` : '';
+      await exportPagesToPdf(pageElements, `${slugify(evaluation.title)}-resultats${suffix}.pdf`);
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      setExportError("L'export PDF a échoué.");
+    }
+    setIsExporting(false);
+  };
+
+  // Sans filtre, toutes les classes notées dans un même tableau, avec une colonne Classe
+  const handleExportGrades = async (format: GradeExportFormat) => {
+    setExportingFormat(format);
+    try {
+      await exportGrades(evaluation, selectedClass ? [selectedClass] : classes, grades, format);
+    } catch (error) {
+      console.error("Error exporting grades:", error);
+      setExportError("L'export des notes a échoué.");
+    }
+    setExportingFormat(null);
+  };
+
+  const renderFooter = (pageNumber: number) => (
+    <div className="mt-auto border-t border-slate-100 flex justify-between items-center text-[9px] text-slate-400 font-medium pt-1.5" style={{ flexShrink: 0 }}>
+      <span className="uppercase tracking-widest truncate max-w-[75%] font-bold">
+        Résultats — {evaluation.title}{selectedClass && ` — ${selectedClass.name}`}
+      </span>
+      <span className="font-bold whitespace-nowrap">Page {pageNumber} / {pageCount}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-90 z-50 overflow-y-auto flex flex-col items-center pdf-modal-root">
+      {exportError && (
+        <div className="fixed top-8 left-1/2 -translate-x-1/2 z-[100] px-8 py-4 rounded-3xl shadow-2xl flex items-center gap-4 text-white font-bold transition-all animate-fade-in bg-rose-600 no-print">
+          <AlertCircle size={22} />
+          <span>{exportError}</span>
+          <button onClick={() => setExportError(null)} className="ml-2 hover:opacity-80"><X size={18}/></button>
+        </div>
+      )}
+
+      {/* Toolbar */}
+      <div className="w-full bg-white p-4 shadow-md sticky top-0 z-[60] flex justify-between items-center no-print">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="text-gray-600 hover:text-black flex items-center gap-2 px-3 py-1.5 rounded-xl hover:bg-gray-100 transition-colors">
+            <ArrowLeft size={20} /> <span className="hidden sm:inline font-bold">Retour</span>
+          </button>
+          <h2 className="font-black text-lg text-slate-800">Résultats</h2>
+          {classes.length > 1 && (
+            <select
+              value={classId}
+              onChange={(e) => setClassId(e.target.value)}
+              className="p-2 bg-slate-100 rounded-xl outline-none font-bold text-slate-700 text-sm"
+            >
+              <option value="">Toutes les classes</option>
+              {classes.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {(['csv', 'ods'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExportGrades(format)}
+              disabled={loading || classes.length === 0 || exportingFormat !== null}
+              className={`bg-white border border-slate-200 hover:bg-slate-50 active:scale-95 text-slate-700 px-4 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-sm transition-all uppercase ${loading || classes.length === 0 || exportingFormat !== null ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+              title={format === 'csv' ? 'Exporter les notes (CSV)' : 'Exporter les notes (LibreOffice)'}
+            >
+              {exportingFormat === format ? <Loader2 size={18} className="animate-spin" /> : <FileSpreadsheet size={18} />} {format}
+            </button>
+          ))}
+          <button
+            onClick={handleDownloadPdf}
+            disabled={loading || isExporting}
+            className={`bg-white border border-slate-200 hover:bg-slate-50 active:scale-95 text-slate-700 px-5 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-sm transition-all ${loading || isExporting ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            {isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />} Télécharger le PDF
+          </button>
+          <button
+            onClick={() => window.print()}
+            disabled={loading}
+            className={`bg-indigo-600 hover:bg-indigo-700 active:scale-95 text-white px-8 py-2.5 rounded-xl font-bold flex items-center gap-2 shadow-lg transition-all ${loading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+          >
+            <Printer size={18} /> Imprimer
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-20 text-white font-bold flex items-center gap-3"><Loader2 className="animate-spin" /> Calcul des résultats...</div>
+      ) : (
+        <div ref={pagesContainerRef} className="py-8 w-full flex flex-col items-center gap-8 print-wrapper">
+          {/* Page de synthèse */}
+          <div className="a4-page bg-white shadow-2xl relative flex flex-col overflow-hidden box-border">
+            <div className="flex flex-col h-full box-border" style={{ padding: '10mm' }}>
+              <div className="border-2 border-black mb-5 px-4 py-3 font-bold uppercase tracking-wider"
+                style={{ borderLeft: `12px solid ${categoryColor}`, printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}>
+                <div className="text-[10px] font-black tracking-[0.3em] text-slate-500">Résultats{selectedClass && ` — ${selectedClass.name}`}</div>
+                <div className="text-xl">{evaluation.title}</div>
+              </div>
+
+              {results.stats ? (
+                <>
+                  <div className="grid grid-cols-3 gap-3 mb-6">
+                    <StatCard label="Moyenne" value={`${formatNumber(results.stats.mean)} / ${formatNumber(results.maxTotal)}`} detail={results.noteStats ? `soit ${formatNumber(results.noteStats.mean)} / ${formatNumber(results.scaleTotal)}` : undefined} />
+                    <StatCard label="Médiane" value={`${formatNumber(results.stats.median)} / ${formatNumber(results.maxTotal)}`} detail={results.noteStats ? `soit ${formatNumber(results.noteStats.median)} / ${formatNumber(results.scaleTotal)}` : undefined} />
+                    <StatCard label="Écart-type" value={formatNumber(results.stats.standardDeviation)} detail={`de ${formatNumber(results.stats.min)} à ${formatNumber(results.stats.max)}`} />
+                    <StatCard label="Copies corrigées" value={String(results.graded)} />
+                    <StatCard label="Absents" value={String(results.absent)} />
+                    <StatCard label="Dispensés" value={String(results.exempt)} />
+                  </div>
+
+                  <h3 className="font-bold text-sm uppercase tracking-wider mb-3 pb-1 border-b-2" style={{ color: '#dc2626', borderColor: '#dc2626' }}>Répartition des notes</h3>
+                  <div className="mb-6">
+                    <Histogram results={results} color={categoryColor} />
+                  </div>
+
+                  <h3 className="font-bold text-sm uppercase tracking-wider mb-3 pb-1 border-b-2" style={{ color: '#dc2626', borderColor: '#dc2626' }}>Réussite par section</h3>
+                  <div className="space-y-2 mb-6">
+                    {results.sections.map(row => (
+                      <div key={row.section.id} className="grid grid-cols-[1fr_90px_200px] gap-3 items-center text-sm">
+                        <span className="font-bold text-slate-800 truncate">{row.section.title || 'Section sans titre'}</span>
+                        <span className="text-right text-xs font-bold text-slate-500">{formatNumber(row.mean)} / {formatNumber(row.maxPoints)}</span>
+                        <RateBar rate={row.successRate} />
+                      </div>
+                    ))}
+                  </div>
+
+                  {flaggedCount > 0 && (
+                    <div className="p-3 border-l-4 border-rose-500 bg-rose-50 text-rose-800 text-sm font-bold">
+                      {flaggedCount} question{flaggedCount > 1 ? 's' : ''} réussie{flaggedCount > 1 ? 's' : ''} à moins de {formatRate(LOW_SUCCESS_RATE)} : à retravailler avec la classe (détail page suivante).
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="py-20 text-center text-slate-400 font-bold">Aucune copie corrigée pour le moment.</p>
+              )}
+
+              {renderFooter(1)}
+            </div>
+          </div>
+
+          {/* Réussite question par question */}
+          {questionPages.map((rows, pageIndex) => (
+            <div key={pageIndex} className="a4-page bg-white shadow-2xl relative flex flex-col overflow-hidden box-border">
+              <div className="flex flex-col h-full box-border" style={{ padding: '10mm' }}>
+                <h3 className="font-bold text-sm uppercase tracking-wider mb-3 pb-1 border-b-2" style={{ color: '#dc2626', borderColor: '#dc2626' }}>Réussite par question</h3>
+                <div className="grid grid-cols-[40px_1fr_70px_70px_170px] gap-2 text-[9px] font-black uppercase tracking-widest text-slate-400 pb-1 border-b border-slate-200">
+                  <span>N°</span><span>Énoncé</span><span className="text-right">Moyenne</span><span className="text-right">Tous pts</span><span>Réussite</span>
+                </div>
+                {rows.map(row => (
+                  <div key={row.question.id} className={`grid grid-cols-[40px_1fr_70px_70px_170px] gap-2 items-center py-1.5 border-b border-slate-100 text-sm ${row.flagged ? 'bg-rose-50' : ''}`}>
+                    <span className="font-black text-indigo-700">{row.number}</span>
+                    <span className="truncate text-slate-700">
+                      {row.flagged && <span className="mr-1 px-1 rounded bg-rose-600 text-white text-[9px] font-black uppercase">À revoir</span>}
+                      {row.question.question_text || 'Sans énoncé'}
+                    </span>
+                    <span className="text-right text-xs font-bold text-slate-500">{formatNumber(row.mean)} / {formatNumber(row.question.points || 0)}</span>
+                    <span className="text-right text-xs font-bold text-slate-500">{row.fullMarks} / {results.graded}</span>
+                    <RateBar rate={row.successRate} />
+                  </div>
+                ))}
+                {renderFooter(pageIndex + 2)}
+              </div>
+            </div>
+          ))}
+
+          {/* Positionnement par compétence : répartition de la classe puis grille élève par élève */}
+          {hasCompetencyPages && competencyPages.map((rows, pageIndex) => (
+            <div key={`competencies-${pageIndex}`} className="a4-page bg-white shadow-2xl relative flex flex-col overflow-hidden box-border">
+              <div className="flex flex-col h-full box-border" style={{ padding: '10mm' }}>
+                {sectionTitle('Positionnement par compétence')}
+                <div className="flex flex-wrap gap-4 mb-4 text-xs font-bold text-slate-600">
+                  {COMPETENCY_LEVELS.map(level => (
+                    <span key={level} className="flex items-center gap-1.5"><LevelBadge level={level} /> {COMPETENCY_LEVEL_LABELS[level]}</span>
+                  ))}
+                </div>
+                <div className="space-y-3">
+                  {rows.map((row, rowIndex) => {
+                    const i = pageIndex * COMPETENCIES_PER_PAGE + rowIndex;
+                    const positioned = COMPETENCY_LEVELS.reduce((acc, level) => acc + row.counts[level], 0);
+                    return (
+                      <div key={row.competency.id} className="text-sm">
+                        <div className="flex justify-between gap-3 mb-1">
+                          <span className="text-slate-800"><span className="font-black text-indigo-700 mr-1">{competencyHeader(i)}</span>{row.competency.label}</span>
+                          <span className="text-xs font-bold text-slate-400 whitespace-nowrap">{formatNumber(row.maxPoints)} pts</span>
+                        </div>
+                        <div className="flex h-4 rounded overflow-hidden bg-slate-100">
+                          {COMPETENCY_LEVELS.filter(level => row.counts[level] > 0).map(level => (
+                            <div
+                              key={level}
+                              className="h-full flex items-center justify-center text-[9px] font-black text-white"
+                              style={{ width: `${row.counts[level] / positioned * 100}%`, backgroundColor: COMPETENCY_LEVEL_COLORS[level], printColorAdjust: 'exact', WebkitPrintColorAdjust: 'exact' }}
+                            >
+                              {row.counts[level]}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                {renderFooter(questionPages.length + 2 + pageIndex)}
+              </div>
+            </div>
+          ))}
+
+          {hasCompetencyPages && studentPages.map((students, pageIndex) => (
+            <div key={`students-${pageIndex}`} className="a4-page bg-white shadow-2xl relative flex flex-col overflow-hidden box-border">
+              <div className="flex flex-col h-full box-border" style={{ padding: '10mm' }}>
+                {sectionTitle('Positionnement des élèves')}
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-[9px] font-black uppercase tracking-widest text-slate-400 border-b border-slate-200">
+                      <th className="text-left py-1">Élève</th>
+                      {competencyResults.map((row, i) => (
+                        <th key={row.competency.id} className="py-1 px-1 text-center text-indigo-700" title={row.competency.label}>{competencyHeader(i)}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {students.map(student => (
+                      <tr key={student.id} className="border-b border-slate-100">
+                        <td className="py-1 font-bold text-slate-700 whitespace-nowrap">{formatStudentName(student)}</td>
+                        {competencyResults.map(row => {
+                          const level = row.levels.get(student.id);
+                          return <td key={row.competency.id} className="py-1 px-1 text-center">{level ? <LevelBadge level={level} /> : <span className="text-slate-300">–</span>}</td>;
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {renderFooter(questionPages.length + competencyPages.length + 2 + pageIndex)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <A4PageStyles />
+    </div>
+  );
+};
+
+export default ResultsAnalytics;
@@ -1,6 +1,8 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Bold, Italic, List, Image as ImageIcon, Heading1, Check, X, AlignLeft, AlignCenter, AlignRight, Maximize2, Superscript, Subscript, Sigma } from 'lucide-react';
+import { Bold, Italic, List, Image as ImageIcon, Heading1, Check, X, AlignLeft, AlignCenter, AlignRight, Maximize2, Superscript, Subscript, Sigma, Upload, Loader2, AlertTriangle } from 'lucide-react';
+import { renderLatex } from '../services/math';
+import { uploadImage } from '../services/imageService';
 
 interface RichTextEditorProps {
   value: string;
@@ -16,11 +18,16 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
   
   const [showMathInput, setShowMathInput] = useState(false);
   const [mathLatex, setMathLatex] = useState('');
+  // Équation existante en cours de modification (clic sur une formule)
+  const [editingMath, setEditingMath] = useState<HTMLElement | null>(null);
   const [savedRange, setSavedRange] = useState<Range | null>(null);
 
   // État pour la gestion de l'image sélectionnée
   const [selectedImg, setSelectedImg] = useState<HTMLImageElement | null>(null);
   const [imgWidth, setImgWidth] = useState<number>(100);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Sync value to innerHTML when value changes externally
   useEffect(() => {
@@ -68,36 +75,111 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
     handleInput();
   };
 
+  const insertImage = (src: string) => {
+    // On insère l'image avec un style par défaut safe
+    const html = `<img src="${src}" style="display: block; margin: 10px auto; width: 50%;" />`;
+    document.execCommand('insertHTML', false, html);
+    handleInput();
+  };
+
   const handleImageInsert = () => {
     if (imageUrl) {
       restoreSelection();
-      // On insère l'image avec un style par défaut safe
-      const html = `<img src="${imageUrl}" style="display: block; margin: 10px auto; width: 50%;" />`;
-      document.execCommand('insertHTML', false, html);
-      handleInput();
+      insertImage(imageUrl);
       setImageUrl('');
       setShowUrlInput(false);
     }
   };
 
+  // Envoi (Supabase Storage ou data URL locale) puis insertion à la position du curseur
+  const uploadAndInsert = async (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/'));
+    if (images.length === 0) return;
+    const range = window.getSelection()?.rangeCount ? window.getSelection()!.getRangeAt(0).cloneRange() : savedRange;
+    setUploading(true);
+    setUploadError(null);
+    try {
+      for (const file of images) {
+        const src = await uploadImage(file);
+        if (contentRef.current) contentRef.current.focus();
+        if (range && contentRef.current?.contains(range.commonAncestorContainer)) {
+          const selection = window.getSelection();
+          selection?.removeAllRanges();
+          selection?.addRange(range);
+        }
+        insertImage(src);
+      }
+    } catch (error) {
+      console.error("Error uploading image:", error);
+      setUploadError("L'image n'a pas pu être importée. Vérifiez la connexion puis réessayez.");
+    }
+    setUploading(false);
+    setShowUrlInput(false);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    restoreSelection();
+    uploadAndInsert(files);
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from<File>(e.clipboardData.files);
+    if (files.some(f => f.type.startsWith('image/'))) {
+      e.preventDefault();
+      uploadAndInsert(files);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    const files = Array.from<File>(e.dataTransfer.files);
+    if (!files.some(f => f.type.startsWith('image/'))) return;
+    e.preventDefault();
+    // Place le curseur à l'endroit du dépôt
+    const range = document.caretRangeFromPoint?.(e.clientX, e.clientY);
+    if (range) {
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+    uploadAndInsert(files);
+  };
+
   const handleMathInsert = () => {
     if (mathLatex) {
-      restoreSelection();
-      // Utilisation de math.vercel.app qui est plus permissif avec les CORS et l'encodage
-      const url = `https://math.vercel.app/?from=${encodeURIComponent(mathLatex)}`;
-      const html = `<img src="${url}" alt="${mathLatex}" style="display: inline-block; vertical-align: middle; padding: 0 2px;" class="math-equation" />`;
-      document.execCommand('insertHTML', false, html);
+      // Rendu local (MathML) : fonctionne hors ligne et reste net à l'impression
+      const html = renderLatex(mathLatex);
+      if (editingMath && contentRef.current?.contains(editingMath)) {
+        editingMath.outerHTML = html;
+      } else {
+        restoreSelection();
+        document.execCommand('insertHTML', false, html);
+      }
       handleInput();
-      setMathLatex('');
-      setShowMathInput(false);
+      closeMathInput();
     }
   };
 
+  const closeMathInput = () => {
+    setMathLatex('');
+    setShowMathInput(false);
+    setEditingMath(null);
+  };
+
   // --- Gestion de la sélection d'image ---
 
   // Détecter le clic sur une image
   const handleContentClick = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
+    const mathEl = target.closest('.math-equation') as HTMLElement | null;
+    if (mathEl) {
+      setEditingMath(mathEl);
+      setMathLatex(mathEl.dataset.latex || '');
+      setShowMathInput(true);
+      setShowUrlInput(false);
+      return;
+    }
     if (target.tagName === 'IMG') {
       // Désélectionner l'ancienne si différente
       if (selectedImg && selectedImg !== target) {
@@ -244,14 +326,24 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
               >
                 <X size={14} />
               </button>
+              <div className="w-px h-4 bg-gray-200 mx-1"></div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1 px-2 py-1 hover:bg-blue-50 text-blue-600 rounded text-xs font-medium whitespace-nowrap"
+                title="Importer depuis l'ordinateur"
+              >
+                <Upload size={14} /> Fichier
+              </button>
+              <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFileChange} />
             </div>
           )}
+          {uploading && <Loader2 size={14} className="animate-spin text-blue-500" />}
         </div>
 
         {/* Math Input Toggle */}
         <div className="flex items-center gap-1">
           <button
-            onClick={() => { saveSelection(); setShowMathInput(!showMathInput); setShowUrlInput(false); }}
+            onClick={() => { saveSelection(); setEditingMath(null); setShowMathInput(!showMathInput); setShowUrlInput(false); }}
             className={`p-1.5 rounded text-gray-700 ${showMathInput ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-200'}`}
             type="button"
             title="Insérer une équation (LaTeX)"
@@ -279,7 +371,7 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
                   <Check size={18} />
                 </button>
                 <button 
-                  onClick={() => { setShowMathInput(false); setMathLatex(''); }}
+                  onClick={closeMathInput}
                   className="p-2 hover:bg-red-100 text-red-500 rounded-lg transition-colors"
                   title="Annuler"
                 >
@@ -287,6 +379,13 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
                 </button>
               </div>
               
+              {mathLatex && (
+                <div
+                  className="min-h-[40px] flex items-center justify-center p-2 rounded-lg border border-indigo-100 bg-indigo-50/30 text-lg"
+                  dangerouslySetInnerHTML={{ __html: renderLatex(mathLatex) }}
+                />
+              )}
+
               <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 text-[11px] text-slate-700 font-mono shadow-inner w-full">
                 <div className="font-bold text-slate-800 mb-2 font-sans text-xs border-b border-slate-200 pb-1.5 flex justify-between items-center">
                   <span>Mémo LaTeX</span>
@@ -360,6 +459,16 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
         )}
       </div>
 
+      {uploadError && (
+        <div className="flex items-center gap-2 px-3 py-2 bg-rose-50 border-b border-rose-100 text-rose-700 text-xs font-semibold">
+          <AlertTriangle size={14} className="shrink-0" />
+          <span className="flex-1">{uploadError}</span>
+          <button onClick={() => setUploadError(null)} className="p-0.5 hover:bg-rose-100 rounded" type="button" title="Fermer">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
       {/* Editor Area */}
       <div
         ref={contentRef}
@@ -368,6 +477,8 @@ const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeh
         onInput={handleInput}
         onBlur={handleInput}
         onClick={handleContentClick}
+        onPaste={handlePaste}
+        onDrop={handleDrop}
         data-placeholder={placeholder}
       />
     </div>
@@ -0,0 +1,167 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SchoolClass } from '../types';
+import {
+  CSV_SEPARATOR_LABELS, CsvSeparator, TEXT_ENCODING_LABELS, TextEncoding,
+  decodeText, detectEncoding, detectSeparator, parseCsv
+} from '../services/spreadsheet';
+import { NewStudent, RosterColumns, filterNewStudents, guessRosterColumns, looksLikeHeader, mapRosterRows } from '../services/gradebookSpreadsheets';
+import { X, FileSpreadsheet, FolderOpen, UserPlus } from 'lucide-react';
+
+interface RosterImportDialogProps {
+  schoolClass: SchoolClass;
+  onConfirm: (students: NewStudent[]) => void;
+  onCancel: () => void;
+}
+
+// Aperçu limité : l'import porte toujours sur toutes les lignes
+const PREVIEW_ROWS = 8;
+
+const RosterImportDialog: React.FC<RosterImportDialogProps> = ({ schoolClass, onConfirm, onCancel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<TextEncoding>('utf-8');
+  const [separator, setSeparator] = useState<CsvSeparator>(';');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<RosterColumns>({ lastName: 0, firstName: 1 });
+
+  const rows = useMemo(
+    () => buffer ? parseCsv(decodeText(buffer, encoding), separator) : [],
+    [buffer, encoding, separator]
+  );
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const header = hasHeader ? rows[0] : null;
+
+  const students = useMemo(() => mapRosterRows(hasHeader ? rows.slice(1) : rows, columns), [rows, hasHeader, columns]);
+  const newStudents = useMemo(() => filterNewStudents(students, schoolClass.students), [students, schoolClass.students]);
+  const skipped = students.length - newStudents.length;
+
+  // Encodage, séparateur, en-têtes et colonnes sont devinés puis ajustables
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.arrayBuffer();
+    const detectedEncoding = detectEncoding(content);
+    const text = decodeText(content, detectedEncoding);
+    const detectedSeparator = detectSeparator(text);
+    const firstRow = parseCsv(text, detectedSeparator)[0] || [];
+    const headerRow = looksLikeHeader(firstRow);
+    setFileName(file.name);
+    setBuffer(content);
+    setEncoding(detectedEncoding);
+    setSeparator(detectedSeparator);
+    setHasHeader(headerRow);
+    setColumns(guessRosterColumns(headerRow ? firstRow : null));
+  };
+
+  const columnLabel = (index: number) => header?.[index] ? `${header[index]} (col. ${index + 1})` : `Colonne ${index + 1}`;
+  const selectClass = "p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm";
+  const labelClass = "block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1 ml-1";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-4xl w-full max-h-[90vh] p-8 animate-fade-in relative flex flex-col">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><FileSpreadsheet size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Importer une liste d'élèves</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">
+          Fichier CSV exporté depuis le logiciel de vie scolaire ou un tableur. Les élèves déjà présents dans {schoolClass.name} sont ignorés.
+        </p>
+
+        <div className="flex items-center gap-3 mb-4">
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleFileChange} />
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-50 transition-all">
+            <FolderOpen size={16} /> Choisir un fichier
+          </button>
+          {fileName && <span className="text-sm font-bold text-slate-500 truncate">{fileName}</span>}
+        </div>
+
+        {buffer && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 p-4 bg-slate-50 rounded-2xl">
+            <div>
+              <label className={labelClass}>Encodage</label>
+              <select className={`${selectClass} w-full`} value={encoding} onChange={(e) => setEncoding(e.target.value as TextEncoding)}>
+                {(Object.keys(TEXT_ENCODING_LABELS) as TextEncoding[]).map(enc => <option key={enc} value={enc}>{TEXT_ENCODING_LABELS[enc]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Séparateur</label>
+              <select className={`${selectClass} w-full`} value={separator} onChange={(e) => setSeparator(e.target.value as CsvSeparator)}>
+                {(Object.keys(CSV_SEPARATOR_LABELS) as CsvSeparator[]).map(sep => <option key={sep} value={sep}>{CSV_SEPARATOR_LABELS[sep]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Nom</label>
+              <select className={`${selectClass} w-full`} value={columns.lastName} onChange={(e) => setColumns({ ...columns, lastName: Number(e.target.value) })}>
+                {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Prénom</label>
+              <select
+                className={`${selectClass} w-full`}
+                value={columns.firstName ?? ''}
+                onChange={(e) => setColumns({ ...columns, firstName: e.target.value === '' ? null : Number(e.target.value) })}
+              >
+                <option value="">Dans la colonne du nom</option>
+                {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+              </select>
+            </div>
+            <label className="col-span-2 md:col-span-4 flex items-center gap-2 text-sm font-bold text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+              La première ligne contient les intitulés des colonnes
+            </label>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-[160px] overflow-y-auto border border-slate-100 rounded-2xl">
+          {students.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-[10px] font-black uppercase tracking-widest text-slate-400">
+                <tr><th className="text-left px-4 py-2">Nom</th><th className="text-left px-4 py-2">Prénom</th></tr>
+              </thead>
+              <tbody>
+                {students.slice(0, PREVIEW_ROWS).map((s, i) => (
+                  <tr key={i} className="border-t border-slate-100">
+                    <td className="px-4 py-1.5 font-bold text-slate-700 uppercase">{s.last_name}</td>
+                    <td className="px-4 py-1.5 font-bold text-slate-700">{s.first_name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <div className="h-full flex items-center justify-center text-slate-300 italic text-sm p-8">
+              {buffer ? 'Aucun élève reconnu avec ces réglages' : 'Aperçu des élèves reconnus'}
+            </div>
+          )}
+          {students.length > PREVIEW_ROWS && (
+            <p className="px-4 py-2 text-xs font-bold text-slate-400 border-t border-slate-100">… et {students.length - PREVIEW_ROWS} autre(s)</p>
+          )}
+        </div>
+        {skipped > 0 && (
+          <p className="mt-3 text-xs font-bold text-amber-600">{skipped} élève(s) déjà dans la classe ou en double dans le fichier ne seront pas ajoutés.</p>
+        )}
+
+        <div className="flex gap-4 mt-6">
+          <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={() => onConfirm(newStudents)}
+            disabled={newStudents.length === 0}
+            className="flex-1 flex items-center justify-center gap-2 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserPlus size={18} /> Ajouter {newStudents.length} élève(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RosterImportDialog;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { BankItem, Category, Question } from '../types';
+import { isSupabaseConfigured } from '../services/supabaseClient';
+import { X, Library } from 'lucide-react';
+
+interface SaveToBankDialogProps {
+  question: Question;
+  categories: Category[];
+  defaultCategoryId?: string;
+  onConfirm: (tags: Pick<BankItem, 'category_id' | 'level' | 'theme' | 'is_shared'>) => void;
+  onCancel: () => void;
+}
+
+const SaveToBankDialog: React.FC<SaveToBankDialogProps> = ({ question, categories, defaultCategoryId, onConfirm, onCancel }) => {
+  const [categoryId, setCategoryId] = useState(defaultCategoryId || '');
+  const [level, setLevel] = useState('');
+  const [theme, setTheme] = useState('');
+  const [isShared, setIsShared] = useState(false);
+
+  const inputClass = "w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-md w-full p-8 animate-fade-in relative">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><Library size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Ajouter à la banque</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm line-clamp-2">{question.question_text || 'Question sans énoncé'}</p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Matière</label>
+            <select className={inputClass} value={categoryId} onChange={(e) => setCategoryId(e.target.value)}>
+              <option value="">Aucune</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Niveau</label>
+              <input className={inputClass} value={level} onChange={(e) => setLevel(e.target.value)} placeholder="Ex: 6e" />
+            </div>
+            <div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Thème</label>
+              <input className={inputClass} value={theme} onChange={(e) => setTheme(e.target.value)} placeholder="Ex: Fractions" />
+            </div>
+          </div>
+          {/* Partage explicite : par défaut, une question reste visible uniquement par son auteur */}
+          {isSupabaseConfigured && (
+            <label className="flex items-start gap-2 p-3 bg-slate-50 rounded-lg text-xs font-bold text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={isShared} onChange={(e) => setIsShared(e.target.checked)} className="accent-indigo-600 mt-0.5" />
+              <span>Partager avec les collègues<span className="block font-medium text-slate-400">Ils pourront l'insérer dans leurs évaluations, sans la modifier.</span></span>
+            </label>
+          )}
+        </div>
+
+        <div className="flex gap-4 mt-8">
+          <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={() => onConfirm({ category_id: categoryId || null, level: level.trim(), theme: theme.trim(), is_shared: isShared })}
+            className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors"
+          >
+            Enregistrer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaveToBankDialog;
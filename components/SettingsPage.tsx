@@ -2,7 +2,11 @@ import React, { useState } from 'react';
 import { isSupabaseConfigured, updateSupabaseConfig, resetSupabaseConfig } from '../services/supabaseClient';
 import { Database, ShieldAlert, CheckCircle, LogOut, AlertTriangle, X } from 'lucide-react';
 
-const SettingsPage: React.FC = () => {
+interface SettingsPageProps {
+  onBack?: () => void;
+}
+
+const SettingsPage: React.FC<SettingsPageProps> = ({ onBack }) => {
   const [url, setUrl] = useState(localStorage.getItem('supabase_url') || '');
   const [key, setKey] = useState(localStorage.getItem('supabase_key') || '');
   const [notification, setNotification] = useState<{type: 'error' | 'success', message: string} | null>(null);
@@ -35,6 +39,11 @@ const SettingsPage: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-900">Connexion Base de Données</h2>
           <p className="text-gray-500">Configurez votre projet Supabase pour sauvegarder vos évaluations.</p>
         </div>
+        {onBack && (
+          <button onClick={onBack} className="ml-auto bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors">
+            Retour
+          </button>
+        )}
       </div>
 
       <div className="space-y-6">
@@ -44,7 +53,7 @@ const SettingsPage: React.FC = () => {
              <CheckCircle className="text-green-600 mt-1" />
              <div>
                <h3 className="font-bold text-green-800">Connecté</h3>
-               <p className="text-sm text-green-700">L'application est connectée à votre instance Supabase.</p>
+               <p className="text-sm text-green-700">L'application est connectée à votre instance Supabase. Chaque enseignant se connecte avec son propre compte.</p>
              </div>
           </div>
         ) : (
@@ -127,7 +136,8 @@ const SettingsPage: React.FC = () => {
       </div>
       
       <div className="mt-8 pt-8 border-t text-sm text-gray-400">
-        <p>Astuce : Créez les tables SQL fournies dans l'onglet "Dashboard" > "SQL Editor" de Supabase avant de connecter.</p>
+        <p>Astuce : Créez les tables SQL fournies dans l'onglet "Dashboard" &gt; "SQL Editor" de Supabase avant de connecter.</p>
+        <p className="mt-2">Le fichier <code>sql/schema.sql</code> active aussi la sécurité par ligne (RLS) : n'utilisez que la clé publique « anon », jamais la clé « service_role ».</p>
       </div>
     </div>
   );
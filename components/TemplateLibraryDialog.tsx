@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { EVALUATION_TEMPLATES, EvaluationTemplate } from '../services/templates';
+import { X, LayoutTemplate, Layers } from 'lucide-react';
+
+interface TemplateLibraryDialogProps {
+  categories: Category[];
+  onSelect: (template: EvaluationTemplate, categoryId: string) => void;
+  onCancel: () => void;
+}
+
+const TemplateLibraryDialog: React.FC<TemplateLibraryDialogProps> = ({ categories, onSelect, onCancel }) => {
+  const [categoryId, setCategoryId] = useState(categories[0]?.id || '');
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-8 animate-fade-in relative">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><LayoutTemplate size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Partir d'un modèle</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">
+          L'évaluation est pré-remplie de sections et de questions à compléter dans l'éditeur.
+        </p>
+
+        <div className="mb-6 max-w-xs">
+          <label className="block text-[9px] font-black text-slate-400 uppercase tracking-[0.2em] mb-1 ml-1">Matière</label>
+          <select
+            className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm"
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+          >
+            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {EVALUATION_TEMPLATES.map(template => {
+            const questionCount = template.sections.reduce((sum, section) => sum + section.questions.length, 0);
+            return (
+              <button
+                key={template.id}
+                onClick={() => onSelect(template, categoryId)}
+                className="flex flex-col text-left p-5 border-2 border-slate-100 rounded-2xl hover:border-indigo-500 hover:bg-indigo-50 transition-all"
+              >
+                <div className="font-black text-slate-900 mb-1">{template.name}</div>
+                <div className="text-xs text-slate-500 mb-4">{template.description}</div>
+                <div className="mt-auto space-y-1">
+                  {template.sections.map(section => (
+                    <div key={section.name} className="flex items-center gap-1.5 text-[11px] font-bold text-slate-400 truncate">
+                      <Layers size={11} className="flex-shrink-0" /> {section.name}
+                    </div>
+                  ))}
+                  <div className="pt-2 text-[10px] font-black uppercase tracking-wider text-indigo-500">{questionCount} question(s)</div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateLibraryDialog;
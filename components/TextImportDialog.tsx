@@ -0,0 +1,143 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Question } from '../types';
+import { QUESTION_TYPE_LABELS } from '../services/questionTypes';
+import { TEXT_IMPORT_FORMAT_LABELS, TextImportFormat, parseQuestionText } from '../services/textImport';
+import { X, ClipboardPaste, AlertTriangle, FolderOpen } from 'lucide-react';
+
+interface TextImportDialogProps {
+  defaultSection: string;
+  onConfirm: (questions: Question[]) => void;
+  onCancel: () => void;
+}
+
+const PLACEHOLDERS: Record<TextImportFormat | 'auto', string> = {
+  auto: "Collez vos questions ici (Aiken, GIFT ou Markdown)...",
+  aiken: "Quelle est la capitale de la France ?\nA. Lyon\nB. Paris\nANSWER: B",
+  gift: "::Q1:: 2 + 2 = ? { =4 ~3 ~5 }\n\nLa Terre tourne autour du Soleil. {T}",
+  markdown: "## Exercice 1\n1. Calculer 12 x 3 [2 pts]\n> 36"
+};
+
+const TextImportDialog: React.FC<TextImportDialogProps> = ({ defaultSection, onConfirm, onCancel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<TextImportFormat | 'auto'>('auto');
+
+  const result = useMemo(
+    () => text.trim() ? parseQuestionText(text, format, defaultSection) : null,
+    [text, format, defaultSection]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setText(await file.text());
+  };
+
+  const inputClass = "p-2 bg-slate-50 border border-slate-200 rounded-lg focus:border-indigo-500/30 focus:bg-white outline-none font-bold text-slate-700 transition-all text-sm";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-5xl w-full max-h-[90vh] p-8 animate-fade-in relative flex flex-col">
+        <button onClick={onCancel} className="absolute top-5 right-5 p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+          <X size={18} />
+        </button>
+        <div className="flex items-center gap-3 mb-2">
+          <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><ClipboardPaste size={20} /></div>
+          <h3 className="text-2xl font-black text-slate-900">Importer des questions</h3>
+        </div>
+        <p className="text-slate-500 mb-6 text-sm">
+          Aiken, GIFT (Moodle) ou Markdown : <code className="bg-slate-100 px-1 rounded">## Section</code>, <code className="bg-slate-100 px-1 rounded">1. Énoncé [2 pts]</code>, <code className="bg-slate-100 px-1 rounded">&gt; Réponse</code>.
+        </p>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 min-h-0 flex-1">
+          <div className="flex flex-col gap-3 min-h-0">
+            <div className="flex items-center gap-2">
+              <select className={inputClass} value={format} onChange={(e) => setFormat(e.target.value as TextImportFormat | 'auto')}>
+                <option value="auto">Détection automatique</option>
+                {(Object.keys(TEXT_IMPORT_FORMAT_LABELS) as TextImportFormat[]).map(f => (
+                  <option key={f} value={f}>{TEXT_IMPORT_FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+              <input ref={fileInputRef} type="file" accept=".txt,.gift,.md,text/plain" className="hidden" onChange={handleFileChange} />
+              <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-600 hover:bg-slate-50 transition-all">
+                <FolderOpen size={14} /> Fichier
+              </button>
+              {result && format === 'auto' && (
+                <span className="ml-auto text-[10px] font-bold text-slate-400 uppercase tracking-wider">{TEXT_IMPORT_FORMAT_LABELS[result.format]}</span>
+              )}
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={PLACEHOLDERS[format]}
+              spellCheck={false}
+              className="flex-1 min-h-[300px] w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:border-indigo-500/30 focus:bg-white outline-none font-mono text-xs text-slate-700 resize-none"
+            />
+          </div>
+
+          <div className="flex flex-col gap-3 min-h-0 overflow-y-auto">
+            {result && result.errors.length > 0 && (
+              <div className="p-3 bg-rose-50 border border-rose-100 rounded-xl text-rose-700 text-xs space-y-1">
+                <div className="flex items-center gap-2 font-black mb-1"><AlertTriangle size={14} /> {result.errors.length} erreur(s)</div>
+                {result.errors.map((error, i) => (
+                  <div key={i}><span className="font-mono font-bold">Ligne {error.line}</span> : {error.message}</div>
+                ))}
+              </div>
+            )}
+            {result && result.questions.length > 0 ? (
+              result.questions.map((q, i) => (
+                <div key={q.id} className="p-3 border border-slate-100 rounded-xl text-sm">
+                  <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-1">
+                    <span className="text-indigo-600">{QUESTION_TYPE_LABELS[q.question_type]}</span>
+                    <span>•</span>
+                    <span className="truncate">{q.section_name}</span>
+                    <span className="ml-auto">{q.points} pts</span>
+                  </div>
+                  <div className="font-bold text-slate-800 whitespace-pre-wrap">{i + 1}. {q.question_text}</div>
+                  {q.options.length > 0 && (
+                    <ul className="mt-1 text-xs text-slate-500">
+                      {q.options.map(o => <li key={o.id} className={o.is_correct ? 'text-emerald-600 font-bold' : ''}>• {o.text}</li>)}
+                    </ul>
+                  )}
+                  {q.statements.length > 0 && (
+                    <ul className="mt-1 text-xs text-slate-500">
+                      {q.statements.map(st => <li key={st.id}>{st.text} <span className="font-bold text-emerald-600">({st.is_true ? 'Vrai' : 'Faux'})</span></li>)}
+                    </ul>
+                  )}
+                  {q.pairs.length > 0 && (
+                    <ul className="mt-1 text-xs text-slate-500">
+                      {q.pairs.map(p => <li key={p.id}>{p.left} → {p.right}</li>)}
+                    </ul>
+                  )}
+                  {q.cloze_text && <div className="mt-1 text-xs text-slate-500">{q.cloze_text}</div>}
+                  {q.teacher_answer && <div className="mt-1 text-xs text-emerald-700" dangerouslySetInnerHTML={{ __html: q.teacher_answer }} />}
+                </div>
+              ))
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-slate-300 italic text-sm p-8 border-2 border-dashed border-slate-100 rounded-xl">
+                Aperçu des questions reconnues
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-4 mt-6">
+          <button onClick={onCancel} className="flex-1 py-3 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-colors">
+            Annuler
+          </button>
+          <button
+            onClick={() => result && onConfirm(result.questions)}
+            disabled={!result || result.questions.length === 0}
+            className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-bold hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {result && result.errors.length > 0
+              ? `Ajouter les ${result.questions.length} question(s) valides`
+              : `Ajouter ${result?.questions.length || 0} question(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextImportDialog;
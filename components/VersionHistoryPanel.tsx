@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Evaluation, EvaluationVersion, Question } from '../types';
+import { dataService } from '../services/supabaseClient';
+import { QuestionDiff, diffEvaluations, htmlToPlainText, summarizeAnswer } from '../services/versionDiff';
+import { X, History, RotateCcw, Loader2, User } from 'lucide-react';
+
+interface VersionHistoryPanelProps {
+  evaluation: Evaluation; // État actuel de l'éditeur, comparé à la version sélectionnée
+  onRestore: (version: EvaluationVersion) => void;
+  onClose: () => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString('fr-FR', { dateStyle: 'medium', timeStyle: 'short' });
+
+const STATUS_LABELS: Record<QuestionDiff['status'], { label: string; className: string }> = {
+  added: { label: 'Ajoutée depuis', className: 'bg-emerald-50 text-emerald-700' },
+  removed: { label: 'Supprimée depuis', className: 'bg-rose-50 text-rose-700' },
+  modified: { label: 'Modifiée', className: 'bg-amber-50 text-amber-700' },
+  unchanged: { label: 'Identique', className: 'bg-slate-100 text-slate-400' }
+};
+
+const QuestionCell: React.FC<{ question: Question | null; changed: QuestionDiff['changed'] }> = ({ question, changed }) => {
+  if (!question) {
+    return <div className="rounded-xl border-2 border-dashed border-slate-100 min-h-[60px]"></div>;
+  }
+  const highlight = (isChanged: boolean) => isChanged ? 'bg-amber-50 ring-1 ring-amber-200 rounded px-1 -mx-1' : '';
+  const answer = summarizeAnswer(question);
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3 text-xs space-y-2">
+      <div className="flex justify-between gap-2 font-bold text-slate-400">
+        <span className={highlight(changed.section)}>{question.section_name || 'Sans section'}</span>
+        <span className={highlight(changed.points)}>{question.points ?? 0} pts{question.is_bonus && ' bonus'}</span>
+      </div>
+      <div className={`whitespace-pre-line font-semibold text-slate-800 ${highlight(changed.text)}`}>
+        {htmlToPlainText(question.question_text) || <span className="italic text-slate-300">Sans énoncé</span>}
+      </div>
+      {answer && (
+        <div className={`whitespace-pre-line text-slate-500 border-t border-slate-100 pt-2 ${highlight(changed.answer)}`}>
+          {answer}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({ evaluation, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<EvaluationVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    dataService.getEvaluationVersions(evaluation.id).then(result => {
+      setVersions(result);
+      setSelectedId(result[0]?.id || null);
+      setLoading(false);
+    });
+  }, [evaluation.id]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const diff = useMemo(() => selected ? diffEvaluations(selected.snapshot, evaluation) : null, [selected, evaluation]);
+  const changeCount = diff ? diff.questions.filter(row => row.status !== 'unchanged').length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[70] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] shadow-2xl max-w-6xl w-full h-[90vh] flex flex-col animate-fade-in relative overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-slate-100">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-50 text-indigo-600 rounded-xl"><History size={20} /></div>
+            <div>
+              <h3 className="text-2xl font-black text-slate-900 leading-none">Historique des versions</h3>
+              <p className="text-xs text-slate-400 font-bold mt-1">Un instantané par enregistrement, comparé à l'état actuel de l'éditeur</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:bg-slate-100 rounded-full transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-grow overflow-hidden">
+          <div className="w-64 flex-shrink-0 border-r border-slate-100 overflow-y-auto p-3 space-y-1">
+            {loading && (
+              <div className="p-6 flex justify-center text-slate-300"><Loader2 size={20} className="animate-spin" /></div>
+            )}
+            {!loading && versions.length === 0 && (
+              <p className="p-4 text-xs font-bold text-slate-400">Aucune version enregistrée pour le moment.</p>
+            )}
+            {versions.map((version, i) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left p-3 rounded-xl transition-all ${version.id === selectedId ? 'bg-indigo-50 ring-1 ring-indigo-200' : 'hover:bg-slate-50'}`}
+              >
+                <div className="text-sm font-bold text-slate-800">{formatDate(version.created_at)}</div>
+                <div className="flex items-center gap-1 text-[11px] font-semibold text-slate-400 mt-0.5 truncate">
+                  <User size={11} className="flex-shrink-0" /> {version.author || 'Mode local'}
+                </div>
+                {i === 0 && <div className="text-[9px] font-black uppercase tracking-wider text-indigo-500 mt-1">Dernier enregistrement</div>}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex-grow overflow-y-auto p-6">
+            {selected && diff ? (
+              <>
+                <div className="flex items-center justify-between gap-4 mb-4">
+                  <p className="text-sm font-bold text-slate-500">
+                    {changeCount === 0 && !diff.titleChanged
+                      ? "Aucune différence avec l'état actuel."
+                      : `${changeCount} question(s) différente(s)${diff.titleChanged ? ', titre modifié' : ''}.`}
+                  </p>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-bold shadow-lg shadow-indigo-200 transition-all text-xs uppercase tracking-wider"
+                  >
+                    <RotateCcw size={16} /> Restaurer cette version
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 sticky top-0 bg-white pb-2 z-10 text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
+                  <div className={diff.titleChanged ? 'text-amber-600' : ''}>Version du {formatDate(selected.created_at)} · {selected.snapshot.title || 'Sans titre'}</div>
+                  <div className={diff.titleChanged ? 'text-amber-600' : ''}>Actuelle · {evaluation.title || 'Sans titre'}</div>
+                </div>
+
+                <div className="space-y-3">
+                  {diff.questions.map(row => (
+                    <div key={(row.after || row.before)!.id}>
+                      <span className={`inline-block mb-1 px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-wider ${STATUS_LABELS[row.status].className}`}>
+                        {STATUS_LABELS[row.status].label}
+                      </span>
+                      <div className="grid grid-cols-2 gap-3">
+                        <QuestionCell question={row.before} changed={row.changed} />
+                        <QuestionCell question={row.after} changed={row.changed} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : !loading && (
+              <p className="text-sm font-bold text-slate-400 text-center mt-20">Sélectionnez une version pour la comparer.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,59 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+
+// Comptes enseignants (Supabase Auth). Sans Supabase, l'application reste en mode démo sans connexion.
+
+// Messages de Supabase Auth traduits pour l'écran de connexion
+const translateAuthError = (message: string) => {
+  if (/invalid login credentials/i.test(message)) return "Adresse e-mail ou mot de passe incorrect.";
+  if (/email not confirmed/i.test(message)) return "Adresse e-mail non confirmée : ouvrez le lien reçu par e-mail.";
+  if (/already registered/i.test(message)) return "Un compte existe déjà avec cette adresse e-mail.";
+  if (/password should be at least/i.test(message)) return "Le mot de passe doit contenir au moins 6 caractères.";
+  if (/rate limit/i.test(message)) return "Trop de tentatives : réessayez dans quelques minutes.";
+  return message;
+};
+
+const throwAuthError = (error: { message: string } | null) => {
+  if (error) throw new Error(translateAuthError(error.message));
+};
+
+export const authService = {
+  getSession: async (): Promise<Session | null> => {
+    if (!supabase) return null;
+    const { data } = await supabase.auth.getSession();
+    return data.session;
+  },
+
+  // Retourne la fonction de désabonnement
+  onSessionChange: (callback: (session: Session | null) => void): (() => void) => {
+    if (!supabase) return () => {};
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(session));
+    return () => data.subscription.unsubscribe();
+  },
+
+  signIn: async (email: string, password: string): Promise<void> => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    throwAuthError(error);
+  },
+
+  // Retourne true si une confirmation par e-mail est nécessaire avant la première connexion
+  signUp: async (email: string, password: string): Promise<boolean> => {
+    if (!supabase) return false;
+    const { data, error } = await supabase.auth.signUp({ email, password, options: { emailRedirectTo: window.location.origin } });
+    throwAuthError(error);
+    return !data.session;
+  },
+
+  sendMagicLink: async (email: string): Promise<void> => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: window.location.origin } });
+    throwAuthError(error);
+  },
+
+  signOut: async (): Promise<void> => {
+    if (!supabase) return;
+    const { error } = await supabase.auth.signOut();
+    throwAuthError(error);
+  }
+};
@@ -0,0 +1,253 @@
+import { BundleScope, Category, DocumentHeaderOverrides, Evaluation, EvaluationBundle, Question } from '../types';
+import { dataService, supabase } from './supabaseClient';
+import { normalizeQuestion } from './questionTypes';
+import { remapSectionIds } from './sections';
+import { fetchAsDataUrl, uploadImage } from './imageService';
+import { slugify } from './pdfExport';
+import { downloadBlob } from './download';
+
+// Format de sauvegarde versionné : toute évolution du schéma incrémente BUNDLE_VERSION
+export const BUNDLE_FORMAT = 'dcb-evaluations';
+export const BUNDLE_VERSION = 1;
+
+const IMAGE_KEY_PREFIX = 'bundle:';
+const IMG_SRC_PATTERN = /(<img\b[^>]*?\bsrc=")([^"]+)(")/gi;
+
+export interface BundleImportOptions {
+  categoryConflict: 'merge' | 'create'; // Matière existante portant le même nom
+  evaluationConflict: 'replace' | 'copy' | 'skip'; // Évaluation déjà présente (même identifiant)
+}
+
+export interface BundleConflicts {
+  categoryNames: string[];
+  evaluationTitles: string[];
+}
+
+export interface BundleImportReport {
+  categoriesCreated: number;
+  categoriesMerged: number;
+  evaluationsCreated: number;
+  evaluationsReplaced: number;
+  evaluationsSkipped: number;
+  failures: { title: string; message: string }[]; // Évaluations non importées ; les autres sont conservées
+}
+
+// Les identifiants de la base sont des UUID : ceux des données de démonstration ('101', 'q1'...) sont remplacés
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const replaceImageSources = (html: string, replace: (src: string) => string) =>
+  html.replace(IMG_SRC_PATTERN, (_, before, src, after) => before + replace(src) + after);
+
+const collectImageSources = (html: string | null, sources: Set<string>) => {
+  if (!html) return;
+  for (const match of html.matchAll(IMG_SRC_PATTERN)) sources.add(match[2]);
+};
+
+const mapQuestionHtml = (question: Question, replace: (src: string) => string): Question => ({
+  ...question,
+  teacher_answer: replaceImageSources(question.teacher_answer, replace),
+  student_prompt: question.student_prompt === null ? null : replaceImageSources(question.student_prompt, replace)
+});
+
+// Logo de l'en-tête (matière ou évaluation), traité comme les images des questions
+const mapHeaderLogo = (header: DocumentHeaderOverrides | null | undefined, replace: (src: string) => string) =>
+  header?.logo_url ? { ...header, logo_url: replace(header.logo_url) } : header;
+
+// --- Export ---
+
+export const buildBundle = async (scope: BundleScope, categories: Category[], evaluations: Evaluation[]): Promise<EvaluationBundle> => {
+  const usedCategoryIds = new Set(evaluations.map(ev => ev.category_id));
+  const exportedCategories = categories.filter(c => scope === 'workspace' || usedCategoryIds.has(c.id));
+
+  const sources = new Set<string>();
+  evaluations.forEach(ev => {
+    if (ev.header?.logo_url) sources.add(ev.header.logo_url);
+    ev.questions.forEach(q => {
+      collectImageSources(q.teacher_answer, sources);
+      collectImageSources(q.student_prompt, sources);
+    });
+  });
+  exportedCategories.forEach(c => { if (c.header?.logo_url) sources.add(c.header.logo_url); });
+
+  // Les images sont intégrées une seule fois, puis référencées par clé dans le HTML et les en-têtes.
+  // Une image inaccessible (CORS, lien mort) garde son adresse d'origine.
+  const images: Record<string, string> = {};
+  const keys = new Map<string, string>();
+  for (const src of sources) {
+    const data = await fetchAsDataUrl(src);
+    if (!data) continue;
+    const key = `${IMAGE_KEY_PREFIX}img-${keys.size + 1}`;
+    keys.set(src, key);
+    images[key] = data;
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    scope,
+    exported_at: new Date().toISOString(),
+    categories: exportedCategories.map(({ id, name, color, header }) => ({
+      id, name, color, header: mapHeaderLogo(header, src => keys.get(src) || src)
+    })),
+    evaluations: evaluations.map(({ questions, ...ev }) => {
+      // Champs propres à la base (propriétaire, clé étrangère) exclus du fichier
+      const { user_id, ...evaluation } = ev as Omit<Evaluation, 'questions'> & { user_id?: string };
+      return {
+        ...evaluation,
+        header: mapHeaderLogo(evaluation.header, src => keys.get(src) || src),
+        sections: (evaluation.sections || []).map(({ evaluation_id, ...section }) => section),
+        questions: questions.map(q => {
+          // Le lien vers la banque n'a de sens que dans l'espace d'origine
+          const { evaluation_id, bank_item_id, ...question } = mapQuestionHtml(q, src => keys.get(src) || src);
+          return question;
+        })
+      };
+    }),
+    images
+  };
+};
+
+export const downloadBundle = async (scope: BundleScope, categories: Category[], evaluations: Evaluation[], name: string) => {
+  const bundle = await buildBundle(scope, categories, evaluations);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${slugify(name)}.json`);
+};
+
+// --- Import ---
+
+export const parseBundle = (text: string): EvaluationBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Fichier illisible : ce n'est pas un fichier JSON valide.");
+  }
+  if (!raw || raw.format !== BUNDLE_FORMAT) {
+    throw new Error("Ce fichier n'est pas une sauvegarde d'évaluations.");
+  }
+  if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+    throw new Error("Ce fichier provient d'une version plus récente de l'application.");
+  }
+  if (!Array.isArray(raw.categories) || !Array.isArray(raw.evaluations)) {
+    throw new Error("Sauvegarde incomplète : matières ou évaluations manquantes.");
+  }
+
+  return {
+    ...raw,
+    images: raw.images || {},
+    evaluations: raw.evaluations.map((ev: any) => ({
+      ...ev,
+      questions: (ev.questions || []).map(normalizeQuestion)
+    }))
+  };
+};
+
+export const detectConflicts = (bundle: EvaluationBundle, categories: Category[], evaluations: Evaluation[]): BundleConflicts => ({
+  categoryNames: bundle.categories
+    .filter(cat => !categories.some(c => c.id === cat.id) && categories.some(c => sameName(c.name, cat.name)))
+    .map(cat => cat.name),
+  evaluationTitles: bundle.evaluations
+    .filter(ev => evaluations.some(e => e.id === ev.id))
+    .map(ev => ev.title)
+});
+
+const uniqueName = (name: string, categories: Category[]) => {
+  let candidate = `${name} (importé)`;
+  for (let i = 2; categories.some(c => sameName(c.name, candidate)); i++) {
+    candidate = `${name} (importé ${i})`;
+  }
+  return candidate;
+};
+
+const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const importBundle = async (bundle: EvaluationBundle, options: BundleImportOptions): Promise<BundleImportReport> => {
+  const report: BundleImportReport = {
+    categoriesCreated: 0, categoriesMerged: 0, evaluationsCreated: 0, evaluationsReplaced: 0, evaluationsSkipped: 0, failures: []
+  };
+  const [categories, evaluations] = await Promise.all([dataService.getCategories(), dataService.getEvaluations()]);
+
+  // Chaque image n'est envoyée qu'une fois, même si plusieurs questions la partagent
+  const uploads = new Map<string, Promise<string>>();
+  const restoreImage = (key: string) => {
+    if (!uploads.has(key)) {
+      uploads.set(key, dataUrlToBlob(bundle.images[key]).then(uploadImage));
+    }
+    return uploads.get(key)!;
+  };
+  const restoreHeader = async (header: DocumentHeaderOverrides | null | undefined) => {
+    const logo = header?.logo_url;
+    return logo && bundle.images[logo] ? { ...header, logo_url: await restoreImage(logo) } : header;
+  };
+
+  // Identifiant de matière dans le fichier -> identifiant dans l'espace de travail
+  const categoryIds = new Map<string, string>();
+  for (const cat of bundle.categories) {
+    const existing = categories.find(c => c.id === cat.id)
+      || (options.categoryConflict === 'merge' ? categories.find(c => sameName(c.name, cat.name)) : undefined);
+    if (existing) {
+      // Matière regroupée : son en-tête n'est repris que si elle n'en a pas encore
+      if (cat.header && !existing.header) {
+        await dataService.updateCategoryHeader(existing.id, (await restoreHeader(cat.header))!);
+      }
+      categoryIds.set(cat.id, existing.id);
+      report.categoriesMerged++;
+      continue;
+    }
+    const name = categories.some(c => sameName(c.name, cat.name)) ? uniqueName(cat.name, categories) : cat.name;
+    const created = await dataService.addCategory({ name, color: cat.color, header: await restoreHeader(cat.header) });
+    categories.push(created);
+    categoryIds.set(cat.id, created.id);
+    report.categoriesCreated++;
+  }
+
+  for (const ev of bundle.evaluations) {
+    const exists = evaluations.some(e => e.id === ev.id);
+    if (exists && options.evaluationConflict === 'skip') {
+      report.evaluationsSkipped++;
+      continue;
+    }
+    const copy = exists && options.evaluationConflict === 'copy';
+
+    // Une évaluation en échec n'interrompt pas l'import des suivantes
+    try {
+      const sources = new Set<string>();
+      ev.questions.forEach(q => {
+        collectImageSources(q.teacher_answer, sources);
+        collectImageSources(q.student_prompt, sources);
+      });
+      const urls = new Map<string, string>();
+      for (const src of sources) {
+        if (bundle.images[src]) urls.set(src, await restoreImage(src));
+      }
+
+      const keepId = (id: string) => copy || (supabase && !UUID_PATTERN.test(id)) ? crypto.randomUUID() : id;
+
+      // Import volontaire : écrase la version existante sans contrôle de version
+      const withSections = remapSectionIds(ev, keepId);
+      await dataService.saveEvaluation({
+        ...withSections,
+        id: keepId(ev.id),
+        title: copy ? `${ev.title} (copie)` : ev.title,
+        header: await restoreHeader(ev.header),
+        // Matière absente du fichier : l'identifiant d'origine n'existe pas dans cet espace
+        category_id: (ev.category_id && categoryIds.get(ev.category_id)) || null,
+        created_at: ev.created_at || new Date().toISOString(),
+        questions: withSections.questions.map(q => ({
+          ...mapQuestionHtml(q, src => urls.get(src) || src),
+          id: keepId(q.id),
+          bank_item_id: null
+        }))
+      }, { force: true });
+      if (exists && !copy) report.evaluationsReplaced++;
+      else report.evaluationsCreated++;
+    } catch (error: any) {
+      console.error("Error importing evaluation:", error);
+      report.failures.push({ title: ev.title, message: error?.message || 'Erreur inconnue' });
+    }
+  }
+
+  return report;
+};
@@ -0,0 +1,103 @@
+import { Competency, CompetencyLevel, Evaluation } from '../types';
+import { supabase, getSessionUserId } from './supabaseClient';
+
+// Référentiel de compétences et positionnement des élèves (Non acquis à Dépassé)
+
+const SOCLE_D1 = 'D1 — Les langages pour penser et communiquer';
+
+let MOCK_COMPETENCIES: Competency[] = [
+  { id: 'c-d1-1', code: 'D1.1', label: "Comprendre, s'exprimer en utilisant la langue française à l'oral et à l'écrit", domain: SOCLE_D1 },
+  { id: 'c-d1-2', code: 'D1.2', label: "Comprendre, s'exprimer en utilisant une langue étrangère ou régionale", domain: SOCLE_D1 },
+  { id: 'c-d1-3', code: 'D1.3', label: "Comprendre, s'exprimer en utilisant les langages mathématiques, scientifiques et informatiques", domain: SOCLE_D1 },
+  { id: 'c-d1-4', code: 'D1.4', label: "Comprendre, s'exprimer en utilisant les langages des arts et du corps", domain: SOCLE_D1 },
+  { id: 'c-d2', code: 'D2', label: 'Les méthodes et outils pour apprendre', domain: '' },
+  { id: 'c-d3', code: 'D3', label: 'La formation de la personne et du citoyen', domain: '' },
+  { id: 'c-d4', code: 'D4', label: 'Les systèmes naturels et les systèmes techniques', domain: '' },
+  { id: 'c-d5', code: 'D5', label: "Les représentations du monde et l'activité humaine", domain: '' }
+];
+
+export const COMPETENCY_LEVELS: CompetencyLevel[] = ['not_acquired', 'in_progress', 'acquired', 'exceeded'];
+
+export const COMPETENCY_LEVEL_LABELS: Record<CompetencyLevel, string> = {
+  not_acquired: 'Non acquis',
+  in_progress: 'En cours',
+  acquired: 'Acquis',
+  exceeded: 'Dépassé'
+};
+
+export const COMPETENCY_LEVEL_COLORS: Record<CompetencyLevel, string> = {
+  not_acquired: '#dc2626',
+  in_progress: '#f59e0b',
+  acquired: '#16a34a',
+  exceeded: '#2563eb'
+};
+
+// Part minimale des points obtenus pour atteindre chaque niveau au-delà de "Non acquis"
+const LEVEL_THRESHOLDS: [CompetencyLevel, number][] = [['exceeded', 0.9], ['acquired', 0.7], ['in_progress', 0.4]];
+
+export const getCompetencyLevel = (rate: number): CompetencyLevel =>
+  LEVEL_THRESHOLDS.find(([, min]) => rate >= min)?.[0] || 'not_acquired';
+
+const sortCompetencies = (competencies: Competency[]) =>
+  [...competencies].sort((a, b) => a.code.localeCompare(b.code, 'fr', { numeric: true }) || a.label.localeCompare(b.label, 'fr'));
+
+// "D1.3 — Comprendre..." ; le code est facultatif
+export const formatCompetency = (competency: Competency) =>
+  competency.code ? `${competency.code} — ${competency.label}` : competency.label;
+
+// Compétences du référentiel évaluées par au moins une question, dans l'ordre du référentiel
+export const getEvaluationCompetencies = (evaluation: Evaluation, competencies: Competency[]) => {
+  const used = new Set(evaluation.questions.flatMap(q => q.competency_ids || []));
+  return competencies.filter(c => used.has(c.id));
+};
+
+export const competencyService = {
+  getCompetencies: async (): Promise<Competency[]> => {
+    if (supabase) {
+      const userId = await getSessionUserId();
+      if (!userId) return [];
+      const { data, error } = await supabase.from('competencies').select('*').eq('user_id', userId);
+      if (error) {
+        console.error("Supabase Error:", error);
+        return sortCompetencies(MOCK_COMPETENCIES);
+      }
+      return sortCompetencies(data || []);
+    }
+    return Promise.resolve(sortCompetencies(MOCK_COMPETENCIES));
+  },
+
+  addCompetency: async (competency: Omit<Competency, 'id'>): Promise<Competency> => {
+    if (supabase) {
+      const { data, error } = await supabase.from('competencies').insert(competency).select().single();
+      if (error) throw error;
+      return data;
+    }
+    const created = { ...competency, id: crypto.randomUUID() };
+    MOCK_COMPETENCIES = [...MOCK_COMPETENCIES, created];
+    return Promise.resolve(created);
+  },
+
+  updateCompetency: async (competency: Competency): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase
+        .from('competencies')
+        .update({ code: competency.code, label: competency.label, domain: competency.domain })
+        .eq('id', competency.id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_COMPETENCIES = MOCK_COMPETENCIES.map(c => c.id === competency.id ? competency : c);
+    return Promise.resolve();
+  },
+
+  // Les questions gardent l'identifiant, ignoré tant qu'il ne correspond à aucune compétence
+  deleteCompetency: async (id: string): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase.from('competencies').delete().eq('id', id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_COMPETENCIES = MOCK_COMPETENCIES.filter(c => c.id !== id);
+    return Promise.resolve();
+  }
+};
@@ -0,0 +1,85 @@
+import { Category, DocumentHeader, DocumentHeaderOverrides, Evaluation } from '../types';
+import { supabase, getSessionUserId, requireUserId } from './supabaseClient';
+
+// En-tête des copies : réglages de l'enseignant, puis de la matière, puis de l'évaluation
+
+export const DEFAULT_DOCUMENT_HEADER: DocumentHeader = {
+  school_name: '',
+  logo_url: '',
+  class_name: '',
+  date: '',
+  duration: '',
+  allowed_materials: '',
+  instructions: '',
+  show_student_name: true
+};
+
+export const HEADER_FIELD_LABELS: Record<keyof DocumentHeader, string> = {
+  school_name: 'Établissement',
+  logo_url: 'Logo',
+  class_name: 'Classe',
+  date: 'Date',
+  duration: 'Durée',
+  allowed_materials: 'Matériel autorisé',
+  instructions: 'Consignes générales',
+  show_student_name: 'Champs Nom / Prénom'
+};
+
+export const ALLOWED_MATERIALS_SUGGESTIONS = [
+  'Calculatrice autorisée',
+  'Calculatrice interdite',
+  'Dictionnaire autorisé',
+  'Aucun document autorisé'
+];
+
+let MOCK_HEADER_DEFAULTS: DocumentHeaderOverrides = {};
+
+// Les niveaux suivants remplacent les champs qu'ils définissent
+export const resolveDocumentHeader = (...levels: (DocumentHeaderOverrides | null | undefined)[]): DocumentHeader =>
+  levels.reduce<DocumentHeader>((header, level) => {
+    if (!level) return header;
+    const defined = Object.entries(level).filter(([, value]) => value !== undefined && value !== null);
+    return { ...header, ...Object.fromEntries(defined) };
+  }, { ...DEFAULT_DOCUMENT_HEADER });
+
+// En-tête imprimé pour une évaluation
+export const getEvaluationHeader = (
+  defaults: DocumentHeaderOverrides | null | undefined,
+  category: Category | undefined,
+  evaluation: Evaluation
+) => resolveDocumentHeader(defaults, category?.header, evaluation.header);
+
+// "Durée : 1 h · Calculatrice autorisée"
+export const headerInfoLine = (header: DocumentHeader) =>
+  [header.duration ? `Durée : ${header.duration}` : null, header.allowed_materials || null].filter(Boolean).join(' · ');
+
+export const headerService = {
+  getDefaults: async (): Promise<DocumentHeaderOverrides> => {
+    if (supabase) {
+      const userId = await getSessionUserId();
+      if (!userId) return {};
+      const { data, error } = await supabase
+        .from('teacher_settings')
+        .select('document_header')
+        .eq('user_id', userId)
+        .maybeSingle();
+      if (error) {
+        console.error("Supabase Error:", error);
+        return MOCK_HEADER_DEFAULTS;
+      }
+      return data?.document_header || {};
+    }
+    return Promise.resolve(MOCK_HEADER_DEFAULTS);
+  },
+
+  saveDefaults: async (header: DocumentHeaderOverrides): Promise<void> => {
+    if (supabase) {
+      const userId = await requireUserId();
+      const { error } = await supabase.from('teacher_settings').upsert({ user_id: userId, document_header: header });
+      if (error) throw error;
+      return;
+    }
+    MOCK_HEADER_DEFAULTS = header;
+    return Promise.resolve();
+  }
+};
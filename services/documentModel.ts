@@ -0,0 +1,274 @@
+import { Category, DocumentHeader, Evaluation, Question } from '../types';
+import { parseCloze, getMatchingRightColumn } from './questionTypes';
+import { getBonusPoints, getQuestionNumbers, getSectionPoints, groupQuestionsBySection, sectionMetaLabel } from './sections';
+import { describeGradingScale, formatPoints, getScaleTotal, questionPointsLabel } from './gradingScale';
+import { headerInfoLine } from './documentHeader';
+import { convertToPng } from './imageService';
+
+// Représentation neutre d'un sujet, partagée par les exports bureautiques (DOCX, ODT)
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  color?: string; // Hex sans '#'
+  lineBreak?: boolean; // Saut de ligne avant le texte
+}
+
+export type DocBlock =
+  | { type: 'title'; text: string; subtitle?: string; color: string; textColor: string; date: string; note: string } // note : "Note : ........ / 20"
+  | { type: 'section'; title: string; meta: string } // meta : "(6 pts · 20 min)"
+  | { type: 'question'; number: string; runs: TextRun[]; points: string } // points : "/ 2", "Bonus / 1" ou ''
+  | { type: 'paragraph'; runs: TextRun[]; answer?: boolean }
+  | { type: 'heading'; runs: TextRun[]; level: 1 | 2 }
+  | { type: 'list'; ordered: boolean; items: TextRun[][]; answer?: boolean }
+  | { type: 'answer_lines'; count: number }
+  | { type: 'image'; src: string; widthPercent: number };
+
+export interface DocumentModel {
+  title: string;
+  blocks: DocBlock[];
+}
+
+const CORRECT_COLOR = '15803D';
+const CHECKBOX_EMPTY = '☐';
+const CHECKBOX_CHECKED = '☒';
+
+const getContrastColor = (hexColor: string) => {
+  const r = parseInt(hexColor.substr(1, 2), 16);
+  const g = parseInt(hexColor.substr(3, 2), 16);
+  const b = parseInt(hexColor.substr(5, 2), 16);
+  const yiq = ((r * 299) + (g * 587) + (b * 114)) / 1000;
+  return yiq >= 128 ? '000000' : 'FFFFFF';
+};
+
+// --- Conversion du HTML de l'éditeur riche ---
+
+type RunFormat = Omit<TextRun, 'text' | 'lineBreak'>;
+
+const collectRuns = (node: Node, format: RunFormat, runs: TextRun[]) => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ');
+    if (text) runs.push({ text, ...format });
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+  const el = node as HTMLElement;
+  const tag = el.tagName.toLowerCase();
+
+  if (tag === 'br') {
+    runs.push({ text: '', lineBreak: true, ...format });
+    return;
+  }
+  // Les équations sont exportées sous forme de source LaTeX
+  if (el.classList.contains('math-equation')) {
+    runs.push({ text: el.dataset.latex || el.textContent || '', ...format, italic: true });
+    return;
+  }
+  const next: RunFormat = { ...format };
+  if (tag === 'b' || tag === 'strong') next.bold = true;
+  if (tag === 'i' || tag === 'em') next.italic = true;
+  if (tag === 'u') next.underline = true;
+  if (tag === 'sup') next.superscript = true;
+  if (tag === 'sub') next.subscript = true;
+  el.childNodes.forEach(child => collectRuns(child, next, runs));
+};
+
+const BLOCK_TAGS = ['p', 'div', 'h1', 'h2', 'h3', 'h4', 'ul', 'ol', 'img', 'blockquote'];
+
+export const htmlToBlocks = (html: string, answer = false): DocBlock[] => {
+  if (!html || typeof DOMParser === 'undefined') return [];
+  const root = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild!;
+  const blocks: DocBlock[] = [];
+  let pending: TextRun[] = [];
+
+  const flushInline = () => {
+    if (pending.some(r => r.text.trim() || r.lineBreak)) {
+      blocks.push({ type: 'paragraph', runs: pending, answer });
+    }
+    pending = [];
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as HTMLElement;
+      const tag = el.tagName.toLowerCase();
+      if (BLOCK_TAGS.includes(tag)) {
+        flushInline();
+        if (tag === 'img') {
+          const width = parseInt(el.style.width);
+          blocks.push({ type: 'image', src: el.getAttribute('src') || '', widthPercent: el.style.width.includes('%') && width ? width : 50 });
+        } else if (tag === 'ul' || tag === 'ol') {
+          const items = Array.from(el.children)
+            .filter(li => li.tagName.toLowerCase() === 'li')
+            .map(li => { const runs: TextRun[] = []; collectRuns(li, {}, runs); return runs; });
+          blocks.push({ type: 'list', ordered: tag === 'ol', items, answer });
+        } else if (/^h[1-4]$/.test(tag)) {
+          const runs: TextRun[] = [];
+          collectRuns(el, {}, runs);
+          blocks.push({ type: 'heading', runs, level: tag === 'h1' ? 1 : 2 });
+        } else if (el.querySelector(BLOCK_TAGS.join(','))) {
+          // Conteneur mêlant texte et blocs : on descend
+          el.childNodes.forEach(visit);
+          flushInline();
+        } else {
+          collectRuns(el, {}, pending);
+          flushInline();
+        }
+        return;
+      }
+    }
+    collectRuns(node, {}, pending);
+  };
+
+  root.childNodes.forEach(visit);
+  flushInline();
+  return blocks;
+};
+
+// Estimation du nombre de lignes d'écriture : l'aperçu les mesure, ici on se base sur la longueur du corrigé
+const estimateAnswerLines = (q: Question) => {
+  const text = q.teacher_answer.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  const paragraphs = (q.teacher_answer.match(/<(p|br|li|div)\b/g) || []).length;
+  return Math.max(2, Math.ceil(text.length / 75) + Math.max(0, paragraphs - 1) + 1);
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const questionAnswerBlocks = (q: Question, teacher: boolean): DocBlock[] => {
+  const correct = (text: string): TextRun => ({ text, bold: true, color: CORRECT_COLOR });
+  const explanation = teacher ? htmlToBlocks(q.teacher_answer, true) : [];
+
+  switch (q.question_type) {
+    case 'qcm':
+      return [
+        ...q.options.map((opt, i): DocBlock => {
+          const checked = teacher && opt.is_correct;
+          const text = `${checked ? CHECKBOX_CHECKED : CHECKBOX_EMPTY}  ${letter(i)}. ${opt.text}`;
+          return { type: 'paragraph', runs: [checked ? correct(text) : { text }] };
+        }),
+        ...explanation
+      ];
+    case 'true_false':
+      return [
+        ...q.statements.map((st, i): DocBlock => ({
+          type: 'paragraph',
+          runs: [
+            { text: `${i + 1}. ${st.text}    ` },
+            teacher && st.is_true ? correct(`${CHECKBOX_CHECKED} Vrai`) : { text: `${CHECKBOX_EMPTY} Vrai` },
+            { text: '    ' },
+            teacher && !st.is_true ? correct(`${CHECKBOX_CHECKED} Faux`) : { text: `${CHECKBOX_EMPTY} Faux` }
+          ]
+        })),
+        ...explanation
+      ];
+    case 'matching': {
+      const rightColumn = getMatchingRightColumn(q.pairs);
+      return [
+        ...q.pairs.map((pair, i): DocBlock => ({
+          type: 'paragraph',
+          runs: [
+            { text: `${i + 1}. ${pair.left}  •` },
+            teacher ? correct(`      ${i + 1} → ${letter(rightColumn.findIndex(r => r.id === pair.id))}      `) : { text: '                    ' },
+            { text: `•  ${letter(i)}. ${rightColumn[i].right}` }
+          ]
+        })),
+        ...explanation
+      ];
+    }
+    case 'cloze':
+      return [
+        {
+          type: 'paragraph',
+          runs: parseCloze(q.cloze_text).map((part): TextRun => part.type === 'text'
+            ? { text: part.value }
+            : teacher
+              ? { ...correct(part.answer), underline: true }
+              : { text: '_'.repeat(Math.max(8, part.answer.length + 2)) })
+        },
+        ...explanation
+      ];
+    default:
+      if (teacher) return explanation;
+      return q.student_prompt
+        ? htmlToBlocks(q.student_prompt)
+        : [{ type: 'answer_lines', count: estimateAnswerLines(q) }];
+  }
+};
+
+export const buildDocumentModel = (
+  evaluation: Evaluation,
+  category: Category | undefined,
+  mode: 'student' | 'teacher',
+  header: DocumentHeader,
+  variantLabel?: string | null
+): DocumentModel => {
+  const color = category?.color || '#3b82f6';
+  const teacher = mode === 'teacher';
+  const blocks: DocBlock[] = [];
+  if (header.logo_url) blocks.push({ type: 'image', src: header.logo_url, widthPercent: 20 });
+  if (header.school_name) blocks.push({ type: 'paragraph', runs: [{ text: header.school_name.toUpperCase(), bold: true }] });
+  blocks.push({
+    type: 'title',
+    text: evaluation.title,
+    subtitle: [teacher ? 'Corrigé' : null, variantLabel].filter(Boolean).join(' — ') || undefined,
+    color: color.replace('#', '').toUpperCase(),
+    textColor: getContrastColor(color),
+    date: `Date : ${header.date || '..../..../....'}`,
+    note: `Note : ........ / ${formatPoints(getScaleTotal(evaluation))}${teacher ? ` (${describeGradingScale(evaluation)})` : ''}`
+  });
+
+  // Champs de l'en-tête repris en paragraphes sous le titre
+  const blank = '....................';
+  const identity = [
+    ...(header.show_student_name ? [`Nom : ${blank}`, `Prénom : ${blank}`] : []),
+    ...(header.show_student_name || header.class_name ? [`Classe : ${header.class_name || blank}`] : [])
+  ];
+  if (identity.length) blocks.push({ type: 'paragraph', runs: [{ text: identity.join('    '), bold: true }] });
+  const infoLine = headerInfoLine(header);
+  if (infoLine) blocks.push({ type: 'paragraph', runs: [{ text: infoLine, bold: true }] });
+  if (header.instructions) {
+    blocks.push({ type: 'paragraph', runs: header.instructions.split('\n').map((text, i) => ({ text, italic: true, lineBreak: i > 0 })) });
+  }
+
+  const numbers = getQuestionNumbers(evaluation);
+  groupQuestionsBySection(evaluation).forEach(({ section, questions }) => {
+    blocks.push({ type: 'section', title: section.title, meta: sectionMetaLabel(section, getSectionPoints(section, questions), getBonusPoints(questions)) });
+    if (section.instructions) {
+      const runs = section.instructions.split('\n').map((text, i) => ({ text, italic: true, lineBreak: i > 0 }));
+      blocks.push({ type: 'paragraph', runs });
+    }
+    questions.forEach(q => {
+      blocks.push({ type: 'question', number: numbers.get(q.id)!, runs: [{ text: q.question_text, bold: true }], points: questionPointsLabel(evaluation, q, teacher) });
+      blocks.push(...questionAnswerBlocks(q, teacher));
+    });
+  });
+
+  return { title: evaluation.title, blocks };
+};
+
+// Récupère les octets et la taille d'une image (URL publique ou data URL)
+export const loadImageData = async (src: string): Promise<{ data: Uint8Array; extension: 'png' | 'jpeg' | 'gif'; width: number; height: number } | null> => {
+  try {
+    const response = await fetch(src);
+    const source = await response.blob();
+    // SVG, WebP... ne sont pas lus par tous les traitements de texte : convertis en PNG
+    const blob = ['image/png', 'image/jpeg', 'image/gif'].includes(source.type) ? source : await convertToPng(source);
+    const extension = blob.type === 'image/jpeg' ? 'jpeg' : blob.type === 'image/gif' ? 'gif' : 'png';
+    const url = URL.createObjectURL(blob);
+    const size = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      img.onerror = reject;
+      img.src = url;
+    });
+    URL.revokeObjectURL(url);
+    return { data: new Uint8Array(await blob.arrayBuffer()), extension, ...size };
+  } catch (error) {
+    console.warn("Image non exportée :", src, error);
+    return null;
+  }
+};
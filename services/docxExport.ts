@@ -0,0 +1,168 @@
+import { DocBlock, DocumentModel, TextRun, loadImageData } from './documentModel';
+
+// Export Word (Office Open XML) : document écrit à la main dans une archive zip
+
+const CONTENT_WIDTH_TWIPS = 9638; // 17 cm : A4 moins 2 x 2 cm de marges
+const CONTENT_WIDTH_EMU = 6120000;
+const ANSWER_LINE_TWIPS = 454; // ~8 mm, comme les lignes de l'aperçu
+const SECTION_COLOR = 'DC2626';
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const runXml = (run: TextRun) => {
+  const props = [
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+    // Ordre imposé par le schéma de w:rPr
+    run.color ? `<w:color w:val="${run.color}"/>` : '',
+    run.underline ? '<w:u w:val="single"/>' : '',
+    run.superscript ? '<w:vertAlign w:val="superscript"/>' : run.subscript ? '<w:vertAlign w:val="subscript"/>' : ''
+  ].join('');
+  // Les tabulations doivent être des éléments <w:tab/>, pas des caractères dans <w:t>
+  const text = run.text.split('\t').map(part => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${run.lineBreak ? '<w:br/>' : ''}${text}</w:r>`;
+};
+
+const paragraphXml = (runs: TextRun[], pPr = '') => `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs.map(runXml).join('')}</w:p>`;
+
+const ANSWER_PPR = '<w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="22C55E"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F0FDF4"/><w:ind w:left="340"/>';
+
+const imageXml = (relId: string, index: number, width: number, height: number) => `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:drawing>
+<wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${width}" cy="${height}"/><wp:docPr id="${index}" name="Image ${index}"/>
+<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
+<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${index}" name="Image ${index}"/><pic:cNvPicPr/></pic:nvPicPr>
+<pic:blipFill><a:blip r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>
+<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>
+</a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial"/><w:sz w:val="24"/><w:lang w:val="fr-FR"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="300" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:jc w:val="center"/><w:spacing w:before="120" w:after="240"/></w:pPr><w:rPr><w:b/><w:caps/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="${SECTION_COLOR}"/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Question"><w:name w:val="Question"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="160"/></w:pPr><w:rPr><w:b/><w:color w:val="1E3A8A"/></w:rPr></w:style>
+</w:styles>`;
+
+const numberingXml = (orderedNumIds: number[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="decimal"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num>
+${orderedNumIds.map(id => `<w:num w:numId="${id}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`).join('\n')}
+</w:numbering>`;
+
+export const buildDocx = async (model: DocumentModel): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const body: string[] = [];
+  const imageRels: string[] = [];
+  const orderedNumIds: number[] = [];
+  let nextNumId = 2;
+
+  const blockXml = async (block: DocBlock): Promise<string> => {
+    switch (block.type) {
+      case 'title': {
+        const subtitle = block.subtitle ? [{ text: block.subtitle, lineBreak: true, color: block.textColor }] : [];
+        return paragraphXml(
+          [{ text: block.text, color: block.textColor }, ...subtitle],
+          `<w:pStyle w:val="Title"/><w:shd w:val="clear" w:color="auto" w:fill="${block.color}"/>`
+        ) + paragraphXml(
+          [{ text: block.date }, { text: `\t${block.note}`, bold: true }],
+          `<w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH_TWIPS}"/></w:tabs><w:spacing w:after="240"/>`
+        );
+      }
+      case 'section':
+        return paragraphXml(
+          [{ text: block.title }, { text: `\t${block.meta}` }],
+          `<w:pStyle w:val="Heading1"/><w:pBdr><w:bottom w:val="single" w:sz="12" w:space="1" w:color="${SECTION_COLOR}"/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH_TWIPS}"/></w:tabs>`
+        );
+      case 'question':
+        return paragraphXml(
+          [{ text: `${block.number}. ` }, ...block.runs, ...(block.points ? [{ text: `\t${block.points}`, color: '94A3B8' }] : [])],
+          `<w:pStyle w:val="Question"/><w:tabs><w:tab w:val="right" w:pos="${CONTENT_WIDTH_TWIPS}"/></w:tabs>`
+        );
+      case 'paragraph':
+        return paragraphXml(block.runs, block.answer ? ANSWER_PPR : '<w:ind w:left="340"/>');
+      case 'heading':
+        return paragraphXml(block.runs, `<w:pStyle w:val="Heading${block.level === 1 ? 1 : 2}"/>`);
+      case 'list': {
+        let numId = 1;
+        if (block.ordered) {
+          numId = nextNumId++;
+          orderedNumIds.push(numId);
+        }
+        return block.items.map(runs => paragraphXml(
+          runs,
+          `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>${block.answer ? '<w:shd w:val="clear" w:color="auto" w:fill="F0FDF4"/>' : ''}`
+        )).join('');
+      }
+      case 'answer_lines':
+        // Bordure "between" : Word fusionne les bordures identiques de paragraphes consécutifs
+        return Array.from({ length: block.count }).map(() => paragraphXml(
+          [],
+          `<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="0" w:color="000000"/><w:between w:val="single" w:sz="4" w:space="0" w:color="000000"/></w:pBdr><w:spacing w:after="0" w:line="${ANSWER_LINE_TWIPS}" w:lineRule="exact"/><w:ind w:left="340"/>`
+        )).join('');
+      case 'image': {
+        const image = await loadImageData(block.src);
+        if (!image) return '';
+        const index = imageRels.length + 1;
+        const relId = `rIdImg${index}`;
+        const fileName = `image${index}.${image.extension}`;
+        zip.file(`word/media/${fileName}`, image.data);
+        imageRels.push(`<Relationship Id="${relId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${fileName}"/>`);
+        const width = Math.round(CONTENT_WIDTH_EMU * Math.min(100, block.widthPercent) / 100);
+        return imageXml(relId, index, width, Math.round(width * image.height / image.width));
+      }
+    }
+  };
+
+  for (const block of model.blocks) {
+    body.push(await blockXml(block));
+  }
+
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Default Extension="png" ContentType="image/png"/>
+<Default Extension="jpeg" ContentType="image/jpeg"/>
+<Default Extension="gif" ContentType="image/gif"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`);
+  zip.file('docProps/core.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(model.title)}</dc:title>
+</cp:coreProperties>`);
+  zip.file('word/_rels/document.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+${imageRels.join('\n')}
+</Relationships>`);
+  zip.file('word/styles.xml', STYLES_XML);
+  zip.file('word/numbering.xml', numberingXml(orderedNumIds));
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
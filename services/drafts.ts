@@ -0,0 +1,43 @@
+import { Evaluation } from '../types';
+
+// Brouillons locaux de l'éditeur : survivent à un onglet fermé ou à Supabase injoignable
+const DRAFT_PREFIX = 'evaluation_draft_';
+// Une nouvelle évaluation n'a pas encore d'identifiant connu du tableau de bord
+export const NEW_DRAFT_KEY = 'new';
+
+export interface EvaluationDraft {
+  evaluation: Evaluation;
+  saved_at: string;
+}
+
+// Représentation comparable d'une évaluation, sans le jeton de version du serveur
+export const serializeEvaluation = (evaluation: Evaluation) => {
+  const { updated_at, ...content } = evaluation;
+  return JSON.stringify(content);
+};
+
+export const draftService = {
+  get(key: string): EvaluationDraft | null {
+    try {
+      const raw = localStorage.getItem(DRAFT_PREFIX + key);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.error("Draft Error:", error);
+      return null;
+    }
+  },
+
+  save(key: string, evaluation: Evaluation) {
+    try {
+      const draft: EvaluationDraft = { evaluation, saved_at: new Date().toISOString() };
+      localStorage.setItem(DRAFT_PREFIX + key, JSON.stringify(draft));
+    } catch (error) {
+      // Quota dépassé (images en data URL) : l'autosauvegarde serveur reste active
+      console.error("Draft Error:", error);
+    }
+  },
+
+  remove(key: string) {
+    localStorage.removeItem(DRAFT_PREFIX + key);
+  }
+};
@@ -0,0 +1,93 @@
+import { Evaluation, EvaluationFilters } from '../types';
+import { htmlToPlainText, summarizeAnswer } from './versionDiff';
+
+// Recherche, filtres et tri du tableau de bord
+
+// Valeur du filtre de matière pour les évaluations dont la matière a été supprimée
+export const UNCATEGORIZED = 'none';
+
+export const DEFAULT_EVALUATION_FILTERS: EvaluationFilters = {
+  search: '',
+  category_id: '',
+  date_from: '',
+  date_to: '',
+  min_questions: null,
+  max_questions: null,
+  sort: 'date_desc'
+};
+
+export const EVALUATION_SORT_LABELS: Record<EvaluationFilters['sort'], string> = {
+  date_desc: 'Plus récentes',
+  date_asc: 'Plus anciennes',
+  title_asc: 'Titre (A → Z)',
+  title_desc: 'Titre (Z → A)',
+  points_desc: 'Plus de points',
+  points_asc: 'Moins de points'
+};
+
+// Insensible à la casse et aux accents : "resoudre" trouve "Résoudre"
+export const normalizeSearchText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+export const getTotalPoints = (evaluation: Evaluation) =>
+  evaluation.questions.reduce((acc, q) => acc + (q.points || 0), 0);
+
+// Texte cherchable de chaque évaluation : titre, sections, énoncés et corrigés.
+// Calculé une fois par chargement, pas à chaque frappe.
+export const buildSearchIndex = (evaluations: Evaluation[]): Map<string, string> => new Map(
+  evaluations.map(ev => [ev.id, normalizeSearchText([
+    ev.title,
+    ...ev.questions.flatMap(q => [
+      q.section_name,
+      htmlToPlainText(q.question_text),
+      htmlToPlainText(q.student_prompt),
+      q.question_type === 'open' ? '' : htmlToPlainText(q.teacher_answer),
+      summarizeAnswer(q)
+    ])
+  ].join('\n'))])
+);
+
+export const isFiltered = (filters: EvaluationFilters) =>
+  !!(filters.search.trim() || filters.category_id || filters.date_from || filters.date_to
+    || filters.min_questions !== null || filters.max_questions !== null);
+
+// Une évaluation sans matière connue (null ou matière supprimée) relève du groupe "Sans matière"
+export const getCategoryKey = (evaluation: Evaluation, categoryIds: Set<string>) =>
+  evaluation.category_id && categoryIds.has(evaluation.category_id) ? evaluation.category_id : UNCATEGORIZED;
+
+const dateOf = (evaluation: Evaluation) => evaluation.created_at ? Date.parse(evaluation.created_at) : 0;
+
+export const filterEvaluations = (
+  evaluations: Evaluation[],
+  filters: EvaluationFilters,
+  searchIndex: Map<string, string>,
+  categoryIds: Set<string>
+): Evaluation[] => {
+  const terms = normalizeSearchText(filters.search).split(/\s+/).filter(Boolean);
+  // Bornes de dates incluses : la date de fin couvre toute la journée
+  const from = filters.date_from ? Date.parse(`${filters.date_from}T00:00:00`) : null;
+  const to = filters.date_to ? Date.parse(`${filters.date_to}T23:59:59.999`) : null;
+
+  const result = evaluations.filter(ev => {
+    if (terms.length > 0) {
+      const text = searchIndex.get(ev.id) || normalizeSearchText(ev.title);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    if (filters.category_id && getCategoryKey(ev, categoryIds) !== filters.category_id) return false;
+    if (from !== null && dateOf(ev) < from) return false;
+    if (to !== null && dateOf(ev) > to) return false;
+    if (filters.min_questions !== null && ev.questions.length < filters.min_questions) return false;
+    if (filters.max_questions !== null && ev.questions.length > filters.max_questions) return false;
+    return true;
+  });
+
+  const compare: Record<EvaluationFilters['sort'], (a: Evaluation, b: Evaluation) => number> = {
+    date_desc: (a, b) => dateOf(b) - dateOf(a),
+    date_asc: (a, b) => dateOf(a) - dateOf(b),
+    title_asc: (a, b) => a.title.localeCompare(b.title, 'fr', { sensitivity: 'base', numeric: true }),
+    title_desc: (a, b) => b.title.localeCompare(a.title, 'fr', { sensitivity: 'base', numeric: true }),
+    points_desc: (a, b) => getTotalPoints(b) - getTotalPoints(a),
+    points_asc: (a, b) => getTotalPoints(a) - getTotalPoints(b)
+  };
+  return result.sort(compare[filters.sort]);
+};
@@ -0,0 +1,165 @@
+import { Competency, CompetencyLevel, Evaluation, Question, Section, StudentGrade } from '../types';
+import { clampScore, getGradeTotal, getMaxTotal } from './gradebook';
+import { getQuestionNumbers, getSectionPoints, groupQuestionsBySection } from './sections';
+import { COMPETENCY_LEVELS, getCompetencyLevel, getEvaluationCompetencies } from './competencies';
+import { getScaleTotal, scaleGrade } from './gradingScale';
+
+// Statistiques d'une évaluation à partir des notes saisies (écran de résultats imprimable)
+
+// En dessous de ce taux de réussite, la question est signalée comme non acquise par la classe
+export const LOW_SUCCESS_RATE = 0.2;
+export const HISTOGRAM_BINS = 10;
+
+export interface SummaryStats {
+  count: number;
+  mean: number;
+  median: number;
+  min: number;
+  max: number;
+  standardDeviation: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface QuestionResult {
+  question: Question;
+  number: string;
+  mean: number; // Points moyens obtenus
+  successRate: number; // 0 à 1 : points obtenus / points possibles
+  fullMarks: number; // Élèves ayant tous les points
+  flagged: boolean;
+}
+
+export interface SectionResult {
+  section: Section;
+  maxPoints: number;
+  mean: number;
+  successRate: number;
+}
+
+export interface CompetencyResult {
+  competency: Competency;
+  maxPoints: number;
+  levels: Map<string, CompetencyLevel>; // student_id -> niveau, copies corrigées uniquement
+  counts: Record<CompetencyLevel, number>;
+}
+
+export interface EvaluationResults {
+  maxTotal: number;
+  scaleTotal: number; // Total du barème (ex: 20)
+  graded: number; // Copies présentes et corrigées
+  absent: number;
+  exempt: number;
+  totals: number[]; // Points, bonus compris
+  stats: SummaryStats | null;
+  noteStats: SummaryStats | null; // Notes finales, ramenées sur le barème et arrondies
+  histogram: HistogramBin[];
+  questions: QuestionResult[];
+  sections: SectionResult[];
+}
+
+// Copie prise en compte dans les statistiques : élève présent avec au moins une note saisie
+const isGraded = (grade: StudentGrade) => grade.status === 'present' && Object.keys(grade.scores).length > 0;
+
+const average = (values: number[]) => values.length ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+export const computeStats = (values: number[]): SummaryStats | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const mean = average(sorted);
+  return {
+    count: sorted.length,
+    mean,
+    median: sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    standardDeviation: Math.sqrt(average(sorted.map(v => (v - mean) ** 2)))
+  };
+};
+
+// Tranches égales de 0 au barème ; la note maximale tombe dans la dernière tranche
+export const buildHistogram = (totals: number[], maxTotal: number, bins = HISTOGRAM_BINS): HistogramBin[] => {
+  const width = maxTotal / bins || 1;
+  const histogram = Array.from({ length: bins }, (_, i) => ({ from: i * width, to: (i + 1) * width, count: 0 }));
+  totals.forEach(total => {
+    histogram[Math.min(bins - 1, Math.max(0, Math.floor(total / width)))].count++;
+  });
+  return histogram;
+};
+
+// Seules les copies présentes avec au moins une note comptent ; une question non saisie y vaut 0
+export const analyzeEvaluation = (evaluation: Evaluation, grades: StudentGrade[]): EvaluationResults => {
+  const graded = grades.filter(isGraded);
+  const maxTotal = getMaxTotal(evaluation);
+  const totals = graded.map(g => getGradeTotal(evaluation, g) ?? 0);
+  const numbers = getQuestionNumbers(evaluation);
+  const score = (grade: StudentGrade, q: Question) => clampScore(grade.scores[q.id] ?? 0, q.points || 0);
+  const groups = groupQuestionsBySection(evaluation);
+
+  const questions = groups.flatMap(g => g.questions).map(q => {
+    const scores = graded.map(grade => score(grade, q));
+    const mean = average(scores);
+    const successRate = q.points ? mean / q.points : 0;
+    return {
+      question: q,
+      number: numbers.get(q.id) || '',
+      mean,
+      successRate,
+      fullMarks: scores.filter(s => q.points && s >= q.points).length,
+      flagged: graded.length > 0 && !!q.points && !q.is_bonus && successRate < LOW_SUCCESS_RATE
+    };
+  });
+
+  const sections = groups.filter(g => g.questions.length > 0).map(({ section, questions: sectionQuestions }) => {
+    const maxPoints = getSectionPoints(section, sectionQuestions);
+    const earned = graded.map(grade => {
+      const sum = sectionQuestions.reduce((acc, q) => acc + (q.is_bonus ? 0 : score(grade, q)), 0);
+      return section.points_cap != null ? Math.min(sum, section.points_cap) : sum;
+    });
+    const mean = average(earned);
+    return { section, maxPoints, mean, successRate: maxPoints ? mean / maxPoints : 0 };
+  });
+
+  return {
+    maxTotal,
+    graded: graded.length,
+    absent: grades.filter(g => g.status === 'absent').length,
+    exempt: grades.filter(g => g.status === 'exempt').length,
+    scaleTotal: getScaleTotal(evaluation),
+    totals,
+    stats: computeStats(totals),
+    noteStats: computeStats(totals.map(total => scaleGrade(evaluation, total) ?? 0)),
+    histogram: buildHistogram(totals, maxTotal),
+    questions,
+    sections
+  };
+};
+
+// Niveau par compétence : part des points obtenus sur les questions qui l'évaluent (sans plafond de section) ;
+// une question rattachée à plusieurs compétences compte pour chacune. Comme pour la note, les questions bonus
+// ne comptent pas dans le total et leurs points s'ajoutent à ceux obtenus.
+export const analyzeCompetencies = (evaluation: Evaluation, competencies: Competency[], grades: StudentGrade[]): CompetencyResult[] => {
+  const graded = grades.filter(isGraded);
+  return getEvaluationCompetencies(evaluation, competencies)
+    .map(competency => {
+      const questions = evaluation.questions.filter(q => q.competency_ids?.includes(competency.id));
+      const maxPoints = questions.reduce((acc, q) => acc + (q.is_bonus ? 0 : q.points || 0), 0);
+      const levels = new Map<string, CompetencyLevel>();
+      const counts = Object.fromEntries(COMPETENCY_LEVELS.map(level => [level, 0])) as Record<CompetencyLevel, number>;
+      if (maxPoints > 0) {
+        graded.forEach(grade => {
+          const earned = questions.reduce((acc, q) => acc + clampScore(grade.scores[q.id] ?? 0, q.points || 0), 0);
+          const level = getCompetencyLevel(earned / maxPoints);
+          levels.set(grade.student_id, level);
+          counts[level]++;
+        });
+      }
+      return { competency, maxPoints, levels, counts };
+    })
+    .filter(result => result.maxPoints > 0);
+};
@@ -0,0 +1,189 @@
+import { Evaluation, GradeStatus, Question, SchoolClass, Student, StudentGrade } from '../types';
+import { supabase, getSessionUserId } from './supabaseClient';
+import { getSectionPoints, groupQuestionsBySection } from './sections';
+
+// Classes, élèves et notes saisies après correction
+
+let MOCK_CLASSES: SchoolClass[] = [];
+let MOCK_GRADES: StudentGrade[] = [];
+
+export const GRADE_STATUS_LABELS: Record<GradeStatus, string> = {
+  present: 'Présent',
+  absent: 'Absent',
+  exempt: 'Dispensé'
+};
+
+const sortStudents = (students: Student[]) =>
+  [...students].sort((a, b) => a.order_index - b.order_index);
+
+const normalizeClass = (raw: any): SchoolClass => ({
+  ...raw,
+  school_year: raw.school_year || '',
+  students: sortStudents(raw.students || [])
+});
+
+const normalizeGrade = (raw: any): StudentGrade => ({
+  ...raw,
+  status: raw.status || 'present',
+  scores: raw.scores || {}
+});
+
+// "DUPONT Léa", l'ordre usuel des listes de classe
+export const formatStudentName = (student: Pick<Student, 'last_name' | 'first_name'>) =>
+  [student.last_name.toUpperCase(), student.first_name].filter(Boolean).join(' ');
+
+// Points saisis ramenés entre 0 et le barème de la question
+export const clampScore = (value: number, max: number) => Math.min(Math.max(0, value), max);
+
+// Total en points : plafonds de question puis de section, bonus ajoutés ensuite ; null si absent ou dispensé
+export const getGradeTotal = (evaluation: Evaluation, grade: StudentGrade | undefined): number | null => {
+  if (grade && grade.status !== 'present') return null;
+  const earned = (questions: Question[]) =>
+    questions.reduce((acc, q) => acc + clampScore(grade?.scores[q.id] ?? 0, q.points || 0), 0);
+  return groupQuestionsBySection(evaluation).reduce((total, { section, questions }) => {
+    const base = earned(questions.filter(q => !q.is_bonus));
+    const bonus = earned(questions.filter(q => q.is_bonus));
+    return total + (section.points_cap != null ? Math.min(base, section.points_cap) : base) + bonus;
+  }, 0);
+};
+
+// Total de base du barème, bonus exclus
+export const getMaxTotal = (evaluation: Evaluation) =>
+  groupQuestionsBySection(evaluation).reduce((acc, g) => acc + getSectionPoints(g.section, g.questions), 0);
+
+export const gradebookService = {
+  getClasses: async (): Promise<SchoolClass[]> => {
+    if (supabase) {
+      const userId = await getSessionUserId();
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from('classes')
+        .select('*, students (*)')
+        .eq('user_id', userId)
+        .order('name');
+      if (error) {
+        console.error("Supabase Error:", error);
+        return MOCK_CLASSES;
+      }
+      return (data || []).map(normalizeClass);
+    }
+    return Promise.resolve(MOCK_CLASSES);
+  },
+
+  addClass: async (fields: Pick<SchoolClass, 'name' | 'school_year'>): Promise<SchoolClass> => {
+    if (supabase) {
+      const { data, error } = await supabase.from('classes').insert(fields).select().single();
+      if (error) throw error;
+      return normalizeClass(data);
+    }
+    const newClass: SchoolClass = { ...fields, id: crypto.randomUUID(), students: [], created_at: new Date().toISOString() };
+    MOCK_CLASSES = [...MOCK_CLASSES, newClass].sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+    return Promise.resolve(newClass);
+  },
+
+  updateClass: async (id: string, fields: Pick<SchoolClass, 'name' | 'school_year'>): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase.from('classes').update(fields).eq('id', id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_CLASSES = MOCK_CLASSES.map(c => c.id === id ? { ...c, ...fields } : c);
+    return Promise.resolve();
+  },
+
+  // Supprime aussi les élèves et leurs notes (on delete cascade)
+  deleteClass: async (id: string): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase.from('classes').delete().eq('id', id);
+      if (error) throw error;
+      return;
+    }
+    const studentIds = new Set(MOCK_CLASSES.find(c => c.id === id)?.students.map(s => s.id));
+    MOCK_CLASSES = MOCK_CLASSES.filter(c => c.id !== id);
+    MOCK_GRADES = MOCK_GRADES.filter(g => !studentIds.has(g.student_id));
+    return Promise.resolve();
+  },
+
+  // Ajout en fin de liste, dans l'ordre fourni
+  addStudents: async (classId: string, students: Pick<Student, 'last_name' | 'first_name'>[]): Promise<Student[]> => {
+    if (supabase) {
+      const { data: last } = await supabase
+        .from('students')
+        .select('order_index')
+        .eq('class_id', classId)
+        .order('order_index', { ascending: false })
+        .limit(1);
+      const start = (last?.[0]?.order_index ?? -1) + 1;
+      const { data, error } = await supabase
+        .from('students')
+        .insert(students.map((s, i) => ({ ...s, class_id: classId, order_index: start + i })))
+        .select();
+      if (error) throw error;
+      return sortStudents(data || []);
+    }
+    const existing = MOCK_CLASSES.find(c => c.id === classId)?.students || [];
+    const start = existing.length ? existing[existing.length - 1].order_index + 1 : 0;
+    const created = students.map((s, i) => ({ ...s, id: crypto.randomUUID(), class_id: classId, order_index: start + i }));
+    MOCK_CLASSES = MOCK_CLASSES.map(c => c.id === classId ? { ...c, students: [...c.students, ...created] } : c);
+    return Promise.resolve(created);
+  },
+
+  updateStudent: async (student: Student): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase
+        .from('students')
+        .update({ last_name: student.last_name, first_name: student.first_name })
+        .eq('id', student.id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_CLASSES = MOCK_CLASSES.map(c => c.id === student.class_id
+      ? { ...c, students: c.students.map(s => s.id === student.id ? student : s) }
+      : c);
+    return Promise.resolve();
+  },
+
+  deleteStudent: async (student: Student): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase.from('students').delete().eq('id', student.id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_CLASSES = MOCK_CLASSES.map(c => c.id === student.class_id
+      ? { ...c, students: c.students.filter(s => s.id !== student.id) }
+      : c);
+    MOCK_GRADES = MOCK_GRADES.filter(g => g.student_id !== student.id);
+    return Promise.resolve();
+  },
+
+  getGrades: async (evaluationId: string): Promise<StudentGrade[]> => {
+    if (supabase) {
+      const { data, error } = await supabase.from('grades').select('*').eq('evaluation_id', evaluationId);
+      if (error) {
+        console.error("Supabase Error:", error);
+        return MOCK_GRADES.filter(g => g.evaluation_id === evaluationId);
+      }
+      return (data || []).map(normalizeGrade);
+    }
+    return Promise.resolve(MOCK_GRADES.filter(g => g.evaluation_id === evaluationId));
+  },
+
+  // Une ligne par élève et par évaluation : la saisie remplace la précédente
+  saveGrades: async (grades: StudentGrade[]): Promise<void> => {
+    if (grades.length === 0) return;
+    const rows = grades.map(({ id, evaluation_id, student_id, status, scores }) => ({
+      id, evaluation_id, student_id, status, scores, updated_at: new Date().toISOString()
+    }));
+    if (supabase) {
+      const { error } = await supabase.from('grades').upsert(rows, { onConflict: 'evaluation_id,student_id' });
+      if (error) throw error;
+      return;
+    }
+    rows.forEach(row => {
+      const index = MOCK_GRADES.findIndex(g => g.evaluation_id === row.evaluation_id && g.student_id === row.student_id);
+      if (index > -1) MOCK_GRADES[index] = { ...row, id: MOCK_GRADES[index].id };
+      else MOCK_GRADES.push(row);
+    });
+    return Promise.resolve();
+  }
+};
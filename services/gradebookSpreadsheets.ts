@@ -0,0 +1,132 @@
+import { Evaluation, SchoolClass, Student, StudentGrade } from '../types';
+import { clampScore, getGradeTotal, getMaxTotal } from './gradebook';
+import { getQuestionNumbers, groupQuestionsBySection } from './sections';
+import { SpreadsheetCell, buildCsv, buildOds } from './spreadsheet';
+import { getScaleTotal, scaleGrade } from './gradingScale';
+import { downloadBlob } from './download';
+import { slugify } from './pdfExport';
+
+// Import des listes d'élèves fournies par l'administration, export des notes vers un tableur
+
+export type NewStudent = Pick<Student, 'last_name' | 'first_name'>;
+export type GradeExportFormat = 'csv' | 'ods';
+
+// Indices de colonne ; sans colonne prénom, la colonne nom contient "NOM Prénom"
+export interface RosterColumns {
+  lastName: number;
+  firstName: number | null;
+}
+
+const normalizeLabel = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const FIRST_NAME_HEADER = /^(prenom|first ?name|given ?name)/;
+const LAST_NAME_HEADER = /^(nom|last ?name|surname|family ?name)$|^nom (de famille|d'usage|eleve)/;
+const FULL_NAME_HEADER = /^(eleve|etudiant|nom (et|\/|-) ?prenom|nom prenom|student|name)/;
+
+// Une première ligne qui contient des intitulés connus est une ligne d'en-têtes
+export const looksLikeHeader = (row: string[]) =>
+  row.some(cell => {
+    const header = normalizeLabel(cell);
+    return FIRST_NAME_HEADER.test(header) || LAST_NAME_HEADER.test(header) || FULL_NAME_HEADER.test(header);
+  });
+
+export const guessRosterColumns = (header: string[] | null): RosterColumns => {
+  if (!header) return { lastName: 0, firstName: 1 };
+  const headers = header.map(normalizeLabel);
+  const firstName = headers.findIndex(h => FIRST_NAME_HEADER.test(h));
+  const lastName = headers.findIndex(h => LAST_NAME_HEADER.test(h));
+  const fullName = headers.findIndex(h => FULL_NAME_HEADER.test(h));
+  if (lastName > -1) return { lastName, firstName: firstName > -1 ? firstName : null };
+  if (fullName > -1) return { lastName: fullName, firstName: null };
+  return { lastName: 0, firstName: firstName > -1 ? firstName : (header.length > 1 ? 1 : null) };
+};
+
+// "DUPONT MARTIN Léa Marie" : les mots en capitales forment le nom, le reste le prénom ; "Dupont, Léa" est aussi accepté
+export const splitFullName = (value: string): NewStudent => {
+  const comma = value.indexOf(',');
+  if (comma > -1) return { last_name: value.slice(0, comma).trim(), first_name: value.slice(comma + 1).trim() };
+  const words = value.trim().split(/\s+/).filter(Boolean);
+  const isUpper = (word: string) => word === word.toUpperCase() && word !== word.toLowerCase();
+  let count = 0;
+  while (count < words.length && isUpper(words[count])) count++;
+  if (count === 0 || count === words.length) count = Math.min(1, words.length);
+  return { last_name: words.slice(0, count).join(' '), first_name: words.slice(count).join(' ') };
+};
+
+export const mapRosterRows = (rows: string[][], columns: RosterColumns): NewStudent[] =>
+  rows
+    .map(row => columns.firstName === null
+      ? splitFullName(row[columns.lastName] || '')
+      : { last_name: row[columns.lastName] || '', first_name: row[columns.firstName] || '' })
+    .filter(s => s.last_name || s.first_name);
+
+const studentKey = (s: NewStudent) => normalizeLabel(`${s.last_name} ${s.first_name}`);
+
+// Élèves de la liste importée absents de la classe et non répétés dans le fichier
+export const filterNewStudents = (students: NewStudent[], existing: Student[]) => {
+  const seen = new Set(existing.map(studentKey));
+  return students.filter(s => {
+    const key = studentKey(s);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Une ligne par élève : points par question, total brut (bonus compris), note sur le barème de l'évaluation
+export const buildGradeTable = (evaluation: Evaluation, classes: SchoolClass[], grades: StudentGrade[]): SpreadsheetCell[][] => {
+  const questions = groupQuestionsBySection(evaluation).flatMap(g => g.questions);
+  const numbers = getQuestionNumbers(evaluation);
+  const maxTotal = getMaxTotal(evaluation);
+  const scaleTotal = getScaleTotal(evaluation);
+  const gradeByStudent = new Map(grades.map(g => [g.student_id, g]));
+  const withClass = classes.length > 1;
+
+  const header: SpreadsheetCell[] = [
+    ...(withClass ? ['Classe'] : []),
+    'Nom',
+    'Prénom',
+    ...questions.map(q => `${numbers.get(q.id)} (${q.is_bonus ? 'bonus ' : ''}/${q.points || 0})`),
+    `Total (/${maxTotal})`,
+    `Note /${scaleTotal}`
+  ];
+
+  const rows = classes.flatMap(cls => cls.students.map(student => {
+    const grade = gradeByStudent.get(student.id);
+    const identity: SpreadsheetCell[] = [...(withClass ? [cls.name] : []), student.last_name.toUpperCase(), student.first_name];
+    if (grade && grade.status !== 'present') {
+      const label = grade.status === 'absent' ? 'ABS' : 'DISP';
+      return [...identity, ...questions.map(() => null), label, label];
+    }
+    if (!grade || Object.keys(grade.scores).length === 0) {
+      return [...identity, ...questions.map(() => null), null, null];
+    }
+    const total = getGradeTotal(evaluation, grade) ?? 0;
+    return [
+      ...identity,
+      ...questions.map(q => q.id in grade.scores ? clampScore(grade.scores[q.id], q.points || 0) : null),
+      round(total),
+      scaleGrade(evaluation, total)
+    ];
+  }));
+
+  return [header, ...rows];
+};
+
+export const exportGrades = async (
+  evaluation: Evaluation,
+  classes: SchoolClass[],
+  grades: StudentGrade[],
+  format: GradeExportFormat
+) => {
+  const table = buildGradeTable(evaluation, classes, grades);
+  const suffix = classes.length === 1 ? `-${slugify(classes[0].name)}` : '';
+  const fileName = `${slugify(evaluation.title)}-notes${suffix}.${format}`;
+  const blob = format === 'csv'
+    ? buildCsv(table)
+    : await buildOds(table, classes.length === 1 ? classes[0].name : 'Notes');
+  downloadBlob(blob, fileName);
+};
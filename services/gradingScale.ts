@@ -0,0 +1,68 @@
+import { Evaluation, GradingScale, Question, ScaleRounding } from '../types';
+import { getMaxTotal } from './gradebook';
+import { getBonusPoints } from './sections';
+
+// Barème de l'évaluation : points ramenés sur un total (ex. /20), arrondis, bonus en plus du total de base
+
+export const DEFAULT_GRADING_SCALE: GradingScale = { target_total: 20, rounding: 'none' };
+
+export const SCALE_ROUNDING_LABELS: Record<ScaleRounding, string> = {
+  none: 'Au centième',
+  half: 'Au demi-point',
+  quarter: 'Au quart de point'
+};
+
+const ROUNDING_STEPS: Record<ScaleRounding, number> = { none: 0.01, half: 0.5, quarter: 0.25 };
+
+export const getGradingScale = (evaluation: Evaluation): GradingScale =>
+  ({ ...DEFAULT_GRADING_SCALE, ...evaluation.grading_scale });
+
+// 12,3 au demi-point -> 12,5
+export const roundToScale = (value: number, rounding: ScaleRounding) => {
+  const inverse = 1 / ROUNDING_STEPS[rounding];
+  return Math.round(value * inverse) / inverse;
+};
+
+export const formatPoints = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+
+// Total imprimé dans la case "Note" : le total visé, ou la somme des points hors bonus
+export const getScaleTotal = (evaluation: Evaluation) =>
+  getGradingScale(evaluation).target_total ?? getMaxTotal(evaluation);
+
+// Les points des questions sont convertis quand le total visé diffère de la somme des points
+export const isRescaled = (evaluation: Evaluation) => getScaleTotal(evaluation) !== getMaxTotal(evaluation);
+
+// Note finale : points obtenus (bonus compris) ramenés sur le total visé, arrondis, sans dépasser ce total
+export const scaleGrade = (evaluation: Evaluation, total: number): number | null => {
+  const maxTotal = getMaxTotal(evaluation);
+  if (!maxTotal) return null;
+  const scaleTotal = getScaleTotal(evaluation);
+  return Math.min(roundToScale(total / maxTotal * scaleTotal, getGradingScale(evaluation).rounding), scaleTotal);
+};
+
+// Valeur d'une question sur le total visé, indiquée sur le corrigé (non arrondie au barème)
+export const scaleQuestionPoints = (evaluation: Evaluation, points: number) => {
+  const maxTotal = getMaxTotal(evaluation);
+  return maxTotal ? Math.round(points / maxTotal * getScaleTotal(evaluation) * 100) / 100 : 0;
+};
+
+// "/ 2" ou "Bonus / 1" ; le corrigé ajoute la valeur sur le total visé : "/ 2 (1 sur 20)"
+export const questionPointsLabel = (evaluation: Evaluation, question: Question, teacher: boolean) => {
+  const points = question.points || 0;
+  if (points <= 0) return '';
+  const label = `${question.is_bonus ? 'Bonus ' : ''}/ ${formatPoints(points)}`;
+  if (!teacher || !isRescaled(evaluation)) return label;
+  return `${label} (${formatPoints(scaleQuestionPoints(evaluation, points))} sur ${formatPoints(getScaleTotal(evaluation))})`;
+};
+
+// "40 pts ramenés sur 20 · au demi-point · 2 pts de bonus", rappelé sur le corrigé
+export const describeGradingScale = (evaluation: Evaluation) => {
+  const scale = getGradingScale(evaluation);
+  const maxTotal = getMaxTotal(evaluation);
+  const bonus = getBonusPoints(evaluation.questions);
+  return [
+    isRescaled(evaluation) ? `${formatPoints(maxTotal)} pts ramenés sur ${formatPoints(getScaleTotal(evaluation))}` : `${formatPoints(maxTotal)} pts`,
+    scale.rounding !== 'none' ? SCALE_ROUNDING_LABELS[scale.rounding].toLowerCase() : null,
+    bonus ? `${formatPoints(bonus)} pts de bonus` : null
+  ].filter(Boolean).join(' · ');
+};
@@ -0,0 +1,99 @@
+import { supabase, getSessionUserId } from './supabaseClient';
+
+export const IMAGE_BUCKET = 'eval-images';
+
+// Au-delà, les photos sont redimensionnées : largement suffisant pour une page A4 imprimée
+const MAX_IMAGE_DIMENSION = 1600;
+const MAX_UNCOMPRESSED_BYTES = 300 * 1024;
+const JPEG_QUALITY = 0.82;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// Récupère une image (URL distante ou data URL) sous forme de data URL, ou null si inaccessible
+export const fetchAsDataUrl = async (src: string): Promise<string | null> => {
+  if (src.startsWith('data:')) return src;
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+    return await blobToDataUrl(await response.blob());
+  } catch (error) {
+    console.error("Error fetching image:", error);
+    return null;
+  }
+};
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const img = new Image();
+  img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+  img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Image illisible")); };
+  img.src = url;
+});
+
+// Redimensionne et compresse les images trop lourdes (photos de téléphone...)
+export const resizeImage = async (file: Blob): Promise<Blob> => {
+  // Les formats vectoriels ou animés ne passent pas par le canvas
+  if (file.type === 'image/svg+xml' || file.type === 'image/gif') return file;
+
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+  if (scale === 1 && file.size <= MAX_UNCOMPRESSED_BYTES) return file;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return file;
+  // Fond blanc : la transparence des PNG deviendrait noire en JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  const compressed = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+  return compressed && compressed.size < file.size ? compressed : file;
+};
+
+// Les PDF et documents bureautiques n'acceptent que PNG, JPEG (et GIF pour DOCX/ODT) : SVG, WebP... passent en PNG
+export const convertToPng = async (file: Blob): Promise<Blob> => {
+  const img = await loadImage(file);
+  const canvas = document.createElement('canvas');
+  // Un SVG sans dimensions intrinsèques prend la taille par défaut d'une image HTML
+  canvas.width = img.naturalWidth || 300;
+  canvas.height = img.naturalHeight || 150;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Conversion de l'image impossible");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!png) throw new Error("Conversion de l'image impossible");
+  return png;
+};
+
+const extensionFor = (type: string) => {
+  switch (type) {
+    case 'image/jpeg': return 'jpg';
+    case 'image/svg+xml': return 'svg';
+    default: return type.split('/')[1] || 'png';
+  }
+};
+
+// Envoie l'image dans le bucket eval-images, ou l'intègre en data URL sans Supabase.
+// Retourne une adresse utilisable telle quelle dans le HTML (aperçu et impression).
+export const uploadImage = async (file: Blob): Promise<string> => {
+  const image = await resizeImage(file);
+
+  if (supabase) {
+    // Un dossier par enseignant : seules ses propres images lui sont modifiables (voir sql/schema.sql)
+    const path = `${await getSessionUserId()}/${crypto.randomUUID()}.${extensionFor(image.type)}`;
+    const { error } = await supabase.storage.from(IMAGE_BUCKET).upload(path, image, { contentType: image.type });
+    if (!error) {
+      return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+    }
+    console.error("Supabase Storage Error:", error);
+  }
+  return blobToDataUrl(image);
+};
@@ -0,0 +1,413 @@
+import { Evaluation, Question } from '../types';
+import { parseCloze, getMatchingRightColumn } from './questionTypes';
+import { fetchAsDataUrl } from './imageService';
+
+// Export vers les plateformes d'apprentissage : Moodle XML et paquet IMS QTI 2.1
+
+export interface LmsExportReportEntry {
+  question: number | null; // Numéro (1-based) de la question concernée
+  message: string;
+}
+
+export interface LmsExportResult {
+  blob: Blob;
+  report: LmsExportReportEntry[];
+}
+
+interface EmbeddedImage {
+  name: string;
+  mime: string;
+  base64: string;
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const textToHtml = (value: string) => value.split('\n').map(escapeXml).join('<br/>');
+
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(5)));
+
+const parseHtml = (html: string) =>
+  new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild as HTMLElement;
+
+const extensionFor = (mime: string) => mime === 'image/jpeg' ? 'jpg' : mime === 'image/svg+xml' ? 'svg' : mime.split('/')[1] || 'png';
+
+// Les images sont récupérées une seule fois, même si plusieurs questions les réutilisent
+const createImageStore = () => {
+  const cache = new Map<string, Promise<EmbeddedImage | null>>();
+  return (src: string) => {
+    if (!cache.has(src)) {
+      const index = cache.size + 1;
+      cache.set(src, fetchAsDataUrl(src).then(dataUrl => {
+        const match = dataUrl?.match(/^data:([^;,]+);base64,(.*)$/);
+        if (!match) return null;
+        return { name: `image-${index}.${extensionFor(match[1])}`, mime: match[1], base64: match[2] };
+      }));
+    }
+    return cache.get(src)!;
+  };
+};
+
+const questionTitle = (question: Question, number: number) => {
+  const text = question.question_text.replace(/\s+/g, ' ').trim();
+  return `Q${number}${text ? ` - ${text.length > 60 ? `${text.slice(0, 57)}...` : text}` : ''}`;
+};
+
+// --- Moodle XML ---
+
+// Les équations passent en notation TeX \( ... \), rendue par le filtre MathJax de Moodle
+const toMoodleHtml = async (html: string, loadImage: ReturnType<typeof createImageStore>, report: (message: string) => void) => {
+  const root = parseHtml(html);
+  root.querySelectorAll('.math-equation').forEach(el => {
+    el.replaceWith(document.createTextNode(`\\(${el.getAttribute('data-latex') || ''}\\)`));
+  });
+  const files: EmbeddedImage[] = [];
+  for (const img of Array.from<HTMLImageElement>(root.querySelectorAll('img'))) {
+    const src = img.getAttribute('src') || '';
+    const image = await loadImage(src);
+    if (!image) {
+      report(`Image inaccessible, lien d'origine conservé : ${src.slice(0, 80)}`);
+      continue;
+    }
+    img.setAttribute('src', `@@PLUGINFILE@@/${image.name}`);
+    if (!files.some(f => f.name === image.name)) files.push(image);
+  }
+  return { html: root.innerHTML, files };
+};
+
+const moodleText = (tag: string, content: { html: string; files: EmbeddedImage[] }) =>
+  `<${tag} format="html"><text>${cdata(content.html)}</text>${content.files.map(f => `<file name="${f.name}" path="/" encoding="base64">${f.base64}</file>`).join('')}</${tag}>`;
+
+const moodleCategory = (path: string[]) =>
+  `<question type="category"><category><text>${escapeXml(['$course$', 'top', ...path.map(p => p.replace(/\//g, '//'))].join('/'))}</text></category></question>`;
+
+// Caractères réservés dans la syntaxe Cloze de Moodle
+const escapeClozeAnswer = (value: string) => value.replace(/([}#~/"\\])/g, '\\$1');
+
+export const buildMoodleXml = async (evaluation: Evaluation): Promise<LmsExportResult> => {
+  const report: LmsExportReportEntry[] = [];
+  const loadImage = createImageStore();
+  const parts: string[] = [];
+  let currentSection: string | null = null;
+
+  for (const [index, q] of evaluation.questions.entries()) {
+    const number = index + 1;
+    const warn = (message: string) => report.push({ question: number, message });
+
+    // Chaque section devient une sous-catégorie de la banque de questions Moodle
+    const section = q.section_name || 'Autre';
+    if (section !== currentSection) {
+      parts.push(moodleCategory([evaluation.title || 'Évaluation', section]));
+      currentSection = section;
+    }
+
+    const name = `<name><text>${escapeXml(questionTitle(q, number))}</text></name>`;
+    const questionText = { html: q.question_text ? `<p>${textToHtml(q.question_text)}</p>` : '', files: [] as EmbeddedImage[] };
+    const feedback = moodleText('generalfeedback', await toMoodleHtml(q.teacher_answer, loadImage, warn));
+    const common = `<defaultgrade>${formatNumber(q.points || 0)}</defaultgrade><hidden>0</hidden>`;
+    if (!q.question_text.trim() && q.question_type !== 'cloze') warn("Question sans énoncé.");
+
+    switch (q.question_type) {
+      case 'open': {
+        const prompt = q.student_prompt ? await toMoodleHtml(q.student_prompt, loadImage, warn) : { html: '', files: [] };
+        parts.push(`<question type="essay">${name}${moodleText('questiontext', questionText)}<generalfeedback format="html"><text></text></generalfeedback>${common}<penalty>0</penalty>`
+          + `<responseformat>editor</responseformat><responserequired>1</responserequired><responsefieldlines>10</responsefieldlines><attachments>0</attachments><attachmentsrequired>0</attachmentsrequired>`
+          + `${moodleText('graderinfo', await toMoodleHtml(q.teacher_answer, loadImage, warn))}${moodleText('responsetemplate', prompt)}</question>`);
+        break;
+      }
+      case 'qcm': {
+        const correct = q.options.filter(o => o.is_correct).length;
+        if (correct === 0) {
+          warn("QCM sans bonne réponse : question non exportée.");
+          break;
+        }
+        const single = correct === 1;
+        const answers = q.options.map(o => {
+          const fraction = o.is_correct ? 100 / correct : single ? 0 : -100 / correct;
+          return `<answer fraction="${formatNumber(fraction)}" format="html"><text>${cdata(escapeXml(o.text))}</text><feedback format="html"><text></text></feedback></answer>`;
+        }).join('');
+        parts.push(`<question type="multichoice">${name}${moodleText('questiontext', questionText)}${feedback}${common}<penalty>0.3333333</penalty>`
+          + `<single>${single}</single><shuffleanswers>true</shuffleanswers><answernumbering>abc</answernumbering>${answers}</question>`);
+        break;
+      }
+      case 'true_false': {
+        // Moodle n'accepte qu'une affirmation par question Vrai/Faux : une question par affirmation
+        if (q.statements.length > 1) {
+          warn(`Vrai/Faux à ${q.statements.length} affirmations : exporté en ${q.statements.length} questions, points répartis.`);
+        }
+        q.statements.forEach((st, i) => {
+          const statementName = `<name><text>${escapeXml(`${questionTitle(q, number)}${q.statements.length > 1 ? ` (${i + 1})` : ''}`)}</text></name>`;
+          const text = { html: `${questionText.html}<p>${textToHtml(st.text)}</p>`, files: [] };
+          const grade = (q.points || 0) / q.statements.length;
+          parts.push(`<question type="truefalse">${statementName}${moodleText('questiontext', text)}${feedback}<defaultgrade>${formatNumber(grade)}</defaultgrade><hidden>0</hidden><penalty>1</penalty>`
+            + `<answer fraction="${st.is_true ? 100 : 0}" format="moodle_auto_format"><text>true</text><feedback format="html"><text></text></feedback></answer>`
+            + `<answer fraction="${st.is_true ? 0 : 100}" format="moodle_auto_format"><text>false</text><feedback format="html"><text></text></feedback></answer></question>`);
+        });
+        if (q.statements.length === 0) warn("Vrai/Faux sans affirmation : question non exportée.");
+        break;
+      }
+      case 'matching': {
+        if (q.pairs.length < 3) warn("Moodle exige au moins 3 paires à relier : l'import de cette question peut échouer.");
+        const subquestions = q.pairs.map(p =>
+          `<subquestion format="html"><text>${cdata(escapeXml(p.left))}</text><answer><text>${escapeXml(p.right)}</text></answer></subquestion>`
+        ).join('');
+        parts.push(`<question type="matching">${name}${moodleText('questiontext', questionText)}${feedback}${common}<penalty>0.3333333</penalty><shuffleanswers>true</shuffleanswers>${subquestions}</question>`);
+        break;
+      }
+      case 'cloze': {
+        const blanks = parseCloze(q.cloze_text).filter(p => p.type === 'blank').length;
+        if (blanks === 0) {
+          warn("Texte à trous sans trou : question non exportée.");
+          break;
+        }
+        // Moodle calcule la note à partir des poids (entiers) de chaque trou
+        const weight = Number.isInteger((q.points || 0) / blanks) && q.points > 0 ? q.points / blanks : 1;
+        if (weight * blanks !== q.points) warn(`Texte à trous : Moodle notera sur ${blanks} point(s) (1 par trou) au lieu de ${q.points}.`);
+        const passage = parseCloze(q.cloze_text).map(part => part.type === 'text'
+          ? escapeXml(part.value)
+          : `{${weight}:SHORTANSWER:=${escapeClozeAnswer(part.answer)}}`
+        ).join('');
+        const text = { html: `${questionText.html}<p>${passage}</p>`, files: [] };
+        parts.push(`<question type="cloze">${name}${moodleText('questiontext', text)}${feedback}<penalty>0.3333333</penalty><hidden>0</hidden></question>`);
+        break;
+      }
+    }
+  }
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${parts.join('\n')}\n</quiz>\n`;
+  return { blob: new Blob([xml], { type: 'application/xml' }), report };
+};
+
+// --- IMS QTI 2.1 ---
+
+const QTI_NAMESPACE = 'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+// Balises XHTML autorisées par QTI et attributs conservés
+const QTI_ELEMENTS: Record<string, string[]> = {
+  p: [], br: [], strong: [], b: [], em: [], i: [], sub: [], sup: [], span: [], div: [],
+  ul: [], ol: [], li: [], blockquote: [], pre: [], code: [], hr: [],
+  h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  table: [], thead: [], tbody: [], tr: [], td: ['colspan', 'rowspan'], th: ['colspan', 'rowspan'],
+  a: ['href'], img: ['src', 'alt', 'width', 'height']
+};
+
+// HTML de l'éditeur -> XHTML valide dans un assessmentItem (styles retirés, MathML conservé)
+const toQtiXhtml = async (
+  html: string,
+  loadImage: ReturnType<typeof createImageStore>,
+  images: Map<string, EmbeddedImage>,
+  report: (message: string) => void
+) => {
+  let droppedFormatting = false;
+
+  const serialize = async (node: Node): Promise<string> => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeXml(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+
+    if (el.classList.contains('math-equation')) {
+      const math = el.querySelector('math');
+      return math ? new XMLSerializer().serializeToString(math) : escapeXml(el.getAttribute('data-latex') || '');
+    }
+
+    if (tag === 'img') {
+      const src = el.getAttribute('src') || '';
+      const image = await loadImage(src);
+      if (!image) {
+        report(`Image inaccessible, non incluse dans le paquet : ${src.slice(0, 80)}`);
+        return '';
+      }
+      images.set(image.name, image);
+      const width = el.style.width ? ` width="${escapeXml(el.style.width)}"` : '';
+      return `<img src="images/${image.name}" alt="${escapeXml(el.getAttribute('alt') || '')}"${width}/>`;
+    }
+
+    const children = (await Promise.all(Array.from(el.childNodes).map(serialize))).join('');
+    const allowed = QTI_ELEMENTS[tag];
+    if (el.getAttribute('style') || el.getAttribute('color') || !allowed) droppedFormatting = true;
+    if (!allowed) return children;
+
+    const attributes = allowed
+      .filter(name => el.hasAttribute(name))
+      .map(name => ` ${name}="${escapeXml(el.getAttribute(name) || '')}"`)
+      .join('');
+    return children || tag !== 'br' && tag !== 'hr' ? `<${tag}${attributes}>${children}</${tag}>` : `<${tag}${attributes}/>`;
+  };
+
+  const root = parseHtml(html);
+  const parts = await Promise.all(Array.from(root.childNodes).map(serialize));
+  if (droppedFormatting) report("Mise en forme non prise en charge par QTI (couleurs, surlignage, soulignement) retirée.");
+  // Le contenu inline isolé est enveloppé dans un paragraphe (itemBody n'accepte que des blocs)
+  return parts.map((part, i) => root.childNodes[i].nodeType === Node.TEXT_NODE && part.trim() ? `<p>${part}</p>` : part).join('');
+};
+
+interface QtiItem {
+  identifier: string;
+  section: string;
+  xml: string;
+  images: EmbeddedImage[];
+}
+
+const responseMapping = (entries: { key: string; value: number }[], upperBound: number, caseSensitive?: boolean) =>
+  `<mapping lowerBound="0" upperBound="${formatNumber(upperBound)}" defaultValue="0">${entries.map(e =>
+    `<mapEntry mapKey="${escapeXml(e.key)}" mappedValue="${formatNumber(e.value)}"${caseSensitive === false ? ' caseSensitive="false"' : ''}/>`
+  ).join('')}</mapping>`;
+
+const buildQtiItem = async (
+  q: Question,
+  number: number,
+  loadImage: ReturnType<typeof createImageStore>,
+  warn: (message: string) => void
+): Promise<QtiItem | null> => {
+  const identifier = `item-${number}`;
+  const points = q.points || 0;
+  const images = new Map<string, EmbeddedImage>();
+  const declarations: string[] = [];
+  const responses: string[] = [];
+  let interaction = '';
+
+  switch (q.question_type) {
+    case 'open': {
+      declarations.push('<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>');
+      const prompt = q.student_prompt ? await toQtiXhtml(q.student_prompt, loadImage, images, warn) : '';
+      interaction = `${prompt}<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="10"/>`;
+      break;
+    }
+    case 'qcm': {
+      const correct = q.options.filter(o => o.is_correct);
+      if (correct.length === 0) {
+        warn("QCM sans bonne réponse : question non exportée.");
+        return null;
+      }
+      const single = correct.length === 1;
+      const id = (i: number) => `CHOICE_${i + 1}`;
+      const share = points / correct.length;
+      declarations.push(`<responseDeclaration identifier="RESPONSE" cardinality="${single ? 'single' : 'multiple'}" baseType="identifier">`
+        + `<correctResponse>${q.options.map((o, i) => o.is_correct ? `<value>${id(i)}</value>` : '').join('')}</correctResponse>`
+        + responseMapping(q.options.map((o, i) => ({ key: id(i), value: o.is_correct ? share : single ? 0 : -share })), points)
+        + '</responseDeclaration>');
+      interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${single ? 1 : 0}">`
+        + q.options.map((o, i) => `<simpleChoice identifier="${id(i)}">${escapeXml(o.text)}</simpleChoice>`).join('')
+        + '</choiceInteraction>';
+      responses.push('RESPONSE');
+      break;
+    }
+    case 'true_false':
+    case 'matching': {
+      // Vrai/Faux et Relier : associations gauche -> droite dans une matchInteraction
+      const trueFalse = q.question_type === 'true_false';
+      const left = trueFalse ? q.statements.map(st => st.text) : q.pairs.map(p => p.left);
+      if (left.length === 0) {
+        warn(`${trueFalse ? 'Vrai/Faux sans affirmation' : 'Relier sans paire'} : question non exportée.`);
+        return null;
+      }
+      const rightColumn = getMatchingRightColumn(q.pairs);
+      const right = trueFalse ? ['Vrai', 'Faux'] : rightColumn.map(p => p.right);
+      // Position de chaque paire dans la colonne mélangée, par identifiant : deux réponses peuvent avoir le même texte
+      const pairs = trueFalse
+        ? q.statements.map((st, i) => `L${i + 1} ${st.is_true ? 'R1' : 'R2'}`)
+        : q.pairs.map((p, i) => `L${i + 1} R${rightColumn.findIndex(r => r.id === p.id) + 1}`);
+      declarations.push('<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">'
+        + `<correctResponse>${pairs.map(p => `<value>${p}</value>`).join('')}</correctResponse>`
+        + responseMapping(pairs.map(p => ({ key: p, value: points / pairs.length })), points)
+        + '</responseDeclaration>');
+      interaction = `<matchInteraction responseIdentifier="RESPONSE" shuffle="${!trueFalse}" maxAssociations="${left.length}">`
+        + `<simpleMatchSet>${left.map((text, i) => `<simpleAssociableChoice identifier="L${i + 1}" matchMax="1">${escapeXml(text)}</simpleAssociableChoice>`).join('')}</simpleMatchSet>`
+        + `<simpleMatchSet>${right.map((text, i) => `<simpleAssociableChoice identifier="R${i + 1}" matchMax="${trueFalse ? 0 : 1}"${trueFalse ? ' fixed="true"' : ''}>${escapeXml(text)}</simpleAssociableChoice>`).join('')}</simpleMatchSet>`
+        + '</matchInteraction>';
+      responses.push('RESPONSE');
+      break;
+    }
+    case 'cloze': {
+      const parts = parseCloze(q.cloze_text);
+      const blanks = parts.filter(p => p.type === 'blank').length;
+      if (blanks === 0) {
+        warn("Texte à trous sans trou : question non exportée.");
+        return null;
+      }
+      let blankIndex = 0;
+      const passage = parts.map(part => {
+        if (part.type === 'text') return escapeXml(part.value);
+        const id = `RESPONSE_${++blankIndex}`;
+        declarations.push(`<responseDeclaration identifier="${id}" cardinality="single" baseType="string">`
+          + `<correctResponse><value>${escapeXml(part.answer)}</value></correctResponse>`
+          + responseMapping([{ key: part.answer, value: points / blanks }], points / blanks, false)
+          + '</responseDeclaration>');
+        responses.push(id);
+        return `<textEntryInteraction responseIdentifier="${id}" expectedLength="${Math.max(5, part.answer.length + 2)}"/>`;
+      }).join('');
+      interaction = `<p>${passage}</p>`;
+      break;
+    }
+  }
+
+  const questionText = q.question_text ? `<p>${textToHtml(q.question_text)}</p>` : '';
+  const answerKey = q.teacher_answer ? await toQtiXhtml(q.teacher_answer, loadImage, images, warn) : '';
+  const scoring = responses.length > 0
+    ? `<responseProcessing><setOutcomeValue identifier="SCORE"><sum>${responses.map(id => `<mapResponse identifier="${id}"/>`).join('')}</sum></setOutcomeValue></responseProcessing>`
+    : '';
+
+  // Le corrigé est réservé au correcteur (rubricBlock view="scorer")
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACE} identifier="${identifier}" title="${escapeXml(questionTitle(q, number))}" adaptive="false" timeDependent="false">
+${declarations.join('\n')}
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${formatNumber(points)}</value></defaultValue></outcomeDeclaration>
+<itemBody>${answerKey ? `<rubricBlock view="scorer">${answerKey}</rubricBlock>` : ''}${questionText}${interaction}</itemBody>
+${scoring}
+</assessmentItem>`;
+
+  return { identifier, section: q.section_name || 'Autre', xml, images: Array.from(images.values()) };
+};
+
+export const buildQtiPackage = async (evaluation: Evaluation): Promise<LmsExportResult> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const report: LmsExportReportEntry[] = [];
+  const loadImage = createImageStore();
+  const items: QtiItem[] = [];
+
+  for (const [index, q] of evaluation.questions.entries()) {
+    const number = index + 1;
+    const warn = (message: string) => report.push({ question: number, message });
+    if (!q.question_text.trim() && q.question_type !== 'cloze') warn("Question sans énoncé.");
+    const item = await buildQtiItem(q, number, loadImage, warn);
+    if (!item) continue;
+    items.push(item);
+    zip.file(`${item.identifier}.xml`, item.xml);
+    item.images.forEach(image => zip.file(`images/${image.name}`, image.base64, { base64: true }));
+  }
+
+  // Les sections du sujet deviennent des assessmentSection
+  const sections = Array.from(new Set(items.map(item => item.section)));
+  const test = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest ${QTI_NAMESPACE} identifier="test" title="${escapeXml(evaluation.title || 'Évaluation')}">
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>
+<testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">
+${sections.map((section, i) => `<assessmentSection identifier="section-${i + 1}" title="${escapeXml(section)}" visible="true">
+${items.filter(item => item.section === section).map(item => `<assessmentItemRef identifier="${item.identifier}" href="${item.identifier}.xml"/>`).join('\n')}
+</assessmentSection>`).join('\n')}
+</testPart>
+<outcomeProcessing><setOutcomeValue identifier="SCORE"><sum><testVariables variableIdentifier="SCORE"/></sum></setOutcomeValue></outcomeProcessing>
+</assessmentTest>`;
+  zip.file('assessment.xml', test);
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-${evaluation.id}">
+<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>
+<organizations/>
+<resources>
+<resource identifier="test" type="imsqti_test_xmlv2p1" href="assessment.xml"><file href="assessment.xml"/>${items.map(item => `<dependency identifierref="${item.identifier}"/>`).join('')}</resource>
+${items.map(item => `<resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.identifier}.xml"><file href="${item.identifier}.xml"/>${item.images.map(image => `<file href="images/${image.name}"/>`).join('')}</resource>`).join('\n')}
+</resources>
+</manifest>`;
+  zip.file('imsmanifest.xml', manifest);
+
+  return { blob: await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' }), report };
+};
@@ -0,0 +1,38 @@
+import katex from 'katex';
+
+const LEGACY_MATH_HOST = 'https://math.vercel.app';
+
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Rendu local en MathML : pas de réseau, net à l'impression. La source LaTeX reste dans data-latex pour l'édition.
+export const renderLatex = (latex: string): string => {
+  const mathml = katex.renderToString(latex, { output: 'mathml', throwOnError: false });
+  return `<span class="math-equation" data-latex="${escapeAttribute(latex)}" contenteditable="false">${mathml}</span>`;
+};
+
+const getLegacyLatex = (img: HTMLImageElement) => {
+  const alt = img.getAttribute('alt');
+  if (alt) return alt;
+  try {
+    return new URL(img.getAttribute('src') || '').searchParams.get('from') || '';
+  } catch {
+    return '';
+  }
+};
+
+// Remplace les anciennes images math.vercel.app par le rendu local
+export const migrateLegacyMath = (html: string): string => {
+  if (!html || !html.includes(LEGACY_MATH_HOST) || typeof DOMParser === 'undefined') return html;
+
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstElementChild as HTMLElement;
+  root.querySelectorAll<HTMLImageElement>(`img[src^="${LEGACY_MATH_HOST}"]`).forEach(img => {
+    const latex = getLegacyLatex(img);
+    if (!latex) return;
+    const wrapper = doc.createElement('span');
+    wrapper.innerHTML = renderLatex(latex);
+    img.replaceWith(wrapper.firstElementChild!);
+  });
+  return root.innerHTML;
+};
@@ -0,0 +1,150 @@
+import { DocBlock, DocumentModel, TextRun, loadImageData } from './documentModel';
+
+// Export OpenDocument (LibreOffice) : même modèle que l'export Word
+
+const CONTENT_WIDTH_CM = 17;
+const SECTION_COLOR = '#dc2626';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:dc="http://purl.org/dc/elements/1.1/"',
+  'xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0"'
+].join(' ');
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// En ODF, les espaces multiples et tabulations doivent être balisés
+const odfText = (value: string) => escapeXml(value)
+  .replace(/\t/g, '<text:tab/>')
+  .replace(/ {2,}/g, spaces => ` <text:s text:c="${spaces.length - 1}"/>`);
+
+const FIXED_PARAGRAPH_STYLES = `
+<style:style style:name="PTitle" style:family="paragraph"><style:paragraph-properties fo:text-align="center" fo:padding="0.3cm" fo:margin-bottom="0.2cm" fo:background-color="{TITLE_COLOR}"/><style:text-properties fo:font-size="18pt" fo:font-weight="bold" fo:text-transform="uppercase" fo:color="{TITLE_TEXT}"/></style:style>
+<style:style style:name="PHeaderLine" style:family="paragraph"><style:paragraph-properties fo:margin-bottom="0.4cm"><style:tab-stops><style:tab-stop style:position="${CONTENT_WIDTH_CM}cm" style:type="right"/></style:tab-stops></style:paragraph-properties></style:style>
+<style:style style:name="PSection" style:family="paragraph"><style:paragraph-properties fo:margin-top="0.4cm" fo:margin-bottom="0.2cm" fo:border-bottom="0.06cm solid ${SECTION_COLOR}" fo:keep-with-next="always"><style:tab-stops><style:tab-stop style:position="${CONTENT_WIDTH_CM}cm" style:type="right"/></style:tab-stops></style:paragraph-properties><style:text-properties fo:font-size="14pt" fo:font-weight="bold" fo:text-transform="uppercase" fo:color="${SECTION_COLOR}"/></style:style>
+<style:style style:name="PQuestion" style:family="paragraph"><style:paragraph-properties fo:margin-top="0.25cm" fo:margin-bottom="0.1cm" fo:keep-with-next="always"><style:tab-stops><style:tab-stop style:position="${CONTENT_WIDTH_CM}cm" style:type="right"/></style:tab-stops></style:paragraph-properties><style:text-properties fo:font-weight="bold" fo:color="#1e3a8a"/></style:style>
+<style:style style:name="PBody" style:family="paragraph"><style:paragraph-properties fo:margin-left="0.6cm" fo:margin-bottom="0.1cm"/></style:style>
+<style:style style:name="PAnswer" style:family="paragraph"><style:paragraph-properties fo:margin-left="0.6cm" fo:padding-left="0.2cm" fo:border-left="0.1cm solid #22c55e" fo:background-color="#f0fdf4"/><style:text-properties fo:color="#14532d"/></style:style>
+<style:style style:name="PLine" style:family="paragraph"><style:paragraph-properties fo:margin-left="0.6cm" fo:line-height="0.8cm" fo:border-bottom="0.02cm solid #000000" fo:margin-bottom="0cm" style:join-border="false"/></style:style>
+<style:style style:name="PImage" style:family="paragraph"><style:paragraph-properties fo:text-align="center"/></style:style>
+<style:style style:name="TPoints" style:family="text"><style:text-properties fo:color="#94a3b8"/></style:style>
+<text:list-style style:name="LBullet"><text:list-level-style-bullet text:level="1" text:bullet-char="•"><style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.5cm" fo:margin-left="1.2cm"/></style:list-level-properties></text:list-level-style-bullet></text:list-style>
+<text:list-style style:name="LNumber"><text:list-level-style-number text:level="1" style:num-format="1" style:num-suffix="."><style:list-level-properties text:list-level-position-and-space-mode="label-alignment"><style:list-level-label-alignment text:label-followed-by="listtab" fo:text-indent="-0.5cm" fo:margin-left="1.2cm"/></style:list-level-properties></text:list-level-style-number></text:list-style>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES} office:version="1.2">
+<office:styles>
+<style:default-style style:family="paragraph"><style:text-properties style:font-name="Arial" fo:font-family="Arial" fo:font-size="12pt" fo:language="fr" fo:country="FR"/></style:default-style>
+<style:style style:name="Standard" style:family="paragraph" style:class="text"/>
+<style:style style:name="Heading_20_1" style:display-name="Heading 1" style:family="paragraph" style:parent-style-name="Standard" style:default-outline-level="1"><style:text-properties fo:font-size="14pt" fo:font-weight="bold"/></style:style>
+<style:style style:name="Heading_20_2" style:display-name="Heading 2" style:family="paragraph" style:parent-style-name="Standard" style:default-outline-level="2"><style:text-properties fo:font-size="13pt" fo:font-weight="bold"/></style:style>
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="PageA4"><style:page-layout-properties fo:page-width="21cm" fo:page-height="29.7cm" fo:margin-top="2cm" fo:margin-bottom="2cm" fo:margin-left="2cm" fo:margin-right="2cm"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles><style:master-page style:name="Standard" style:page-layout-name="PageA4"/></office:master-styles>
+</office:document-styles>`;
+
+export const buildOdt = async (model: DocumentModel): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  // Le type mime doit être la première entrée, non compressée
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text', { compression: 'STORE' });
+
+  const textStyles = new Map<string, string>();
+  const images: string[] = [];
+  const body: string[] = [];
+
+  // Un style de texte automatique par combinaison de mises en forme
+  const textStyleFor = (run: TextRun) => {
+    const props = [
+      run.bold ? 'fo:font-weight="bold"' : '',
+      run.italic ? 'fo:font-style="italic"' : '',
+      run.underline ? 'style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"' : '',
+      run.superscript ? 'style:text-position="super 58%"' : run.subscript ? 'style:text-position="sub 58%"' : '',
+      run.color ? `fo:color="#${run.color}"` : ''
+    ].filter(Boolean).join(' ');
+    if (!props) return null;
+    if (!textStyles.has(props)) textStyles.set(props, `T${textStyles.size + 1}`);
+    return textStyles.get(props)!;
+  };
+
+  const runsXml = (runs: TextRun[]) => runs.map(run => {
+    const style = textStyleFor(run);
+    const content = (run.lineBreak ? '<text:line-break/>' : '') + odfText(run.text);
+    return style ? `<text:span text:style-name="${style}">${content}</text:span>` : content;
+  }).join('');
+
+  const paragraph = (style: string, runs: TextRun[]) => `<text:p text:style-name="${style}">${runsXml(runs)}</text:p>`;
+
+  const blockXml = async (block: DocBlock): Promise<string> => {
+    switch (block.type) {
+      case 'title':
+        return paragraph('PTitle', [{ text: block.text }, ...(block.subtitle ? [{ text: block.subtitle, lineBreak: true }] : [])])
+          + `<text:p text:style-name="PHeaderLine">${odfText(block.date)}<text:tab/><text:span text:style-name="${textStyleFor({ text: '', bold: true })}">${odfText(block.note)}</text:span></text:p>`;
+      case 'section':
+        return paragraph('PSection', [{ text: block.title }, { text: `\t${block.meta}` }]);
+      case 'question':
+        return `<text:p text:style-name="PQuestion">${runsXml([{ text: `${block.number}. ` }, ...block.runs])}${block.points ? `<text:tab/><text:span text:style-name="TPoints">${odfText(block.points)}</text:span>` : ''}</text:p>`;
+      case 'paragraph':
+        return paragraph(block.answer ? 'PAnswer' : 'PBody', block.runs);
+      case 'heading':
+        return `<text:h text:style-name="Heading_20_${block.level}" text:outline-level="${block.level}">${runsXml(block.runs)}</text:h>`;
+      case 'list':
+        return `<text:list text:style-name="${block.ordered ? 'LNumber' : 'LBullet'}">${block.items.map(runs => `<text:list-item>${paragraph(block.answer ? 'PAnswer' : 'PBody', runs)}</text:list-item>`).join('')}</text:list>`;
+      case 'answer_lines':
+        return Array.from({ length: block.count }).map(() => '<text:p text:style-name="PLine"/>').join('');
+      case 'image': {
+        const image = await loadImageData(block.src);
+        if (!image) return '';
+        const path = `Pictures/image${images.length + 1}.${image.extension}`;
+        zip.file(path, image.data);
+        images.push(`<manifest:file-entry manifest:full-path="${path}" manifest:media-type="image/${image.extension}"/>`);
+        const width = CONTENT_WIDTH_CM * Math.min(100, block.widthPercent) / 100;
+        const height = width * image.height / image.width;
+        return `<text:p text:style-name="PImage"><draw:frame draw:name="Image${images.length}" text:anchor-type="as-char" svg:width="${width.toFixed(2)}cm" svg:height="${height.toFixed(2)}cm"><draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame></text:p>`;
+      }
+    }
+  };
+
+  const titleBlock = model.blocks.find(b => b.type === 'title');
+  for (const block of model.blocks) {
+    body.push(await blockXml(block));
+  }
+
+  const automaticStyles = FIXED_PARAGRAPH_STYLES
+    .replace('{TITLE_COLOR}', titleBlock?.type === 'title' ? `#${titleBlock.color}` : '#3b82f6')
+    .replace('{TITLE_TEXT}', titleBlock?.type === 'title' ? `#${titleBlock.textColor}` : '#ffffff')
+    + Array.from(textStyles.entries()).map(([props, name]) => `<style:style style:name="${name}" style:family="text"><style:text-properties ${props}/></style:style>`).join('');
+
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.2">
+<office:automatic-styles>${automaticStyles}</office:automatic-styles>
+<office:body><office:text>
+${body.join('\n')}
+</office:text></office:body>
+</office:document-content>`);
+  zip.file('styles.xml', STYLES_XML);
+  zip.file('meta.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta ${NAMESPACES} office:version="1.2"><office:meta><dc:title>${escapeXml(model.title)}</dc:title></office:meta></office:document-meta>`);
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="application/vnd.oasis.opendocument.text"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="meta.xml" manifest:media-type="text/xml"/>
+${images.join('\n')}
+</manifest:manifest>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.oasis.opendocument.text' });
+};
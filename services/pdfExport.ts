@@ -0,0 +1,197 @@
+import type { jsPDF } from 'jspdf';
+import { blobToDataUrl, convertToPng } from './imageService';
+
+const A4_WIDTH_MM = 210;
+const PX_TO_PT = 0.75;
+
+type Rgba = { r: number; g: number; b: number; a: number };
+
+const parseColor = (value: string): Rgba | null => {
+  const match = value.match(/rgba?\(([^)]+)\)/);
+  if (!match) return null;
+  const [r, g, b, a = '1'] = match[1].split(/[\s,/]+/).filter(Boolean);
+  return { r: parseFloat(r), g: parseFloat(g), b: parseFloat(b), a: parseFloat(a) };
+};
+
+const isVisibleColor = (color: Rgba | null): color is Rgba => !!color && color.a > 0;
+
+// Les polices standard du PDF sont limitées au jeu WinAnsi : on remplace les quelques symboles de l'aperçu
+const PDF_SAFE_CHARS: Record<string, string> = {
+  '\u2713': 'X', // coche
+  '\u2192': '->', // flèche
+  '\u2212': '-', // signe moins
+  '\u2264': '<=',
+  '\u2265': '>=',
+  '\u2260': '!=',
+  '\u2248': '~',
+  '\u00a0': ' ' // espace insécable
+};
+
+const toPdfText = (text: string) => text.replace(/[\u2713\u2192\u2212\u2264\u2265\u2260\u2248\u00a0]/g, c => PDF_SAFE_CHARS[c]);
+
+export const slugify = (value: string) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '') || 'evaluation';
+
+// Ex: "controle-fractions-corrige-sujet-b.pdf"
+export const buildExportFileName = (title: string, mode: 'student' | 'teacher', extension: string, variantLabel?: string | null) =>
+  [slugify(title), mode === 'teacher' ? 'corrige' : 'eleve', variantLabel ? slugify(variantLabel) : null]
+    .filter(Boolean)
+    .join('-') + `.${extension}`;
+
+// Les octets sont relus depuis l'adresse de l'image : l'<img> de l'aperçu, chargée sans CORS depuis le bucket,
+// rendrait le canvas "tainted". Les formats autres que PNG et JPEG sont convertis en PNG.
+const loadImageDataUrl = async (src: string): Promise<string | null> => {
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const image = blob.type === 'image/png' || blob.type === 'image/jpeg' ? blob : await convertToPng(blob);
+    return await blobToDataUrl(image);
+  } catch (error) {
+    console.error("Error loading image for PDF:", error);
+    return null;
+  }
+};
+
+// Reproduit une page A4 de l'aperçu dans le PDF : fonds, bordures, images et texte aux positions mesurées
+const createPageWriter = (doc: jsPDF, origin: DOMRect, images: Map<string, string | null>) => {
+  const scale = A4_WIDTH_MM / origin.width;
+  const x = (px: number) => (px - origin.left) * scale;
+  const y = (px: number) => (px - origin.top) * scale;
+  const mm = (px: number) => px * scale;
+
+  const drawBox = (el: Element, style: CSSStyleDeclaration) => {
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return;
+
+    const background = parseColor(style.backgroundColor);
+    if (isVisibleColor(background)) {
+      doc.setFillColor(background.r, background.g, background.b);
+      const radius = Math.min(mm(parseFloat(style.borderTopLeftRadius) || 0), mm(rect.width) / 2, mm(rect.height) / 2);
+      if (radius > 0) {
+        doc.roundedRect(x(rect.left), y(rect.top), mm(rect.width), mm(rect.height), radius, radius, 'F');
+      } else {
+        doc.rect(x(rect.left), y(rect.top), mm(rect.width), mm(rect.height), 'F');
+      }
+    }
+
+    const sides = [
+      { side: 'top', from: [rect.left, rect.top], to: [rect.right, rect.top] },
+      { side: 'right', from: [rect.right, rect.top], to: [rect.right, rect.bottom] },
+      { side: 'bottom', from: [rect.left, rect.bottom], to: [rect.right, rect.bottom] },
+      { side: 'left', from: [rect.left, rect.top], to: [rect.left, rect.bottom] }
+    ] as const;
+
+    for (const { side, from, to } of sides) {
+      const width = parseFloat(style.getPropertyValue(`border-${side}-width`));
+      const borderStyle = style.getPropertyValue(`border-${side}-style`);
+      const color = parseColor(style.getPropertyValue(`border-${side}-color`));
+      if (!width || borderStyle === 'none' || borderStyle === 'hidden' || !isVisibleColor(color)) continue;
+
+      // Le trait PDF est centré sur le milieu de la bordure CSS
+      const inset = width / 2;
+      const dx = side === 'left' ? inset : side === 'right' ? -inset : 0;
+      const dy = side === 'top' ? inset : side === 'bottom' ? -inset : 0;
+      const dash = borderStyle === 'dotted' ? [mm(width), mm(width) * 2] : borderStyle === 'dashed' ? [mm(width) * 3, mm(width) * 2] : [];
+      doc.setDrawColor(color.r, color.g, color.b);
+      doc.setLineWidth(mm(width));
+      doc.setLineDashPattern(dash, 0);
+      doc.line(x(from[0] + dx), y(from[1] + dy), x(to[0] + dx), y(to[1] + dy));
+    }
+    doc.setLineDashPattern([], 0);
+  };
+
+  const drawImage = (img: HTMLImageElement) => {
+    const rect = img.getBoundingClientRect();
+    const data = images.get(img.src);
+    if (!data || rect.width === 0) return;
+    const format = data.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG';
+    doc.addImage(data, format, x(rect.left), y(rect.top), mm(rect.width), mm(rect.height));
+  };
+
+  // Texte réel (sélectionnable) : les mots sont regroupés par ligne, à leur position mesurée dans l'aperçu
+  const drawText = (node: Text, style: CSSStyleDeclaration) => {
+    const content = node.textContent || '';
+    if (!content.trim()) return;
+
+    const color = parseColor(style.color) || { r: 0, g: 0, b: 0, a: 1 };
+    const bold = parseInt(style.fontWeight) >= 600;
+    const italic = style.fontStyle === 'italic';
+    doc.setFont('helvetica', bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal');
+    doc.setFontSize(parseFloat(style.fontSize) * PX_TO_PT);
+    doc.setTextColor(color.r, color.g, color.b);
+
+    const transform = (text: string) => style.textTransform === 'uppercase' ? text.toUpperCase() : text;
+    const range = document.createRange();
+    const wordRegex = /\S+/g;
+    let line: { text: string; left: number; top: number; height: number } | null = null;
+
+    const flush = () => {
+      if (!line) return;
+      doc.text(toPdfText(transform(line.text)), x(line.left), y(line.top + line.height / 2), { baseline: 'middle' });
+      line = null;
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = wordRegex.exec(content)) !== null) {
+      range.setStart(node, match.index);
+      range.setEnd(node, match.index + match[0].length);
+      const rect = range.getClientRects()[0];
+      if (!rect || rect.width === 0) continue;
+      if (line && Math.abs(line.top - rect.top) < rect.height / 2) {
+        line.text += ' ' + match[0];
+      } else {
+        flush();
+        line = { text: match[0], left: rect.left, top: rect.top, height: rect.height };
+      }
+    }
+    flush();
+  };
+
+  const walk = (el: Element) => {
+    const style = getComputedStyle(el);
+    if (style.display === 'none' || style.visibility === 'hidden' || el.tagName.toLowerCase() === 'svg') return;
+
+    drawBox(el, style);
+    if (el instanceof HTMLImageElement) {
+      drawImage(el);
+      return;
+    }
+    el.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        drawText(child as Text, style);
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        walk(child as Element);
+      }
+    });
+  };
+
+  return { walk };
+};
+
+// Construit un PDF vectoriel à partir des pages A4 déjà mises en page par l'aperçu.
+// Retourne le nombre d'images qui n'ont pas pu être intégrées.
+export const exportPagesToPdf = async (pageElements: HTMLElement[], fileName: string): Promise<number> => {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'portrait' });
+
+  const sources = new Set(pageElements.flatMap(pageEl => Array.from(pageEl.querySelectorAll('img'), img => img.src)));
+  const images = new Map<string, string | null>();
+  for (const src of sources) {
+    images.set(src, await loadImageDataUrl(src));
+  }
+
+  pageElements.forEach((pageEl, index) => {
+    if (index > 0) doc.addPage('a4', 'portrait');
+    createPageWriter(doc, pageEl.getBoundingClientRect(), images).walk(pageEl);
+  });
+
+  doc.setProperties({ title: fileName.replace(/\.pdf$/, '') });
+  doc.save(fileName);
+  return Array.from(images.values()).filter(data => !data).length;
+};
+
@@ -0,0 +1,99 @@
+import { BankItem, BankFilters, Question } from '../types';
+import { supabase, getSessionUserId } from './supabaseClient';
+import { createQuestion, normalizeQuestion } from './questionTypes';
+
+let MOCK_BANK: BankItem[] = [];
+
+// Retire ce qui rattache une question à une évaluation précise
+const toBankQuestion = (q: Question): Question => {
+  const { evaluation_id, bank_item_id, ...rest } = q;
+  return { ...rest, order_index: 0 };
+};
+
+const normalizeItem = (raw: any): BankItem => ({
+  ...raw,
+  level: raw.level || '',
+  theme: raw.theme || '',
+  is_shared: !!raw.is_shared,
+  question: normalizeQuestion(raw.question || {})
+});
+
+const matchesFilters = (item: BankItem, filters: BankFilters) => {
+  if (filters.category_id && item.category_id !== filters.category_id) return false;
+  if (filters.level && item.level !== filters.level) return false;
+  if (filters.theme && item.theme !== filters.theme) return false;
+  if (filters.search) {
+    const needle = filters.search.toLowerCase();
+    const q = item.question;
+    const haystack = [
+      q.question_text,
+      q.teacher_answer,
+      q.cloze_text,
+      item.theme,
+      ...q.options.map(o => o.text),
+      ...q.statements.map(s => s.text),
+      ...q.pairs.map(p => `${p.left} ${p.right}`)
+    ].join(' ').toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+};
+
+export const bankService = {
+  searchItems: async (filters: BankFilters = {}): Promise<BankItem[]> => {
+    if (supabase) {
+      const userId = await getSessionUserId();
+      if (!userId) return [];
+      let query = supabase.from('question_bank').select('*').order('created_at', { ascending: false });
+      // Les questions des collègues ne sont visibles que si elles ont été partagées (voir les règles RLS)
+      if (filters.scope === 'shared') {
+        query = query.eq('is_shared', true).neq('user_id', userId);
+      } else {
+        query = query.eq('user_id', userId);
+        if (filters.category_id) query = query.eq('category_id', filters.category_id);
+      }
+      if (filters.level) query = query.eq('level', filters.level);
+      if (filters.theme) query = query.eq('theme', filters.theme);
+      const { data, error } = await query;
+      if (error) {
+        console.error("Supabase Error:", error);
+        return MOCK_BANK.filter(item => matchesFilters(item, filters));
+      }
+      // La recherche plein texte porte aussi sur le contenu JSON de la question : filtrage côté client
+      return (data || []).map(normalizeItem).filter(item => matchesFilters(item, { search: filters.search }));
+    }
+    // Mode démo : un seul enseignant, rien de partagé par d'autres
+    if (filters.scope === 'shared') return Promise.resolve([]);
+    return Promise.resolve(MOCK_BANK.filter(item => matchesFilters(item, filters)));
+  },
+
+  addItem: async (question: Question, tags: Pick<BankItem, 'category_id' | 'level' | 'theme' | 'is_shared'>): Promise<BankItem> => {
+    const item = { ...tags, question: toBankQuestion(question) };
+    if (supabase) {
+      const { data, error } = await supabase.from('question_bank').insert(item).select().single();
+      if (error) throw error;
+      return normalizeItem(data);
+    }
+    const newItem: BankItem = { ...item, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+    MOCK_BANK.unshift(newItem);
+    return Promise.resolve(newItem);
+  },
+
+  deleteItem: async (id: string): Promise<void> => {
+    if (supabase) {
+      const { error } = await supabase.from('question_bank').delete().eq('id', id);
+      if (error) throw error;
+      return;
+    }
+    MOCK_BANK = MOCK_BANK.filter(item => item.id !== id);
+    return Promise.resolve();
+  }
+};
+
+// Copie d'une question de la banque prête à être insérée dans une évaluation
+export const instantiateBankItem = (item: BankItem, fields: Partial<Question> = {}): Question => createQuestion({
+  ...JSON.parse(JSON.stringify(item.question)),
+  id: crypto.randomUUID(),
+  bank_item_id: item.id,
+  ...fields
+});
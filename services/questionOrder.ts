@@ -0,0 +1,47 @@
+import { Evaluation } from '../types';
+import { fromSectionGroups, groupQuestionsBySection } from './sections';
+
+// Réorganisation des questions et des sections dans l'éditeur.
+// Chaque opération renvoie une évaluation dont order_index (sections et questions) suit la position,
+// pour que l'éditeur, l'enregistrement et l'impression affichent le même ordre.
+
+// Place une question dans une section à la position donnée de cette section
+export const moveQuestion = (evaluation: Evaluation, questionId: string, sectionId: string, indexInSection: number): Evaluation => {
+  const moving = evaluation.questions.find(q => q.id === questionId);
+  if (!moving) return evaluation;
+  const groups = groupQuestionsBySection(evaluation).map(g => ({ ...g, questions: g.questions.filter(q => q.id !== questionId) }));
+  const target = groups.find(g => g.section.id === sectionId);
+  if (!target) return evaluation;
+  target.questions.splice(Math.max(0, Math.min(indexInSection, target.questions.length)), 0, moving);
+  return fromSectionGroups(evaluation, groups);
+};
+
+// Déplacement au clavier : une question en tête (ou en fin) de section passe dans la section voisine
+export const shiftQuestion = (evaluation: Evaluation, questionId: string, delta: -1 | 1): Evaluation => {
+  const groups = groupQuestionsBySection(evaluation);
+  const groupIndex = groups.findIndex(g => g.questions.some(q => q.id === questionId));
+  if (groupIndex === -1) return evaluation;
+  const group = groups[groupIndex];
+  const targetIndex = group.questions.findIndex(q => q.id === questionId) + delta;
+  if (targetIndex >= 0 && targetIndex < group.questions.length) {
+    return moveQuestion(evaluation, questionId, group.section.id, targetIndex);
+  }
+  const neighbour = groups[groupIndex + delta];
+  if (!neighbour) return evaluation;
+  return moveQuestion(evaluation, questionId, neighbour.section.id, delta === -1 ? neighbour.questions.length : 0);
+};
+
+// Déplace une section entière (avec ses questions) à la position donnée parmi les sections
+export const moveSection = (evaluation: Evaluation, sectionId: string, targetIndex: number): Evaluation => {
+  const groups = groupQuestionsBySection(evaluation);
+  const index = groups.findIndex(g => g.section.id === sectionId);
+  if (index === -1) return evaluation;
+  const [group] = groups.splice(index, 1);
+  groups.splice(Math.max(0, Math.min(targetIndex, groups.length)), 0, group);
+  return fromSectionGroups(evaluation, groups);
+};
+
+export const shiftSection = (evaluation: Evaluation, sectionId: string, delta: -1 | 1): Evaluation => {
+  const index = groupQuestionsBySection(evaluation).findIndex(g => g.section.id === sectionId);
+  return index === -1 ? evaluation : moveSection(evaluation, sectionId, index + delta);
+};
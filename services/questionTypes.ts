@@ -0,0 +1,99 @@
+import { Question, QuestionType, MatchingPair } from '../types';
+import { migrateLegacyMath } from './math';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  open: 'Réponse libre',
+  qcm: 'QCM',
+  true_false: 'Vrai / Faux',
+  matching: 'Relier',
+  cloze: 'Texte à trous'
+};
+
+export const createQuestion = (fields: Partial<Question> = {}): Question => ({
+  id: crypto.randomUUID(),
+  section_name: 'Exercice 1',
+  question_type: 'open',
+  question_text: '',
+  teacher_answer: '',
+  student_prompt: null,
+  options: [],
+  statements: [],
+  pairs: [],
+  cloze_text: '',
+  order_index: 0,
+  points: 2,
+  competency_ids: [],
+  is_bonus: false,
+  ...fields
+});
+
+// Complète une question venant de la base ou d'un ancien enregistrement (et migre ses anciennes équations)
+export const normalizeQuestion = (raw: any): Question => createQuestion({
+  ...raw,
+  question_type: raw.question_type || 'open',
+  teacher_answer: migrateLegacyMath(raw.teacher_answer || ''),
+  student_prompt: raw.student_prompt == null ? null : migrateLegacyMath(raw.student_prompt),
+  options: raw.options || [],
+  statements: raw.statements || [],
+  pairs: raw.pairs || [],
+  cloze_text: raw.cloze_text || '',
+  points: raw.points ?? 2,
+  bank_item_id: raw.bank_item_id ?? null,
+  competency_ids: raw.competency_ids || [],
+  is_bonus: !!raw.is_bonus
+});
+
+export type ClozePart = { type: 'text'; value: string } | { type: 'blank'; answer: string };
+
+// "Le chat [mange] la souris" -> texte / trou / texte
+export const parseCloze = (text: string): ClozePart[] => {
+  const parts: ClozePart[] = [];
+  const regex = /\[([^\]]*)\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ type: 'text', value: text.slice(lastIndex, match.index) });
+    }
+    parts.push({ type: 'blank', answer: match[1].trim() });
+    lastIndex = regex.lastIndex;
+  }
+  if (lastIndex < text.length) {
+    parts.push({ type: 'text', value: text.slice(lastIndex) });
+  }
+  return parts;
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return hash;
+};
+
+// Ordre de la colonne de droite d'un exercice "Relier" : mélangé, mais stable d'un rendu à l'autre
+export const getMatchingRightColumn = (pairs: MatchingPair[]): MatchingPair[] => {
+  const shuffled = [...pairs].sort((a, b) => hashString(a.id) - hashString(b.id));
+  // Évite de retomber sur l'ordre de la colonne de gauche, ce qui rendrait l'exercice trivial
+  if (shuffled.length > 1 && shuffled.every((p, i) => p.id === pairs[i].id)) {
+    shuffled.push(shuffled.shift()!);
+  }
+  return shuffled;
+};
+
+// Message d'erreur si le corrigé d'une question est incomplet, null sinon
+export const validateAnswerKey = (q: Question): string | null => {
+  switch (q.question_type) {
+    case 'qcm':
+      return q.options.some(o => o.is_correct) ? null : 'cochez au moins une bonne réponse.';
+    case 'true_false':
+      return q.statements.length > 0 ? null : 'ajoutez au moins une affirmation.';
+    case 'matching':
+      return q.pairs.length > 1 ? null : 'ajoutez au moins deux associations.';
+    case 'cloze':
+      return parseCloze(q.cloze_text).some(p => p.type === 'blank') ? null : 'placez au moins un mot entre crochets [ ].';
+    default:
+      return null;
+  }
+};
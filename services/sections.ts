@@ -0,0 +1,162 @@
+import { Evaluation, NumberingSettings, NumberingStyle, Question, Section } from '../types';
+
+// Sections d'une évaluation : titre, consigne, ordre, temps conseillé, barème plafonné et numérotation.
+// question.section_name reste une copie du titre pour les exports qui ne connaissent que le nom (Moodle, QTI...).
+
+export const DEFAULT_NUMBERING: NumberingSettings = { scope: 'continuous', style: 'arabic' };
+
+export const NUMBERING_STYLE_LABELS: Record<NumberingStyle, string> = {
+  arabic: '1, 2, 3',
+  roman: 'I, II, III',
+  letter: 'A, B, C'
+};
+
+export interface SectionGroup {
+  section: Section;
+  questions: Question[];
+}
+
+export const createSection = (fields: Partial<Section> = {}): Section => ({
+  id: crypto.randomUUID(),
+  title: 'Exercice 1',
+  instructions: '',
+  order_index: 0,
+  duration_minutes: null,
+  points_cap: null,
+  ...fields
+});
+
+// Complète une section venant de la base ou d'un ancien enregistrement
+const normalizeSection = (raw: any): Section => createSection({
+  ...raw,
+  title: raw.title ?? '',
+  instructions: raw.instructions || '',
+  duration_minutes: raw.duration_minutes ?? null,
+  points_cap: raw.points_cap ?? null
+});
+
+// Garantit des sections cohérentes : les anciennes évaluations (section_name seul) obtiennent
+// une section par nom distinct, dans l'ordre de première apparition. Les questions sont rangées
+// section par section, et order_index suit la position des sections comme des questions.
+export const ensureSections = (evaluation: Evaluation): Evaluation => {
+  const sections = (evaluation.sections || []).map(normalizeSection).sort((a, b) => a.order_index - b.order_index);
+  const byId = new Map(sections.map(s => [s.id, s]));
+  const buckets = new Map<string, Question[]>(sections.map(s => [s.id, []]));
+
+  evaluation.questions.forEach(q => {
+    let section = q.section_id ? byId.get(q.section_id) : undefined;
+    if (!section) {
+      const title = q.section_name || 'Autre';
+      section = sections.find(s => s.title === title);
+      if (!section) {
+        section = createSection({ title });
+        sections.push(section);
+        byId.set(section.id, section);
+        buckets.set(section.id, []);
+      }
+    }
+    buckets.get(section.id)!.push(q);
+  });
+
+  const orderedSections = sections.map((s, order_index) => s.order_index === order_index ? s : { ...s, order_index });
+  const questions = orderedSections.flatMap(s => buckets.get(s.id)!.map(q => ({ ...q, section_id: s.id, section_name: s.title })));
+  return {
+    ...evaluation,
+    sections: orderedSections,
+    questions: questions.map((q, order_index) => q.order_index === order_index ? q : { ...q, order_index })
+  };
+};
+
+export const groupQuestionsBySection = (evaluation: Evaluation): SectionGroup[] => {
+  const normalized = ensureSections(evaluation);
+  return normalized.sections!.map(section => ({
+    section,
+    questions: normalized.questions.filter(q => q.section_id === section.id)
+  }));
+};
+
+// Remplace les questions et sections d'une évaluation à partir de groupes ordonnés
+export const fromSectionGroups = (evaluation: Evaluation, groups: SectionGroup[]): Evaluation => ensureSections({
+  ...evaluation,
+  sections: groups.map((g, order_index) => ({ ...g.section, order_index })),
+  questions: groups.flatMap(g => g.questions.map(q => ({ ...q, section_id: g.section.id })))
+});
+
+// Modifie une section ; le titre est recopié dans section_name de ses questions
+export const updateSection = (evaluation: Evaluation, sectionId: string, changes: Partial<Section>): Evaluation => ensureSections({
+  ...evaluation,
+  sections: (evaluation.sections || []).map(s => s.id === sectionId ? { ...s, ...changes } : s)
+});
+
+// Supprime une section vide (des questions restantes recréeraient une section à leur nom)
+export const removeSection = (evaluation: Evaluation, sectionId: string): Evaluation => ensureSections({
+  ...evaluation,
+  sections: (evaluation.sections || []).filter(s => s.id !== sectionId)
+});
+
+// Ajoute une question en fin de section : la dernière par défaut, créée si l'évaluation n'en a aucune
+export const appendQuestion = (evaluation: Evaluation, question: Question, sectionId?: string): Evaluation => {
+  const sections = evaluation.sections || [];
+  const target = sections.find(s => s.id === sectionId) || sections[sections.length - 1] || createSection();
+  return ensureSections({
+    ...evaluation,
+    sections: sections.includes(target) ? sections : [...sections, target],
+    questions: [...evaluation.questions, { ...question, section_id: target.id, section_name: target.title }]
+  });
+};
+
+// Copie avec de nouveaux identifiants de section (duplication, import en copie)
+export const remapSectionIds = (evaluation: Evaluation, newId: (id: string) => string): Evaluation => {
+  const normalized = ensureSections(evaluation);
+  const ids = new Map(normalized.sections!.map(s => [s.id, newId(s.id)]));
+  return {
+    ...normalized,
+    sections: normalized.sections!.map(s => ({ ...s, id: ids.get(s.id)!, evaluation_id: undefined })),
+    questions: normalized.questions.map(q => ({ ...q, section_id: ids.get(q.section_id!)! }))
+  };
+};
+
+// Points rapportés par une section hors bonus, limités par son éventuel plafond
+export const getSectionPoints = (section: Section, questions: Question[]) => {
+  const total = questions.reduce((acc, q) => acc + (q.is_bonus ? 0 : q.points || 0), 0);
+  return section.points_cap != null ? Math.min(total, section.points_cap) : total;
+};
+
+// Points des questions bonus, jamais plafonnés
+export const getBonusPoints = (questions: Question[]) =>
+  questions.reduce((acc, q) => acc + (q.is_bonus ? q.points || 0 : 0), 0);
+
+// "(6 pts + 1 bonus · 20 min)" sous le titre de section, à l'écran comme à l'impression
+export const sectionMetaLabel = (section: Section, points: number, bonus = 0) =>
+  `(${[`${points} pts${bonus ? ` + ${bonus} bonus` : ''}`, section.duration_minutes ? `${section.duration_minutes} min` : null].filter(Boolean).join(' · ')})`;
+
+const toRoman = (value: number) => {
+  const numerals: [number, string][] = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+  let rest = value;
+  return numerals.reduce((acc, [n, symbol]) => {
+    while (rest >= n) {
+      acc += symbol;
+      rest -= n;
+    }
+    return acc;
+  }, '');
+};
+
+// A, B... Z, AA, AB...
+const toLetters = (value: number): string =>
+  value <= 0 ? '' : toLetters(Math.floor((value - 1) / 26)) + String.fromCharCode(65 + (value - 1) % 26);
+
+export const formatQuestionNumber = (value: number, style: NumberingStyle) =>
+  style === 'roman' ? toRoman(value) : style === 'letter' ? toLetters(value) : String(value);
+
+// Numéro affiché de chaque question, selon la numérotation de l'évaluation
+export const getQuestionNumbers = (evaluation: Evaluation): Map<string, string> => {
+  const numbering = evaluation.numbering || DEFAULT_NUMBERING;
+  const numbers = new Map<string, string>();
+  let counter = 0;
+  groupQuestionsBySection(evaluation).forEach(group => {
+    if (numbering.scope === 'per_section') counter = 0;
+    group.questions.forEach(q => numbers.set(q.id, formatQuestionNumber(++counter, numbering.style)));
+  });
+  return numbers;
+};
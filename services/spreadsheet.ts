@@ -0,0 +1,135 @@
+// Lecture et écriture de tableurs simples : CSV (import / export) et ODS (export)
+
+export type CsvSeparator = ';' | ',' | '\t';
+export type TextEncoding = 'utf-8' | 'windows-1252';
+export type SpreadsheetCell = string | number | null;
+
+export const CSV_SEPARATOR_LABELS: Record<CsvSeparator, string> = {
+  ';': 'Point-virgule (;)',
+  ',': 'Virgule (,)',
+  '\t': 'Tabulation'
+};
+
+export const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (Excel)'
+};
+
+// Un fichier qui n'est pas de l'UTF-8 valide vient presque toujours d'Excel sous Windows
+export const detectEncoding = (buffer: ArrayBuffer): TextEncoding => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const decodeText = (buffer: ArrayBuffer, encoding: TextEncoding) =>
+  new TextDecoder(encoding).decode(buffer).replace(/^\uFEFF/, '');
+
+// Le séparateur le plus fréquent hors guillemets sur les premières lignes
+export const detectSeparator = (text: string): CsvSeparator => {
+  const sample = text.split(/\r?\n/).slice(0, 10).join('\n').replace(/"[^"]*"/g, '');
+  const counts = (Object.keys(CSV_SEPARATOR_LABELS) as CsvSeparator[])
+    .map(separator => ({ separator, count: sample.split(separator).length - 1 }));
+  const best = counts.sort((a, b) => b.count - a.count)[0];
+  return best.count > 0 ? best.separator : ';';
+};
+
+// RFC 4180 : champs entre guillemets, guillemets doublés, retours à la ligne dans un champ
+export const parseCsv = (text: string, separator: CsvSeparator): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Les lignes vides (fin de fichier, séparations) sont ignorées
+  return rows.map(r => r.map(cell => cell.trim())).filter(r => r.some(Boolean));
+};
+
+// Point-virgule et virgule décimale : ce qu'attend un Excel ou un LibreOffice réglé en français
+export const buildCsv = (rows: SpreadsheetCell[][]): Blob => {
+  const formatCell = (cell: SpreadsheetCell) => {
+    if (cell === null) return '';
+    const value = typeof cell === 'number' ? String(cell).replace('.', ',') : cell;
+    return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const content = rows.map(row => row.map(formatCell).join(';')).join('\r\n');
+  // BOM pour qu'Excel reconnaisse l'UTF-8
+  return new Blob(['\uFEFF' + content + '\r\n'], { type: 'text/csv;charset=utf-8' });
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const ODS_NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"'
+].join(' ');
+
+// Une seule feuille ; la première ligne (en-têtes) est en gras
+export const buildOds = async (rows: SpreadsheetCell[][], sheetName: string): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  // Le type mime doit être la première entrée, non compressée
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.spreadsheet', { compression: 'STORE' });
+
+  const cellXml = (cell: SpreadsheetCell, header: boolean) => {
+    const style = header ? ' table:style-name="CHeader"' : '';
+    if (cell === null || cell === '') return `<table:table-cell${style}/>`;
+    if (typeof cell === 'number') {
+      return `<table:table-cell${style} office:value-type="float" office:value="${cell}"><text:p>${String(cell).replace('.', ',')}</text:p></table:table-cell>`;
+    }
+    return `<table:table-cell${style} office:value-type="string"><text:p>${escapeXml(cell)}</text:p></table:table-cell>`;
+  };
+
+  // Les tableurs refusent certains caractères dans les noms de feuille
+  const safeName = sheetName.replace(/[[\]*?:/\\']/g, ' ').trim().slice(0, 31) || 'Feuille1';
+
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${ODS_NAMESPACES} office:version="1.2">
+<office:automatic-styles><style:style style:name="CHeader" style:family="table-cell"><style:text-properties fo:font-weight="bold"/></style:style></office:automatic-styles>
+<office:body><office:spreadsheet><table:table table:name="${escapeXml(safeName)}">
+${rows.map((row, i) => `<table:table-row>${row.map(cell => cellXml(cell, i === 0)).join('')}</table:table-row>`).join('\n')}
+</table:table></office:spreadsheet></office:body>
+</office:document-content>`);
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+<manifest:file-entry manifest:full-path="/" manifest:version="1.2" manifest:media-type="application/vnd.oasis.opendocument.spreadsheet"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.oasis.opendocument.spreadsheet' });
+};
@@ -0,0 +1,164 @@
+import { Evaluation, Question } from '../types';
+import { createQuestion } from './questionTypes';
+import { createSection, ensureSections, remapSectionIds } from './sections';
+
+// Bibliothèque de modèles : une nouvelle évaluation pré-remplie de sections et de questions à compléter
+
+export interface EvaluationTemplate {
+  id: string;
+  name: string;
+  description: string;
+  title: string; // Titre proposé pour l'évaluation créée
+  sections: { name: string; instructions?: string; questions: Partial<Question>[] }[];
+}
+
+const option = (text: string, is_correct = false) => ({ id: crypto.randomUUID(), text, is_correct });
+
+export const EVALUATION_TEMPLATES: EvaluationTemplate[] = [
+  {
+    id: 'chapter-test',
+    name: 'Contrôle de fin de chapitre',
+    description: 'Connaissances, application puis réflexion, de la restitution à la mise en œuvre.',
+    title: 'Contrôle – Chapitre …',
+    sections: [
+      {
+        name: 'Exercice 1 : Connaissances',
+        questions: [
+          {
+            question_type: 'qcm',
+            question_text: 'Question de cours : choisis la bonne réponse.',
+            options: [option('Bonne réponse', true), option('Proposition fausse'), option('Proposition fausse')],
+            points: 1
+          },
+          {
+            question_type: 'true_false',
+            question_text: 'Vrai ou faux ?',
+            statements: [{ id: crypto.randomUUID(), text: 'Affirmation à juger', is_true: true }],
+            points: 1
+          },
+          { question_text: 'Donne la définition de …', teacher_answer: '<p>Définition attendue.</p>', points: 2 }
+        ]
+      },
+      {
+        name: 'Exercice 2 : Application',
+        questions: [
+          { question_text: 'Applique la méthode du cours pour …', teacher_answer: '<p>Étapes et résultat attendus.</p>', points: 3 },
+          { question_text: 'Même consigne avec des données différentes.', teacher_answer: '<p>Résultat attendu.</p>', points: 3 }
+        ]
+      },
+      {
+        name: 'Exercice 3 : Réflexion',
+        questions: [
+          { question_text: 'Explique pourquoi …', teacher_answer: '<p>Éléments de réponse attendus.</p>', points: 4 }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'dictation',
+    name: 'Dictée',
+    description: 'Dictée suivie de questions de grammaire, de conjugaison et de vocabulaire.',
+    title: 'Dictée n° …',
+    sections: [
+      {
+        name: 'Dictée',
+        instructions: 'Écris le texte dicté puis relis-toi attentivement.',
+        questions: [
+          {
+            question_text: 'Écris le texte dicté.',
+            teacher_answer: '<p>Texte de la dictée.</p>',
+            points: 10
+          }
+        ]
+      },
+      {
+        name: 'Grammaire et conjugaison',
+        questions: [
+          {
+            question_type: 'cloze',
+            question_text: 'Complète avec le verbe conjugué au présent.',
+            cloze_text: 'Les enfants [jouent] dans la cour.',
+            points: 2
+          },
+          { question_text: 'Souligne le sujet et entoure le verbe dans la phrase : …', teacher_answer: '<p>Sujet : … / Verbe : …</p>', points: 2 }
+        ]
+      },
+      {
+        name: 'Vocabulaire',
+        questions: [
+          {
+            question_type: 'matching',
+            question_text: 'Relie chaque mot à sa définition.',
+            pairs: [
+              { id: crypto.randomUUID(), left: 'Mot 1', right: 'Définition 1' },
+              { id: crypto.randomUUID(), left: 'Mot 2', right: 'Définition 2' }
+            ],
+            points: 2
+          }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'problems',
+    name: 'Problèmes',
+    description: 'Trois problèmes avec calculs et phrase réponse, de difficulté croissante.',
+    title: 'Résolution de problèmes',
+    sections: [1, 2, 3].map(n => ({
+      name: `Problème ${n}`,
+      instructions: 'Rédige tes calculs et termine par une phrase réponse.',
+      questions: [
+        {
+          question_text: `Énoncé du problème ${n}.`,
+          student_prompt: '<p>Calculs :</p><p><br></p><p><br></p><p>Phrase réponse : …</p>',
+          teacher_answer: '<p>Calculs attendus.</p><p><strong>Phrase réponse.</strong></p>',
+          points: n + 2
+        }
+      ]
+    }))
+  }
+];
+
+// Les identifiants sont générés à chaque création : deux évaluations issues du même modèle restent indépendantes
+export const createFromTemplate = (template: EvaluationTemplate, categoryId: string): Evaluation => {
+  const sections = template.sections.map((section, index) =>
+    createSection({ title: section.name, instructions: section.instructions || '', order_index: index }));
+  const questions = template.sections.flatMap((section, index) =>
+    section.questions.map(fields => ({ ...fields, section_id: sections[index].id, section_name: section.name })));
+  return ensureSections({
+    id: crypto.randomUUID(),
+    title: template.title,
+    category_id: categoryId,
+    sections,
+    questions: questions.map((fields, index) => createQuestion({
+      ...JSON.parse(JSON.stringify(fields)),
+      id: crypto.randomUUID(),
+      options: (fields.options || []).map(o => ({ ...o, id: crypto.randomUUID() })),
+      statements: (fields.statements || []).map(s => ({ ...s, id: crypto.randomUUID() })),
+      pairs: (fields.pairs || []).map(p => ({ ...p, id: crypto.randomUUID() })),
+      order_index: index
+    }))
+  });
+};
+
+// Copie complète d'une évaluation : nouvel identifiant, nouvelles questions, même contenu
+export const duplicateEvaluation = (evaluation: Evaluation, fields: Pick<Evaluation, 'title' | 'category_id'>): Evaluation => {
+  const copy = remapSectionIds(evaluation, () => crypto.randomUUID());
+  return {
+    id: crypto.randomUUID(),
+    title: fields.title,
+    category_id: fields.category_id,
+    numbering: evaluation.numbering ? { ...evaluation.numbering } : null,
+    variant_settings: evaluation.variant_settings ? { ...evaluation.variant_settings } : null,
+    competency_grid: evaluation.competency_grid,
+    grading_scale: evaluation.grading_scale ? { ...evaluation.grading_scale } : null,
+    header: evaluation.header ? { ...evaluation.header } : null,
+    sections: copy.sections,
+    questions: copy.questions.map((q, index) => createQuestion({
+      ...JSON.parse(JSON.stringify(q)),
+      id: crypto.randomUUID(),
+      evaluation_id: undefined,
+      order_index: index
+    }))
+  };
+};
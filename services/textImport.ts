@@ -0,0 +1,349 @@
+import { Question } from '../types';
+import { createQuestion } from './questionTypes';
+
+// Import de questions depuis des formats texte : Aiken, GIFT (Moodle) et un Markdown simple
+
+export type TextImportFormat = 'aiken' | 'gift' | 'markdown';
+
+export const TEXT_IMPORT_FORMAT_LABELS: Record<TextImportFormat, string> = {
+  aiken: 'Aiken',
+  gift: 'GIFT (Moodle)',
+  markdown: 'Markdown'
+};
+
+export interface TextImportError {
+  line: number;
+  message: string;
+}
+
+export interface TextImportResult {
+  format: TextImportFormat;
+  questions: Question[];
+  errors: TextImportError[];
+}
+
+interface TextBlock {
+  line: number; // Numéro (1-based) de la première ligne du bloc
+  lines: string[];
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;');
+
+const linesToHtml = (lines: string[]) => `<p>${lines.map(escapeHtml).join('<br>')}</p>`;
+
+// Blocs séparés par des lignes vides
+const splitBlocks = (lines: string[]): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  let current: TextBlock | null = null;
+  lines.forEach((line, i) => {
+    if (!line.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line.trim());
+  });
+  return blocks;
+};
+
+// Marqueurs propres au GIFT : titre "::Titre::", ou bloc de réponses "{=...}", "{~...}", "{T}".
+// De simples accolades (ensembles, LaTeX, code) ne suffisent pas.
+const GIFT_TITLE = /^\s*::[^:\n]+::/m;
+const GIFT_ANSWER_BLOCK = /\{\s*(?:[=~][^{}]*|T|TRUE|F|FALSE)\s*\}/i;
+
+export const detectTextFormat = (text: string): TextImportFormat => {
+  if (/^ANSWER:\s*[A-Z]\s*$/im.test(text)) return 'aiken';
+  if (GIFT_TITLE.test(text) || GIFT_ANSWER_BLOCK.test(text)) return 'gift';
+  return 'markdown';
+};
+
+// --- Aiken ---
+// Question ?
+// A. Proposition
+// B. Proposition
+// ANSWER: B
+
+const AIKEN_OPTION = /^([A-Z])[.)]\s+(.+)$/;
+const AIKEN_ANSWER = /^ANSWER:\s*([A-Z])\s*$/i;
+
+const parseAiken = (lines: string[], section: string, errors: TextImportError[]): Question[] => {
+  const questions: Question[] = [];
+
+  splitBlocks(lines).forEach(block => {
+    const statement: string[] = [];
+    const options: { letter: string; text: string }[] = [];
+    let answer: string | null = null;
+    let valid = true;
+
+    block.lines.forEach((line, offset) => {
+      const lineNumber = block.line + offset;
+      const answerMatch = line.match(AIKEN_ANSWER);
+      const optionMatch = line.match(AIKEN_OPTION);
+      if (answer !== null) {
+        errors.push({ line: lineNumber, message: "Ligne inattendue après « ANSWER: » (séparez les questions par une ligne vide)." });
+        valid = false;
+      } else if (answerMatch) {
+        answer = answerMatch[1].toUpperCase();
+        if (!options.some(o => o.letter === answer)) {
+          errors.push({ line: lineNumber, message: `La réponse ${answer} ne correspond à aucune proposition.` });
+          valid = false;
+        }
+      } else if (optionMatch) {
+        options.push({ letter: optionMatch[1], text: optionMatch[2].trim() });
+      } else if (options.length === 0) {
+        statement.push(line);
+      } else {
+        errors.push({ line: lineNumber, message: "Proposition mal formée : attendu « A. texte »." });
+        valid = false;
+      }
+    });
+
+    if (options.length < 2) {
+      errors.push({ line: block.line, message: "Au moins deux propositions (A., B., ...) sont nécessaires." });
+      valid = false;
+    }
+    if (answer === null) {
+      errors.push({ line: block.line + block.lines.length - 1, message: "Ligne « ANSWER: » manquante." });
+      valid = false;
+    }
+    if (!valid) return;
+
+    questions.push(createQuestion({
+      section_name: section,
+      question_type: 'qcm',
+      question_text: statement.join('\n'),
+      options: options.map(o => ({ id: crypto.randomUUID(), text: o.text, is_correct: o.letter === answer })),
+      order_index: questions.length
+    }));
+  });
+
+  return questions;
+};
+
+// --- GIFT ---
+// ::Titre:: Énoncé { =bonne ~mauvaise }   |   { T }   |   { =a -> 1 =b -> 2 }   |   Texte { =mot } suite
+
+// Découpe sur un caractère spécial non échappé
+const findUnescaped = (text: string, chars: string, from = 0) => {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (chars.includes(text[i])) return i;
+  }
+  return -1;
+};
+
+const unescapeGift = (value: string) => value.replace(/\\([~=#{}:\\])/g, '$1').replace(/\\n/g, '\n').trim();
+
+interface GiftChoice {
+  correct: boolean;
+  text: string;
+}
+
+const parseGiftChoices = (body: string): GiftChoice[] => {
+  const choices: GiftChoice[] = [];
+  let index = findUnescaped(body, '=~');
+  while (index !== -1) {
+    const next = findUnescaped(body, '=~', index + 1);
+    let text = body.slice(index + 1, next === -1 ? undefined : next);
+    // Retour (feedback) après '#' ignoré
+    const feedback = findUnescaped(text, '#');
+    if (feedback !== -1) text = text.slice(0, feedback);
+    let correct = body[index] === '=';
+    const weight = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+    if (weight) {
+      correct = parseFloat(weight[1]) > 0;
+      text = text.slice(weight[0].length);
+    }
+    choices.push({ correct, text });
+    index = next;
+  }
+  return choices;
+};
+
+const parseGiftQuestion = (raw: string, section: string): Question | string => {
+  let text = raw.replace(/^::(.*?)::/, '');
+  const open = findUnescaped(text, '{');
+  if (open === -1) return "Bloc de réponses { ... } manquant.";
+  const close = findUnescaped(text, '}', open);
+  if (close === -1) return "Accolade fermante « } » manquante.";
+  if (findUnescaped(text, '{', close) !== -1) return "Plusieurs blocs de réponses dans la même question : non pris en charge.";
+
+  const before = unescapeGift(text.slice(0, open).replace(/^\[(html|moodle|plain|markdown)\]/, ''));
+  const after = unescapeGift(text.slice(close + 1));
+  const body = text.slice(open + 1, close).trim();
+  const base = { section_name: section };
+
+  // Question ouverte (essay)
+  if (!body) {
+    return createQuestion({ ...base, question_text: before });
+  }
+
+  // Vrai / Faux
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)\s*(#.*)?$/i);
+  if (trueFalse) {
+    return createQuestion({
+      ...base,
+      question_type: 'true_false',
+      question_text: "Indique si l'affirmation est vraie ou fausse.",
+      statements: [{ id: crypto.randomUUID(), text: before, is_true: trueFalse[1].toUpperCase().startsWith('T') }]
+    });
+  }
+
+  // Numérique : "#3.14:0.01"
+  if (body.startsWith('#')) {
+    const [value, tolerance] = body.slice(1).split(':').map(v => v.trim());
+    if (!value) return "Réponse numérique vide.";
+    return createQuestion({ ...base, question_text: before, teacher_answer: linesToHtml([tolerance ? `${value} (± ${tolerance})` : value]) });
+  }
+
+  const choices = parseGiftChoices(body);
+  if (choices.length === 0) return "Réponses non reconnues : chaque réponse doit commencer par « = » ou « ~ ».";
+
+  // Appariement : "=gauche -> droite"
+  if (choices.every(c => c.text.includes('->'))) {
+    return createQuestion({
+      ...base,
+      question_type: 'matching',
+      question_text: before,
+      pairs: choices.map(c => {
+        const [left, right] = c.text.split('->');
+        return { id: crypto.randomUUID(), left: unescapeGift(left), right: unescapeGift(right) };
+      })
+    });
+  }
+
+  if (choices.every(c => c.correct)) {
+    const answers = choices.map(c => unescapeGift(c.text));
+    // Réponse au milieu du texte : texte à trous
+    if (after) {
+      return createQuestion({
+        ...base,
+        question_type: 'cloze',
+        question_text: 'Complète le texte.',
+        cloze_text: `${before} [${answers[0]}] ${after}`
+      });
+    }
+    return createQuestion({ ...base, question_text: before, teacher_answer: linesToHtml([answers.join(' / ')]) });
+  }
+
+  if (!choices.some(c => c.correct)) return "QCM sans bonne réponse (« = »).";
+  return createQuestion({
+    ...base,
+    question_type: 'qcm',
+    question_text: [before, after].filter(Boolean).join(' … '),
+    options: choices.map(c => ({ id: crypto.randomUUID(), text: unescapeGift(c.text), is_correct: c.correct }))
+  });
+};
+
+const parseGift = (lines: string[], defaultSection: string, errors: TextImportError[]): Question[] => {
+  const questions: Question[] = [];
+  let section = defaultSection;
+
+  // Les commentaires sont retirés en gardant la numérotation des lignes
+  const cleaned = lines.map(line => /^\s*\/\//.test(line) ? '' : line);
+
+  splitBlocks(cleaned).forEach(block => {
+    const category = block.lines[0].match(/^\$CATEGORY:\s*(.+)$/i);
+    if (category) {
+      section = category[1].split('/').pop()!.trim() || defaultSection;
+      if (block.lines.length === 1) return;
+      block = { line: block.line + 1, lines: block.lines.slice(1) };
+    }
+    const result = parseGiftQuestion(block.lines.join('\n'), section);
+    if (typeof result === 'string') {
+      errors.push({ line: block.line, message: result });
+      return;
+    }
+    questions.push({ ...result, order_index: questions.length });
+  });
+
+  return questions;
+};
+
+// --- Markdown ---
+// ## Exercice 1
+// 1. Énoncé [2 pts]
+// > Réponse attendue
+
+const MD_SECTION = /^##\s+(.+)$/;
+const MD_QUESTION = /^\d+[.)]\s+(.+)$/;
+const MD_ANSWER = /^>\s?(.*)$/;
+const MD_POINTS = /\[\s*(\d+(?:[.,]\d+)?)\s*pts?\s*\]/i;
+
+const parseMarkdown = (lines: string[], defaultSection: string, errors: TextImportError[]): Question[] => {
+  const questions: Question[] = [];
+  let section = defaultSection;
+  let current: { statement: string[]; answer: string[]; points?: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    questions.push(createQuestion({
+      section_name: section,
+      question_text: current.statement.join('\n'),
+      teacher_answer: current.answer.length > 0 ? linesToHtml(current.answer) : '',
+      order_index: questions.length,
+      ...(current.points !== undefined ? { points: current.points } : {})
+    }));
+    current = null;
+  };
+
+  // Extrait "[n pts]" de l'énoncé
+  const takePoints = (text: string) => {
+    const match = text.match(MD_POINTS);
+    if (match && current) current.points = parseFloat(match[1].replace(',', '.'));
+    return text.replace(MD_POINTS, '').trim();
+  };
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    const lineNumber = i + 1;
+    if (!line) return;
+
+    const sectionMatch = line.match(MD_SECTION);
+    const questionMatch = line.match(MD_QUESTION);
+    const answerMatch = line.match(MD_ANSWER);
+
+    if (sectionMatch) {
+      flush();
+      section = sectionMatch[1].trim();
+    } else if (questionMatch) {
+      flush();
+      current = { statement: [], answer: [] };
+      current.statement.push(takePoints(questionMatch[1]));
+    } else if (answerMatch) {
+      if (!current) {
+        errors.push({ line: lineNumber, message: "Réponse « > » sans question numérotée au-dessus." });
+        return;
+      }
+      current.answer.push(answerMatch[1]);
+    } else if (current && current.answer.length === 0) {
+      // Suite de l'énoncé sur plusieurs lignes
+      current.statement.push(takePoints(line));
+    } else {
+      errors.push({ line: lineNumber, message: "Ligne non reconnue : attendu « ## Section », « 1. Énoncé » ou « > Réponse »." });
+    }
+  });
+  flush();
+
+  return questions;
+};
+
+export const parseQuestionText = (text: string, format: TextImportFormat | 'auto', defaultSection: string): TextImportResult => {
+  const resolved = format === 'auto' ? detectTextFormat(text) : format;
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const errors: TextImportError[] = [];
+
+  const questions = resolved === 'aiken'
+    ? parseAiken(lines, defaultSection, errors)
+    : resolved === 'gift'
+      ? parseGift(lines, defaultSection, errors)
+      : parseMarkdown(lines, defaultSection, errors);
+
+  return { format: resolved, questions, errors: errors.sort((a, b) => a.line - b.line) };
+};
@@ -0,0 +1,59 @@
+import { Evaluation, Question, VariantSettings } from '../types';
+import { groupQuestionsBySection } from './sections';
+
+export const MAX_VARIANTS = 6;
+
+export const DEFAULT_VARIANT_SETTINGS: VariantSettings = {
+  count: 1,
+  seed: 1,
+  shuffle_questions: true,
+  shuffle_options: true
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+export const getVariantLabel = (index: number) => `Sujet ${String.fromCharCode(65 + index)}`;
+
+export const getVariantCount = (evaluation: Evaluation) =>
+  Math.min(MAX_VARIANTS, Math.max(1, evaluation.variant_settings?.count || 1));
+
+// Générateur pseudo-aléatoire déterministe (mulberry32) : même graine, même tirage
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Construit le sujet n° index : les sections restent dans l'ordre, leur contenu est mélangé
+export const buildVariant = (evaluation: Evaluation, index: number): Evaluation => {
+  const settings = evaluation.variant_settings;
+  if (!settings || getVariantCount(evaluation) < 2) return evaluation;
+
+  const random = createRandom(settings.seed + index * 7919);
+  const groups = groupQuestionsBySection(evaluation);
+
+  const questions: Question[] = groups.flatMap(({ questions: sectionQuestions }) => {
+    const ordered = settings.shuffle_questions ? shuffle(sectionQuestions, random) : sectionQuestions;
+    return ordered.map(q => (
+      settings.shuffle_options && q.question_type === 'qcm'
+        ? { ...q, options: shuffle(q.options, random) }
+        : q
+    ));
+  }).map((q, order_index) => ({ ...q, order_index }));
+
+  return { ...evaluation, sections: groups.map(g => g.section), questions };
+};
@@ -0,0 +1,101 @@
+import { Evaluation, Question } from '../types';
+
+// Comparaison de deux états d'une évaluation pour l'historique des versions
+
+export type QuestionDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface QuestionDiff {
+  status: QuestionDiffStatus;
+  before: Question | null;
+  after: Question | null;
+  changed: { section: boolean; text: boolean; answer: boolean; points: boolean };
+}
+
+export interface EvaluationDiff {
+  titleChanged: boolean;
+  questions: QuestionDiff[];
+}
+
+// Texte brut d'un contenu riche : les équations gardent leur source LaTeX, les images un repère
+export const htmlToPlainText = (html: string | null): string => {
+  if (!html) return '';
+  if (typeof DOMParser === 'undefined') return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  const root = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html').body.firstElementChild!;
+  const lines: string[] = [''];
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      lines[lines.length - 1] += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as HTMLElement;
+    const tag = el.tagName.toLowerCase();
+    if (el.classList.contains('math-equation')) {
+      lines[lines.length - 1] += `$${el.dataset.latex || el.textContent || ''}$`;
+      return;
+    }
+    if (tag === 'img') {
+      lines[lines.length - 1] += '[image]';
+      return;
+    }
+    if (tag === 'br') {
+      lines.push('');
+      return;
+    }
+    const isBlock = ['p', 'div', 'li', 'h1', 'h2', 'h3', 'blockquote'].includes(tag);
+    if (isBlock && lines[lines.length - 1].trim()) lines.push('');
+    el.childNodes.forEach(walk);
+    if (isBlock) lines.push('');
+  };
+  root.childNodes.forEach(walk);
+  return lines.map(line => line.trim()).filter(Boolean).join('\n');
+};
+
+// Réponses attendues d'une question, une ligne par élément
+export const summarizeAnswer = (q: Question): string => {
+  switch (q.question_type) {
+    case 'qcm':
+      return q.options.map(o => `${o.is_correct ? '☑' : '☐'} ${htmlToPlainText(o.text)}`).join('\n');
+    case 'true_false':
+      return q.statements.map(s => `${s.is_true ? 'V' : 'F'} — ${htmlToPlainText(s.text)}`).join('\n');
+    case 'matching':
+      return q.pairs.map(p => `${htmlToPlainText(p.left)} → ${htmlToPlainText(p.right)}`).join('\n');
+    case 'cloze':
+      return q.cloze_text;
+    default:
+      return htmlToPlainText(q.teacher_answer);
+  }
+};
+
+const compareQuestions = (before: Question, after: Question) => ({
+  section: before.section_name !== after.section_name,
+  text: htmlToPlainText(before.question_text) !== htmlToPlainText(after.question_text) || before.question_type !== after.question_type,
+  answer: summarizeAnswer(before) !== summarizeAnswer(after),
+  points: (before.points ?? 0) !== (after.points ?? 0) || !!before.is_bonus !== !!after.is_bonus
+});
+
+const NO_CHANGE = { section: false, text: false, answer: false, points: false };
+
+// Les questions sont appariées par identifiant (stable depuis l'enregistrement différentiel) ;
+// une question retirée apparaît à l'endroit qu'elle occupait dans l'ancienne version
+export const diffEvaluations = (before: Evaluation, after: Evaluation): EvaluationDiff => {
+  const beforeById = new Map(before.questions.map(q => [q.id, q]));
+  const afterIds = new Set(after.questions.map(q => q.id));
+
+  const rows: QuestionDiff[] = after.questions.map(q => {
+    const previous = beforeById.get(q.id);
+    if (!previous) return { status: 'added', before: null, after: q, changed: NO_CHANGE };
+    const changed = compareQuestions(previous, q);
+    const modified = changed.section || changed.text || changed.answer || changed.points;
+    return { status: modified ? 'modified' : 'unchanged', before: previous, after: q, changed };
+  });
+
+  before.questions.forEach((q, i) => {
+    if (afterIds.has(q.id)) return;
+    const predecessor = before.questions.slice(0, i).reverse().find(p => rows.some(r => r.before?.id === p.id));
+    const position = predecessor ? rows.findIndex(r => r.before?.id === predecessor.id) + 1 : 0;
+    rows.splice(position, 0, { status: 'removed', before: q, after: null, changed: NO_CHANGE });
+  });
+
+  return { titleChanged: before.title !== after.title, questions: rows };
+};
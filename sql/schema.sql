@@ -5,37 +5,367 @@ create extension if not exists "uuid-ossp";
 -- 1. Table: Categories
 create table categories (
   id uuid default uuid_generate_v4() primary key,
-  user_id uuid default auth.uid(), -- Optional: Row Level Security ownership
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade, -- Propriétaire (RLS, section 7)
   name text not null,
   color text not null default '#3b82f6',
+  header jsonb, -- En-tête des copies de la matière ; les champs absents reprennent les réglages de l'enseignant
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
+-- 1 bis. Table: Compétences (référentiel de l'enseignant, ex. socle commun)
+create table competencies (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  code text not null default '', -- ex: 'D1.3'
+  label text not null,
+  domain text not null default '', -- Regroupement à l'affichage
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+-- 1 ter. Table: Réglages de l'enseignant (en-tête des copies par défaut)
+create table teacher_settings (
+  user_id uuid primary key default auth.uid() references auth.users(id) on delete cascade,
+  document_header jsonb not null default '{}'::jsonb -- { school_name, logo_url, class_name, date, duration, allowed_materials, instructions, show_student_name }
+);
+
 -- 2. Table: Evaluations
 create table evaluations (
   id uuid default uuid_generate_v4() primary key,
-  user_id uuid default auth.uid(),
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
   category_id uuid references categories(id) on delete set null,
   title text not null,
+  variant_settings jsonb, -- Sujets A/B : { count, seed, shuffle_questions, shuffle_options }
+  numbering jsonb, -- Numérotation des questions : { scope: 'continuous' | 'per_section', style: 'arabic' | 'roman' | 'letter' }
+  competency_grid boolean not null default false, -- Grille de compétences sur la copie élève
+  grading_scale jsonb, -- Barème : { target_total: 20 | null, rounding: 'none' | 'half' | 'quarter' }
+  header jsonb, -- En-tête propre à l'évaluation ; les champs absents reprennent ceux de la matière
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default now() not null -- Version, pour détecter les enregistrements concurrents
+);
+
+-- 3. Table: Question Bank (questions réutilisables entre évaluations)
+create table question_bank (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  category_id uuid references categories(id) on delete set null,
+  level text, -- ex: '6e', 'CM2'
+  theme text, -- ex: 'Fractions'
+  question jsonb not null, -- Copie complète de la question (type, énoncé, corrigé...)
+  is_shared boolean not null default false, -- Partage explicite avec les autres enseignants (lecture seule)
   created_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
 
--- 3. Table: Questions
+-- 4. Table: Sections (titre, consigne, ordre, temps conseillé, barème plafonné)
+create table sections (
+  id uuid default uuid_generate_v4() primary key,
+  evaluation_id uuid not null references evaluations(id) on delete cascade,
+  title text not null default '',
+  instructions text, -- Consigne affichée sous le titre
+  order_index integer default 0,
+  duration_minutes integer, -- Temps conseillé (optionnel)
+  points_cap numeric -- La section ne rapporte jamais plus (optionnel)
+);
+
+-- 4 bis. Table: Questions
 create table questions (
   id uuid default uuid_generate_v4() primary key,
   evaluation_id uuid references evaluations(id) on delete cascade,
-  section_name text,
+  section_id uuid references sections(id) on delete set null,
+  section_name text, -- Copie du titre de la section (anciens exports)
+  question_type text not null default 'open', -- 'open' | 'qcm' | 'true_false' | 'matching' | 'cloze'
   question_text text not null,
   teacher_answer text, -- HTML Rich Text
   student_prompt text, -- HTML Rich Text or NULL
+  options jsonb not null default '[]'::jsonb, -- QCM : [{ id, text, is_correct }]
+  statements jsonb not null default '[]'::jsonb, -- Vrai/Faux : [{ id, text, is_true }]
+  pairs jsonb not null default '[]'::jsonb, -- Relier : [{ id, left, right }]
+  cloze_text text, -- Texte à trous : réponses entre crochets [ ]
   order_index integer default 0,
-  points numeric default 2
+  points numeric default 2,
+  bank_item_id uuid references question_bank(id) on delete set null, -- Question de la banque d'origine
+  competency_ids jsonb not null default '[]'::jsonb, -- Identifiants de compétences (table competencies)
+  is_bonus boolean not null default false -- Points hors du total de base du barème
+);
+
+-- 4 ter. Table: Evaluation Versions (historique, un instantané par enregistrement via save_evaluation)
+create table evaluation_versions (
+  id uuid default uuid_generate_v4() primary key,
+  evaluation_id uuid not null references evaluations(id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade, -- Auteur de l'enregistrement
+  author_email text,
+  snapshot jsonb not null, -- { id, title, category_id, variant_settings, questions: [...] }
+  created_at timestamp with time zone default now() not null, -- Dernier enregistrement regroupé dans cet instantané
+  first_saved_at timestamp with time zone default now() not null -- Premier enregistrement : début de la fenêtre de regroupement
 );
+create index evaluation_versions_evaluation_idx on evaluation_versions (evaluation_id, created_at desc);
 
--- 4. Storage Bucket Policy (SQL to create bucket not always supported in raw SQL editor, usually done via UI)
+-- 4 quater. Tables: Classes et élèves
+create table classes (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  name text not null, -- ex: '5e B'
+  school_year text, -- ex: '2025-2026'
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table students (
+  id uuid default uuid_generate_v4() primary key,
+  class_id uuid not null references classes(id) on delete cascade,
+  last_name text not null default '',
+  first_name text not null default '',
+  order_index integer default 0
+);
+
+-- 4 quinquies. Table: Notes (une ligne par élève et par évaluation)
+create table grades (
+  id uuid default uuid_generate_v4() primary key,
+  evaluation_id uuid not null references evaluations(id) on delete cascade,
+  student_id uuid not null references students(id) on delete cascade,
+  status text not null default 'present' check (status in ('present', 'absent', 'exempt')),
+  scores jsonb not null default '{}'::jsonb, -- { "<question_id>": points obtenus }, plafonnés aux points de la question
+  updated_at timestamp with time zone default now() not null,
+  unique (evaluation_id, student_id)
+);
+
+-- 5. Storage Bucket Policy (SQL to create bucket not always supported in raw SQL editor, usually done via UI)
 -- But here is the policy assuming bucket 'eval-images' exists.
+-- L'éditeur y envoie les images importées (fichier, glisser-déposer, collage) ; sans Supabase elles sont intégrées en data URL.
 -- insert into storage.buckets (id, name, public) values ('eval-images', 'eval-images', true);
 
--- Policies (Example for public access, refine for production)
--- create policy "Public Access" on storage.objects for select using ( bucket_id = 'eval-images' );
--- create policy "Authenticated Insert" on storage.objects for insert with check ( bucket_id = 'eval-images' AND auth.role() = 'authenticated' );
+-- Chaque enseignant écrit dans son propre dossier "<user_id>/..." ; la lecture reste publique pour l'aperçu et l'impression
+-- create policy "Images: lecture publique" on storage.objects for select using ( bucket_id = 'eval-images' );
+-- create policy "Images: ajout dans son dossier" on storage.objects for insert to authenticated with check ( bucket_id = 'eval-images' and (storage.foldername(name))[1] = auth.uid()::text );
+-- create policy "Images: suppression dans son dossier" on storage.objects for delete to authenticated using ( bucket_id = 'eval-images' and (storage.foldername(name))[1] = auth.uid()::text );
+
+-- 6. Migrations (bases créées avec une version antérieure du schéma)
+alter table questions add column if not exists question_type text not null default 'open';
+alter table questions add column if not exists options jsonb not null default '[]'::jsonb;
+alter table questions add column if not exists statements jsonb not null default '[]'::jsonb;
+alter table questions add column if not exists pairs jsonb not null default '[]'::jsonb;
+alter table questions add column if not exists cloze_text text;
+-- Créer d'abord la table question_bank (section 3) avant la colonne suivante
+alter table questions add column if not exists bank_item_id uuid references question_bank(id) on delete set null;
+alter table evaluations add column if not exists variant_settings jsonb;
+alter table question_bank add column if not exists is_shared boolean not null default false;
+alter table evaluations add column if not exists updated_at timestamp with time zone default now() not null;
+-- Créer d'abord la table sections (section 4) ; les sections des anciennes évaluations sont déduites de section_name
+-- par l'application puis enregistrées à la sauvegarde suivante
+alter table evaluations add column if not exists numbering jsonb;
+alter table questions add column if not exists section_id uuid references sections(id) on delete set null;
+-- Créer aussi la table competencies (section 1 bis) : competency_ids en référence les identifiants, sans clé étrangère
+alter table evaluations add column if not exists competency_grid boolean not null default false;
+alter table questions add column if not exists competency_ids jsonb not null default '[]'::jsonb;
+alter table evaluations add column if not exists grading_scale jsonb;
+alter table questions add column if not exists is_bonus boolean not null default false;
+-- Créer aussi la table teacher_settings (section 1 ter)
+alter table categories add column if not exists header jsonb;
+alter table evaluation_versions add column if not exists first_saved_at timestamp with time zone default now() not null;
+alter table evaluations add column if not exists header jsonb;
+-- Les lignes créées avant l'authentification n'ont pas de propriétaire : les attribuer avant d'activer la RLS, par ex.
+-- update categories set user_id = '<uuid de l''enseignant>' where user_id is null; (idem evaluations, question_bank)
+
+-- 7. Row Level Security : chaque enseignant ne voit et ne modifie que ses propres données
+alter table categories enable row level security;
+alter table competencies enable row level security;
+alter table teacher_settings enable row level security;
+alter table evaluations enable row level security;
+alter table sections enable row level security;
+alter table questions enable row level security;
+alter table question_bank enable row level security;
+alter table evaluation_versions enable row level security;
+alter table classes enable row level security;
+alter table students enable row level security;
+alter table grades enable row level security;
+
+create policy "Categories: propriétaire" on categories for all
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+create policy "Competences: propriétaire" on competencies for all
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+create policy "Reglages: propriétaire" on teacher_settings for all
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+create policy "Evaluations: propriétaire" on evaluations for all
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+-- Les sections et les questions suivent les droits de leur évaluation
+create policy "Sections: propriétaire de l'évaluation" on sections for all
+  using ( exists (select 1 from evaluations e where e.id = sections.evaluation_id and e.user_id = auth.uid()) )
+  with check ( exists (select 1 from evaluations e where e.id = sections.evaluation_id and e.user_id = auth.uid()) );
+
+create policy "Questions: propriétaire de l'évaluation" on questions for all
+  using ( exists (select 1 from evaluations e where e.id = questions.evaluation_id and e.user_id = auth.uid()) )
+  with check ( exists (select 1 from evaluations e where e.id = questions.evaluation_id and e.user_id = auth.uid()) );
+
+-- L'historique suit les droits de son évaluation ; il n'est jamais modifié qu'à travers save_evaluation
+create policy "Versions: lecture" on evaluation_versions for select
+  using ( exists (select 1 from evaluations e where e.id = evaluation_versions.evaluation_id and e.user_id = auth.uid()) );
+create policy "Versions: ajout" on evaluation_versions for insert
+  with check ( user_id = auth.uid() and exists (select 1 from evaluations e where e.id = evaluation_versions.evaluation_id and e.user_id = auth.uid()) );
+create policy "Versions: regroupement" on evaluation_versions for update
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+create policy "Classes: propriétaire" on classes for all
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+
+-- Les élèves suivent les droits de leur classe ; une note exige l'évaluation et l'élève du même enseignant
+create policy "Eleves: propriétaire de la classe" on students for all
+  using ( exists (select 1 from classes c where c.id = students.class_id and c.user_id = auth.uid()) )
+  with check ( exists (select 1 from classes c where c.id = students.class_id and c.user_id = auth.uid()) );
+
+create policy "Notes: propriétaire" on grades for all
+  using ( exists (select 1 from evaluations e where e.id = grades.evaluation_id and e.user_id = auth.uid()) )
+  with check (
+    exists (select 1 from evaluations e where e.id = grades.evaluation_id and e.user_id = auth.uid())
+    and exists (select 1 from students s join classes c on c.id = s.class_id where s.id = grades.student_id and c.user_id = auth.uid())
+  );
+
+-- Banque : lecture de ses questions et de celles explicitement partagées ; écriture sur les siennes uniquement
+create policy "Banque: lecture" on question_bank for select
+  using ( user_id = auth.uid() or is_shared );
+create policy "Banque: ajout" on question_bank for insert
+  with check ( user_id = auth.uid() );
+create policy "Banque: modification" on question_bank for update
+  using ( user_id = auth.uid() ) with check ( user_id = auth.uid() );
+create policy "Banque: suppression" on question_bank for delete
+  using ( user_id = auth.uid() );
+
+-- 8. Enregistrement atomique d'une évaluation, de ses sections et de ses questions (appelé par dataService.saveEvaluation)
+-- Une seule transaction : sections et questions sont insérées, mises à jour ou supprimées selon les différences,
+-- leurs identifiants sont conservés, et un instantané est ajouté à l'historique (evaluation_versions).
+-- Les règles RLS s'appliquent (security invoker).
+-- Erreurs : EVALUATION_CONFLICT (modifiée depuis le chargement), EVALUATION_DELETED, QUESTION_ID_CONFLICT.
+-- Ancienne signature (sans sections)
+drop function if exists save_evaluation(jsonb, jsonb, timestamp with time zone, boolean);
+
+create or replace function save_evaluation(
+  p_evaluation jsonb,
+  p_questions jsonb,
+  p_expected_updated_at timestamp with time zone default null,
+  p_force boolean default false,
+  p_sections jsonb default '[]'::jsonb
+) returns timestamp with time zone
+language plpgsql
+security invoker
+as $$
+declare
+  v_id uuid := (p_evaluation->>'id')::uuid;
+  v_current timestamp with time zone;
+  v_now timestamp with time zone := clock_timestamp();
+  v_saved integer;
+  v_snapshot jsonb := p_evaluation || jsonb_build_object('sections', p_sections, 'questions', p_questions);
+begin
+  select updated_at into v_current from evaluations where id = v_id for update;
+
+  if found then
+    if not p_force and v_current is distinct from p_expected_updated_at then
+      raise exception 'EVALUATION_CONFLICT';
+    end if;
+    update evaluations set
+      title = p_evaluation->>'title',
+      category_id = (p_evaluation->>'category_id')::uuid,
+      numbering = p_evaluation->'numbering',
+      variant_settings = p_evaluation->'variant_settings',
+      competency_grid = coalesce((p_evaluation->>'competency_grid')::boolean, false),
+      grading_scale = p_evaluation->'grading_scale',
+      header = p_evaluation->'header',
+      updated_at = v_now
+    where id = v_id;
+  else
+    if not p_force and p_expected_updated_at is not null then
+      raise exception 'EVALUATION_DELETED';
+    end if;
+    insert into evaluations (id, title, category_id, numbering, variant_settings, competency_grid, grading_scale, header, updated_at)
+    values (v_id, p_evaluation->>'title', (p_evaluation->>'category_id')::uuid, p_evaluation->'numbering', p_evaluation->'variant_settings',
+            coalesce((p_evaluation->>'competency_grid')::boolean, false), p_evaluation->'grading_scale', p_evaluation->'header', v_now);
+  end if;
+
+  -- Sections ajoutées ou modifiées, avant les questions qui y font référence
+  insert into sections (id, evaluation_id, title, instructions, order_index, duration_minutes, points_cap)
+  select s.id, v_id, s.title, s.instructions, s.order_index, s.duration_minutes, s.points_cap
+  from jsonb_populate_recordset(null::sections, p_sections) s
+  on conflict (id) do update set
+    title = excluded.title,
+    instructions = excluded.instructions,
+    order_index = excluded.order_index,
+    duration_minutes = excluded.duration_minutes,
+    points_cap = excluded.points_cap
+  where sections.evaluation_id = v_id
+    and (sections.title, sections.instructions, sections.order_index, sections.duration_minutes, sections.points_cap)
+    is distinct from
+        (excluded.title, excluded.instructions, excluded.order_index, excluded.duration_minutes, excluded.points_cap);
+
+  -- Une section appartenant à une autre évaluation n'a été ni insérée ni mise à jour
+  select count(*) into v_saved from sections
+  where evaluation_id = v_id
+    and id in (select (s->>'id')::uuid from jsonb_array_elements(p_sections) s);
+  if v_saved <> jsonb_array_length(p_sections) then
+    raise exception 'SECTION_ID_CONFLICT';
+  end if;
+
+  -- Questions retirées
+  delete from questions
+  where evaluation_id = v_id
+    and id not in (select (q->>'id')::uuid from jsonb_array_elements(p_questions) q);
+
+  -- Questions ajoutées ou modifiées (les lignes identiques ne sont pas réécrites)
+  insert into questions (id, evaluation_id, section_id, section_name, question_type, question_text, teacher_answer, student_prompt,
+                         options, statements, pairs, cloze_text, order_index, points, bank_item_id, competency_ids, is_bonus)
+  select q.id, v_id, q.section_id, q.section_name, q.question_type, q.question_text, q.teacher_answer, q.student_prompt,
+         q.options, q.statements, q.pairs, q.cloze_text, q.order_index, q.points, q.bank_item_id, coalesce(q.competency_ids, '[]'::jsonb),
+         coalesce(q.is_bonus, false)
+  from jsonb_populate_recordset(null::questions, p_questions) q
+  on conflict (id) do update set
+    section_id = excluded.section_id,
+    section_name = excluded.section_name,
+    question_type = excluded.question_type,
+    question_text = excluded.question_text,
+    teacher_answer = excluded.teacher_answer,
+    student_prompt = excluded.student_prompt,
+    options = excluded.options,
+    statements = excluded.statements,
+    pairs = excluded.pairs,
+    cloze_text = excluded.cloze_text,
+    order_index = excluded.order_index,
+    points = excluded.points,
+    bank_item_id = excluded.bank_item_id,
+    competency_ids = excluded.competency_ids,
+    is_bonus = excluded.is_bonus
+  where questions.evaluation_id = v_id
+    and (questions.section_id, questions.section_name, questions.question_type, questions.question_text, questions.teacher_answer,
+         questions.student_prompt, questions.options, questions.statements, questions.pairs, questions.cloze_text,
+         questions.order_index, questions.points, questions.bank_item_id, questions.competency_ids, questions.is_bonus)
+    is distinct from
+        (excluded.section_id, excluded.section_name, excluded.question_type, excluded.question_text, excluded.teacher_answer,
+         excluded.student_prompt, excluded.options, excluded.statements, excluded.pairs, excluded.cloze_text,
+         excluded.order_index, excluded.points, excluded.bank_item_id, excluded.competency_ids, excluded.is_bonus);
+
+  -- Une question appartenant à une autre évaluation n'a été ni insérée ni mise à jour
+  select count(*) into v_saved from questions
+  where evaluation_id = v_id
+    and id in (select (q->>'id')::uuid from jsonb_array_elements(p_questions) q);
+  if v_saved <> jsonb_array_length(p_questions) then
+    raise exception 'QUESTION_ID_CONFLICT';
+  end if;
+
+  -- Sections retirées (leurs questions ont été déplacées ou supprimées ci-dessus)
+  delete from sections
+  where evaluation_id = v_id
+    and id not in (select (s->>'id')::uuid from jsonb_array_elements(p_sections) s);
+
+  -- Historique : les enregistrements d'un même auteur (autosauvegarde) dans les 10 minutes qui suivent
+  -- la création de son dernier instantané le remplacent ; passé ce délai, un nouvel instantané est créé,
+  -- même si l'enseignant n'a jamais cessé d'enregistrer
+  update evaluation_versions set snapshot = v_snapshot, created_at = v_now
+  where id = (select id from evaluation_versions where evaluation_id = v_id order by created_at desc limit 1)
+    and user_id = auth.uid()
+    and first_saved_at > v_now - interval '10 minutes';
+  if not found then
+    insert into evaluation_versions (evaluation_id, author_email, snapshot, created_at, first_saved_at)
+    values (v_id, auth.jwt()->>'email', v_snapshot, v_now, v_now);
+  end if;
+
+  return v_now;
+end;
+$$;
@@ -1,28 +1,201 @@
-
 export interface Category {
   id: string;
   name: string;
   color: string; // Hex code
+  header?: DocumentHeaderOverrides | null; // En-tête des copies de la matière
+  user_id?: string;
+}
+
+// En-tête de la première page des copies
+export interface DocumentHeader {
+  school_name: string;
+  logo_url: string; // '' = aucun logo
+  class_name: string; // '' = à compléter par l'élève
+  date: string; // Texte libre ; '' = à compléter par l'élève
+  duration: string; // ex: "1 h"
+  allowed_materials: string; // ex: "Calculatrice autorisée"
+  instructions: string; // Consignes générales
+  show_student_name: boolean; // Champs Nom / Prénom à compléter
+}
+
+// Réglages d'un niveau (enseignant, matière, évaluation) : un champ absent reprend celui du niveau précédent
+export type DocumentHeaderOverrides = Partial<DocumentHeader>;
+
+// Référentiel de compétences de l'enseignant (ex. socle commun)
+export interface Competency {
+  id: string;
+  code: string; // ex: "D1.3"
+  label: string;
+  domain: string; // Regroupement, ex: "D1 — Les langages pour penser et communiquer" ('' = aucun)
   user_id?: string;
 }
 
+export type CompetencyLevel = 'not_acquired' | 'in_progress' | 'acquired' | 'exceeded';
+
+export type QuestionType = 'open' | 'qcm' | 'true_false' | 'matching' | 'cloze';
+
+export interface QcmOption {
+  id: string;
+  text: string;
+  is_correct: boolean;
+}
+
+export interface TrueFalseStatement {
+  id: string;
+  text: string;
+  is_true: boolean;
+}
+
+export interface MatchingPair {
+  id: string;
+  left: string;
+  right: string;
+}
+
 export interface Question {
   id: string;
   evaluation_id?: string;
-  section_name: string; // e.g., "Exercise 1"
+  section_id?: string | null; // Section (Evaluation.sections) contenant la question
+  section_name: string; // Copie du titre de la section, e.g., "Exercise 1"
+  question_type: QuestionType;
   question_text: string;
   teacher_answer: string; // HTML/Rich Text
   student_prompt: string | null; // HTML or null for dotted lines
+  options: QcmOption[]; // QCM uniquement, vide sinon
+  statements: TrueFalseStatement[]; // Vrai/Faux uniquement
+  pairs: MatchingPair[]; // Relier uniquement
+  cloze_text: string; // Texte à trous : les réponses sont écrites entre crochets [ ]
   order_index: number;
   points: number;
+  bank_item_id?: string | null; // Question de la banque dont celle-ci est une copie
+  competency_ids: string[]; // Compétences évaluées (référentiel), les identifiants inconnus sont ignorés
+  is_bonus: boolean; // Points en plus, hors du total de base du barème
+}
+
+export interface Section {
+  id: string;
+  evaluation_id?: string;
+  title: string;
+  instructions: string; // Consigne affichée sous le titre ('' = aucune)
+  order_index: number;
+  duration_minutes: number | null; // Temps conseillé
+  points_cap: number | null; // Barème plafonné : la section ne rapporte jamais plus
+}
+
+export type NumberingStyle = 'arabic' | 'roman' | 'letter';
+
+export interface NumberingSettings {
+  scope: 'continuous' | 'per_section'; // Numérotation continue ou reprise à chaque section
+  style: NumberingStyle;
+}
+
+export type ScaleRounding = 'none' | 'half' | 'quarter';
+
+export interface GradingScale {
+  target_total: number | null; // Note ramenée sur ce total (ex: 20) ; null = somme des points
+  rounding: ScaleRounding; // Arrondi de la note finale
+}
+
+export interface VariantSettings {
+  count: number; // Nombre de sujets à générer (1 = sujet unique)
+  seed: number; // Graine du tirage, pour régénérer les mêmes sujets
+  shuffle_questions: boolean; // Mélange des questions à l'intérieur de chaque section
+  shuffle_options: boolean; // Mélange des propositions de QCM
 }
 
 export interface Evaluation {
   id: string;
   title: string;
-  category_id: string;
+  category_id: string | null; // null : sans matière (supprimée, ou absente d'une sauvegarde importée)
   created_at?: string;
+  updated_at?: string; // Version enregistrée, pour détecter les modifications concurrentes
   questions: Question[];
+  sections?: Section[]; // Ordre d'affichage ; déduites de section_name pour les anciennes évaluations
+  numbering?: NumberingSettings | null;
+  variant_settings?: VariantSettings | null;
+  competency_grid?: boolean; // Grille de positionnement imprimée sur la copie élève
+  grading_scale?: GradingScale | null;
+  header?: DocumentHeaderOverrides | null; // En-tête propre à l'évaluation
+}
+
+export interface EvaluationVersion {
+  id: string;
+  evaluation_id: string;
+  author: string | null; // E-mail de l'enseignant ayant enregistré
+  created_at: string;
+  snapshot: Evaluation; // Évaluation et questions telles qu'enregistrées
+}
+
+export type EvaluationSort = 'date_desc' | 'date_asc' | 'title_asc' | 'title_desc' | 'points_desc' | 'points_asc';
+
+export interface EvaluationFilters {
+  search: string; // Titre, énoncés et corrigés
+  category_id: string; // '' = toutes, 'none' = sans matière
+  date_from: string; // AAAA-MM-JJ, date de création
+  date_to: string;
+  min_questions: number | null;
+  max_questions: number | null;
+  sort: EvaluationSort;
+}
+
+export interface BankItem {
+  id: string;
+  category_id: string | null;
+  level: string; // ex: "6e", "CM2"
+  theme: string; // ex: "Fractions"
+  question: Question; // Copie de référence, sans lien avec une évaluation
+  created_at?: string;
+  user_id?: string;
+  is_shared?: boolean; // Visible (lecture seule) par les autres enseignants
+}
+
+export interface BankFilters {
+  search?: string;
+  scope?: 'mine' | 'shared'; // Mes questions ou celles partagées par les collègues
+  category_id?: string;
+  level?: string;
+  theme?: string;
+}
+
+export interface Student {
+  id: string;
+  class_id: string;
+  last_name: string;
+  first_name: string;
+  order_index: number;
+}
+
+export interface SchoolClass {
+  id: string;
+  name: string; // ex: "5e B"
+  school_year: string; // ex: "2025-2026"
+  students: Student[]; // Triés par order_index
+  created_at?: string;
+}
+
+export type GradeStatus = 'present' | 'absent' | 'exempt';
+
+// Notes d'un élève pour une évaluation ; une question sans entrée n'est pas encore corrigée
+export interface StudentGrade {
+  id: string;
+  evaluation_id: string;
+  student_id: string;
+  status: GradeStatus;
+  scores: Record<string, number>; // question_id -> points obtenus
+  updated_at?: string;
+}
+
+// Sauvegarde / échange : fichier JSON autonome (images intégrées)
+export type BundleScope = 'evaluation' | 'category' | 'workspace';
+
+export interface EvaluationBundle {
+  format: 'dcb-evaluations';
+  version: number;
+  scope: BundleScope;
+  exported_at: string;
+  categories: Category[];
+  evaluations: Evaluation[];
+  images: Record<string, string>; // Clé "bundle:img-1" -> data URL
 }
 
-export type Tab = 'dashboard' | 'categories' | 'editor' | 'preview';
+export type Tab = 'dashboard' | 'categories' | 'competencies' | 'classes' | 'grading' | 'editor' | 'preview' | 'settings';